@@ -1,22 +1,106 @@
 #!/usr/bin/env tsx
 // A2A Agent Demo — Test Agent ↔ Willy (Willform Agent)
-// Usage: npm run agent
-
+// Usage: npm run agent                 (every scenario in scenarios/, in file name order)
+//        npm run agent -- --scenario examples/scenario-diagnose.yaml [--scenario ...]
+//        npm run agent -- --scenario-dir path/to/scenarios
+//        npm run agent -- --chat       (type your own requests; /help lists the slash commands)
+//        npm run agent -- --auto-approve=read,mutate   (risks that run without asking; default read, --auto read,mutate)
+//        npm run agent -- --replay transcripts/agent-….json   (re-render a recorded run; no model, wallet or Willy needed)
+//
+// Every run is recorded to transcripts/ (WILLFORM_TRANSCRIPT_DIR, or --transcript file; --no-transcript to skip)
+
+import { writeFileSync } from "fs";
+import { relative } from "path";
+import { fileURLToPath } from "url";
+import { stripVTControlCharacters } from "util";
+import * as readline from "readline";
 import Anthropic from "@anthropic-ai/sdk";
 import chalk from "chalk";
-import { wrapFetchWithPaymentFromConfig } from "@x402/fetch";
-import { ExactEvmScheme } from "@x402/evm";
-import { privateKeyToAccount } from "viem/accounts";
-import { A2AClient } from "./lib/a2a-client.js";
+import { A2AClient, eventState } from "./lib/a2a-client.js";
 import { loadConfig } from "./lib/config.js";
-import { fetchAgentCard, fetchOperations, type AgentCard, type OperationInfo } from "./lib/agent-card.js";
+import { PaymentPolicyError } from "./lib/payment-policy.js";
+import { parseApprovalAnswer, parseAutoApprove, type ApprovalDecision, type OperationRisk } from "./lib/approval.js";
+import {
+  buildA2ATool,
+  buildPlanTool,
+  buildSystemPrompt,
+  errorOutcome,
+  type A2ACallInput,
+  MODEL,
+  runAgentTurn,
+  taskOutcome,
+  type ToolOutcome,
+} from "./lib/agent-loop.js";
+import {
+  loadTranscript,
+  replayTranscript,
+  transcriptDirFromEnv,
+  transcriptPath,
+  TranscriptRecorder,
+  type Transcript,
+} from "./lib/transcript.js";
+import {
+  evaluateScenario,
+  loadScenarioDir,
+  loadScenarioFile,
+  runSetup,
+  ScenarioError,
+  type CallRecord,
+  type ExpectationResult,
+  type Scenario,
+} from "./lib/scenario.js";
+import {
+  AgentCardError,
+  extractReply,
+  fetchAgentCard,
+  OPERATIONS_QUERY,
+  operationsFromCard,
+  parseOperationTable,
+  type AgentCard,
+  type OperationInfo,
+} from "./lib/agent-card.js";
 
 // Collected x402 handshake steps for display (reset before each send)
 let x402Steps: string[] | null = null;
 
+// Records this run for --replay; null with --no-transcript and while replaying
+let transcript: TranscriptRecorder | null = null;
+
 const AUTO_MODE = process.argv.includes("--auto");
+const CHAT_MODE = process.argv.includes("--chat");
+
+// Every value of a repeatable --flag, as `--flag value` or `--flag=value`
+function argValues(flag: string): string[] {
+  const argv = process.argv.slice(2);
+  return argv.flatMap((arg, i) => {
+    if (arg === flag && i + 1 < argv.length) return [argv[i + 1]];
+    if (arg.startsWith(`${flag}=`)) return [arg.slice(flag.length + 1)];
+    return [];
+  });
+}
+
+const DEFAULT_SCENARIO_DIR = fileURLToPath(new URL("../scenarios", import.meta.url));
+
+// Risks the agent may run without asking; --auto presents unattended, so only destroy still waits for a person
+const autoApproveFlag = argValues("--auto-approve").at(-1);
+let autoApprove: Set<OperationRisk>;
+try {
+  autoApprove = parseAutoApprove(autoApproveFlag ?? (AUTO_MODE ? "read,mutate" : "read"));
+} catch (e) {
+  console.error(e instanceof Error ? e.message : e);
+  process.exit(2);
+}
+
+const REPLAY_PATH = argValues("--replay").at(-1);
+
+// The chat's readline and the one queue of lines read from it. The chat loop and approval questions asked mid-turn
+// both take lines from the queue, so a piped or typed-ahead answer reaches whichever asked first.
+let chatInput: { rl: readline.Interface; nextLine: () => Promise<string | null> } | null = null;
+const CHAT_PROMPT = `\n  ${chalk.bold.white("▶")}  `;
+
+// a2a_call operations of the scenario being run, for its expectations (null outside scenarios)
+let callLog: CallRecord[] | null = null;
 
-const MODEL = "claude-sonnet-4-6";
 const W = Math.max(72, Math.min(process.stdout.columns ?? 80, 110));
 
 const sleep = (ms: number) => new Promise<void>((r) => setTimeout(r, ms));
@@ -61,9 +145,11 @@ function startSpinner(text: string): () => void {
   if (!process.stdout.isTTY) return () => {};
   const frames = ["⠋", "⠙", "⠹", "⠸", "⠼", "⠴", "⠦", "⠧", "⠇", "⠏"];
   let i = 0;
-  const iv = setInterval(() => {
-    process.stdout.write(`\r  ${chalk.cyan(frames[i++ % frames.length])} ${chalk.gray(text)}`);
-  }, 80);
+  const draw = () => process.stdout.write(`\r  ${chalk.cyan(frames[i++ % frames.length])} ${chalk.gray(text)}`);
+  // While recording every frame would be its own transcript event, so the spinner holds still
+  let iv: NodeJS.Timeout | undefined;
+  if (transcript) draw();
+  else iv = setInterval(draw, 80);
   return () => {
     clearInterval(iv);
     process.stdout.write("\r" + " ".repeat(text.length + 6) + "\r");
@@ -71,12 +157,19 @@ function startSpinner(text: string): () => void {
 }
 
 async function waitForEnter(msg: string) {
-  if (!process.stdout.isTTY || AUTO_MODE) {
+  // In chat mode the prompt itself is the pause; raw-mode stdin would also fight readline
+  if (!process.stdout.isTTY || AUTO_MODE || CHAT_MODE) {
     if (AUTO_MODE) await sleep(1500);
     return;
   }
   process.stdout.write(chalk.gray(`\n  [ ${msg} ] `));
-  await new Promise<void>((resolve) => {
+  transcript?.pause(msg);
+  await readEnter();
+  transcript?.resume();
+}
+
+function readEnter(): Promise<void> {
+  return new Promise<void>((resolve) => {
     process.stdin.setRawMode?.(true);
     process.stdin.resume();
     process.stdin.setEncoding("utf8");
@@ -395,7 +488,7 @@ function showAgentReply(text: string) {
 
 // ─── Agent Card Discovery Display ────────────────────────────
 
-async function fetchAgentCardWithDisplay(baseUrl: string): Promise<AgentCard> {
+async function fetchAgentCardWithDisplay(baseUrl: string): Promise<AgentCard | null> {
   const lineVW = W - 2;
   const label = " Test Agent ▶ Willform ";
   const opLabel = " agent.json ";
@@ -406,7 +499,6 @@ async function fetchAgentCardWithDisplay(baseUrl: string): Promise<AgentCard> {
     "  " + chalk.cyan("┌" + label) + chalk.gray("─".repeat(dashes)) + chalk.cyan(opLabel) + "\n",
   );
 
-  const url = `${baseUrl.replace(/\/$/, "")}/.well-known/agent.json`;
   process.stdout.write("  " + chalk.cyan("│") + chalk.gray("  GET /.well-known/agent.json") + "\n");
   process.stdout.write("  " + chalk.cyan("│") + "\n");
   process.stdout.write("  " + chalk.cyan("│") + chalk.bold.yellow("  📤 요청:") + "\n");
@@ -416,9 +508,7 @@ async function fetchAgentCardWithDisplay(baseUrl: string): Promise<AgentCard> {
   const t0 = Date.now();
   let card: AgentCard;
   try {
-    const res = await fetch(url, { signal: AbortSignal.timeout(10_000) });
-    if (!res.ok) throw new Error(`HTTP ${res.status}`);
-    card = (await res.json()) as AgentCard;
+    card = await fetchAgentCard(baseUrl);
   } catch (e) {
     const ms = Date.now() - t0;
     const timing = ` ${ms}ms `;
@@ -427,10 +517,15 @@ async function fetchAgentCardWithDisplay(baseUrl: string): Promise<AgentCard> {
       "  " + chalk.cyan("├") + chalk.red(label.replace("▶", "◀")) + chalk.gray("─".repeat(dashes2)) + chalk.gray(timing) + chalk.red("✗") + "\n",
     );
     process.stdout.write("  " + chalk.cyan("│") + "\n");
-    process.stdout.write("  " + chalk.cyan("│") + chalk.red("  ⚠ Agent card fetch failed") + "\n");
-    process.stdout.write("  " + chalk.cyan("│") + chalk.dim(`    ${e instanceof Error ? e.message : e}`) + "\n");
+    const issues = e instanceof AgentCardError ? e.issues : [];
+    const headline = e instanceof Error ? e.message.split("\n")[0] : String(e);
+    process.stdout.write("  " + chalk.cyan("│") + chalk.red(`  ⚠ ${headline}`) + "\n");
+    for (const issue of issues.slice(0, 8)) {
+      process.stdout.write("  " + chalk.cyan("│") + chalk.dim(`    · ${issue}`) + "\n");
+    }
+    process.stdout.write("  " + chalk.cyan("│") + chalk.yellow("    → Agent card 없이 진행 (operation은 Willy에게 질의)") + "\n");
     process.stdout.write("  " + chalk.cyan("└" + "─".repeat(lineVW - 1)) + "\n");
-    return { name: "unknown", skills: [] };
+    return null;
   }
 
   const ms = Date.now() - t0;
@@ -442,7 +537,13 @@ async function fetchAgentCardWithDisplay(baseUrl: string): Promise<AgentCard> {
 
   process.stdout.write("  " + chalk.cyan("│") + "\n");
   process.stdout.write("  " + chalk.cyan("│") + chalk.bold.green("  📥 응답:") + "\n");
-  const cardJson = JSON.stringify({ name: card.name, skills: `[${card.skills.length} skills]` }, null, 2);
+  const cardJson = JSON.stringify({
+    name: card.name,
+    version: card.version,
+    url: card.url,
+    capabilities: card.capabilities,
+    skills: `[${card.skills.length} skills]`,
+  }, null, 2);
   for (const line of cardJson.split("\n")) {
     process.stdout.write("  " + chalk.cyan("│") + chalk.dim("    " + line) + "\n");
   }
@@ -451,6 +552,7 @@ async function fetchAgentCardWithDisplay(baseUrl: string): Promise<AgentCard> {
   process.stdout.write("  " + chalk.cyan("│") + chalk.bold.blue("  📊 발견된 정보:") + "\n");
   process.stdout.write("  " + chalk.cyan("│") + chalk.dim(`    · Agent명: ${card.name}`) + "\n");
   process.stdout.write("  " + chalk.cyan("│") + chalk.dim(`    · Skill 수: ${card.skills.length}개`) + "\n");
+  process.stdout.write("  " + chalk.cyan("│") + chalk.dim(`    · Streaming: ${card.capabilities.streaming ? "지원 (message/stream)" : "미지원 (message/send)"}`) + "\n");
   if (card.skills.length > 0) {
     const examples = card.skills.slice(0, 3).map(s => s.id).join(", ");
     const more = card.skills.length > 3 ? ` ... 외 ${card.skills.length - 3}개` : "";
@@ -465,8 +567,55 @@ async function fetchAgentCardWithDisplay(baseUrl: string): Promise<AgentCard> {
 
 // ─── Operation Discovery Display ────────────────────────────
 
-async function fetchOperationsWithDisplay(client: A2AClient): Promise<OperationInfo[]> {
+// Shared tail of both discovery boxes: operation list, then close the box
+function printDiscoveredOperations(operations: OperationInfo[], heading: string) {
   const lineVW = W - 2;
+  process.stdout.write("  " + chalk.cyan("│") + "\n");
+  process.stdout.write("  " + chalk.cyan("│") + chalk.bold.blue(`  📊 ${heading}:`) + "\n");
+  process.stdout.write("  " + chalk.cyan("│") + chalk.white(`    ${operations.length}개 operation 발견 및 tool description 생성`) + "\n");
+  process.stdout.write("  " + chalk.cyan("│") + "\n");
+  for (const op of operations.slice(0, 8)) {
+    const params = op.params && op.params !== "-" ? ` [${op.params}]` : "";
+    const opLine = `    · ${op.operation}${params}`;
+    // Wrap if too long
+    if (vw(opLine) > W - 10) {
+      process.stdout.write("  " + chalk.cyan("│") + chalk.gray(`    · ${op.operation}`) + "\n");
+      if (params) {
+        process.stdout.write("  " + chalk.cyan("│") + chalk.dim(`      ${params}`) + "\n");
+      }
+    } else {
+      process.stdout.write("  " + chalk.cyan("│") + chalk.gray(opLine) + "\n");
+    }
+  }
+  if (operations.length > 8) {
+    process.stdout.write("  " + chalk.cyan("│") + chalk.dim(`    · ... 외 ${operations.length - 8}개`) + "\n");
+  }
+
+  process.stdout.write("  " + chalk.cyan("└" + "─".repeat(lineVW - 1)) + "\n");
+  process.stdout.write(chalk.gray("  " + "╌".repeat(W - 4)) + "\n");
+}
+
+async function fetchOperationsWithDisplay(client: A2AClient, card: AgentCard | null): Promise<OperationInfo[]> {
+  const lineVW = W - 2;
+
+  // Structured discovery: skills with inputSchema on the agent card need no round trip
+  const fromCard = card ? operationsFromCard(card) : [];
+  if (fromCard.length > 0) {
+    const label = " Test Agent ▶ Willform ";
+    const opLabel = " skills[] ";
+    const dashes = Math.max(1, lineVW - 1 - vw(label) - vw(opLabel));
+    process.stdout.write("\n");
+    process.stdout.write(
+      "  " + chalk.cyan("┌" + label) + chalk.gray("─".repeat(dashes)) + chalk.cyan(opLabel) + "\n",
+    );
+    process.stdout.write("  " + chalk.cyan("│") + chalk.gray("  agent.json  ·  skills[].inputSchema  ·  no A2A call") + "\n");
+    const withSchema = fromCard.filter((op) => op.inputSchema).length;
+    process.stdout.write("  " + chalk.cyan("│") + "\n");
+    process.stdout.write("  " + chalk.cyan("│") + chalk.dim(`    · JSON Schema 포함: ${withSchema}/${fromCard.length}개`) + "\n");
+    printDiscoveredOperations(fromCard, "Skill 기반 operation");
+    return fromCard;
+  }
+
   const label = " Test Agent ▶ Willy ";
   const opLabel = " ask_willy ";
   const dashes = Math.max(1, lineVW - 1 - vw(label) - vw(opLabel));
@@ -477,7 +626,7 @@ async function fetchOperationsWithDisplay(client: A2AClient): Promise<OperationI
   );
   process.stdout.write("  " + chalk.cyan("│") + chalk.gray("  POST /a2a  ·  x402  ·  agent.willform.ai") + "\n");
 
-  const query = "What operations are available? List all available operations with their names and parameters in table format.";
+  const query = OPERATIONS_QUERY;
   process.stdout.write("  " + chalk.cyan("│") + "\n");
   process.stdout.write("  " + chalk.cyan("│") + chalk.bold.yellow("  📤 질의 메시지:") + "\n");
 
@@ -509,8 +658,6 @@ async function fetchOperationsWithDisplay(client: A2AClient): Promise<OperationI
     "  " + chalk.cyan("├") + chalk.green(label.replace("▶", "◀")) + chalk.gray("─".repeat(dashes2)) + chalk.gray(timing) + chalk.green("✓") + "\n",
   );
 
-  const data = client.extractData(task);
-
   // Show artifacts metadata
   process.stdout.write("  " + chalk.cyan("│") + "\n");
   process.stdout.write("  " + chalk.cyan("│") + chalk.bold.green("  📥 응답 구조:") + "\n");
@@ -529,79 +676,16 @@ async function fetchOperationsWithDisplay(client: A2AClient): Promise<OperationI
     }
   }
 
-  const rawText = task.artifacts?.[0]?.parts?.find((p) => p.kind === "text")?.text;
-
-  // Extract reply for parsing
-  let reply = "";
-  if (rawText) {
-    try {
-      const parsed = JSON.parse(rawText);
-      reply = (parsed?.data?.reply || parsed?.reply || "") as string;
-    } catch {
-      reply = ((data as Record<string, unknown>)?.data as Record<string, unknown>)?.reply as string ?? "";
-    }
-  }
-
-  // Parse operations from markdown table
-  const operations: OperationInfo[] = [];
-  const lines = reply.split("\n");
-  for (const line of lines) {
-    // Skip headers and separators
-    if (line.includes("---") || line.includes("Operation") || line.includes("**")) continue;
-    if (!line.includes("|")) continue;
-
-    // Extract table cells: | operation | params | description |
-    const cells = line.split("|").map(c => c.trim()).filter(c => c.length > 0);
-    if (cells.length < 2) continue;
-
-    // Remove backticks from operation names (e.g., `namespace_create` -> namespace_create)
-    const operation = cells[0].replace(/`/g, "");
-    const params = cells.length > 1 ? cells[1].replace(/`/g, "") : "";
-    const description = cells.length > 2 ? cells[2] : "";
-
-    // Only accept valid operation names (lowercase with underscores)
-    if (/^[a-z][a-z_]*$/.test(operation)) {
-      operations.push({
-        operation,
-        params: params === "{}" || params === "-" ? "" : params,
-        description,
-      });
-    }
-  }
-
-  process.stdout.write("  " + chalk.cyan("│") + "\n");
-  process.stdout.write("  " + chalk.cyan("│") + chalk.bold.blue("  📊 파싱 결과:") + "\n");
-  process.stdout.write("  " + chalk.cyan("│") + chalk.white(`    ${operations.length}개 operation 발견 및 tool description 생성`) + "\n");
-  process.stdout.write("  " + chalk.cyan("│") + "\n");
-  for (const op of operations.slice(0, 8)) {
-    const params = op.params && op.params !== "-" ? ` [${op.params}]` : "";
-    const opLine = `    · ${op.operation}${params}`;
-    // Wrap if too long
-    if (vw(opLine) > W - 10) {
-      process.stdout.write("  " + chalk.cyan("│") + chalk.gray(`    · ${op.operation}`) + "\n");
-      if (params) {
-        process.stdout.write("  " + chalk.cyan("│") + chalk.dim(`      ${params}`) + "\n");
-      }
-    } else {
-      process.stdout.write("  " + chalk.cyan("│") + chalk.gray(opLine) + "\n");
-    }
-  }
-  if (operations.length > 8) {
-    process.stdout.write("  " + chalk.cyan("│") + chalk.dim(`    · ... 외 ${operations.length - 8}개`) + "\n");
-  }
-
-  process.stdout.write("  " + chalk.cyan("└" + "─".repeat(lineVW - 1)) + "\n");
-  process.stdout.write(chalk.gray("  " + "╌".repeat(W - 4)) + "\n");
-
+  // Fallback: parse Willy's markdown table with the shared parser
+  const operations = parseOperationTable(extractReply(client.extractData(task)));
+  printDiscoveredOperations(operations, "파싱 결과");
   return operations;
 }
 
 // ─── x402 Logging Fetch ──────────────────────────────────────
 
-function createX402LoggingClient(baseUrl: string): { walletAddress: string; client: A2AClient } {
-  const privateKey = process.env.WALLET_PRIVATE_KEY as `0x${string}`;
-  const account = privateKeyToAccount(privateKey);
-  const addr = `${account.address.slice(0, 8)}...${account.address.slice(-4)}`;
+async function createX402LoggingClient() {
+  let addr = "";
 
   const interceptFetch = async (
     input: Parameters<typeof fetch>[0],
@@ -618,146 +702,244 @@ function createX402LoggingClient(baseUrl: string): { walletAddress: string; clie
             return false;
           })();
 
+    const step = (line: string) => {
+      x402Steps?.push(line);
+      transcript?.record({ type: "x402", step: stripVTControlCharacters(line).trim() });
+    };
+
     if (!hasPaymentSig) {
-      x402Steps?.push(chalk.gray("    1. →") + chalk.dim(" POST /a2a") + chalk.gray("  (no auth)"));
+      step(chalk.gray("    1. →") + chalk.dim(" POST /a2a") + chalk.gray("  (no auth)"));
     } else {
-      x402Steps?.push(chalk.gray("    4. →") + chalk.dim(" POST /a2a") + chalk.yellow("  + PAYMENT-SIGNATURE"));
+      step(chalk.gray("    4. →") + chalk.dim(" POST /a2a") + chalk.yellow("  + PAYMENT-SIGNATURE"));
     }
 
+    const t = transcript?.now() ?? 0;
+    const t0 = Date.now();
+    const requestBody = input instanceof Request ? await input.clone().text() : typeof init?.body === "string" ? init.body : undefined;
     const res = await fetch(input as RequestInfo, init);
 
     if (res.status === 402) {
-      x402Steps?.push(chalk.gray("    2. ←") + chalk.red(" 402 Payment Required"));
-      x402Steps?.push(chalk.gray("    3. ✍") + chalk.dim(` Signing   from: ${addr}`));
+      step(chalk.gray("    2. ←") + chalk.red(" 402 Payment Required"));
+      step(chalk.gray("    3. ✍") + chalk.dim(` Signing   from: ${addr}`));
     } else if (hasPaymentSig && res.status === 200) {
-      x402Steps?.push(chalk.gray("    5. ←") + chalk.green(" 200 OK"));
+      step(chalk.gray("    5. ←") + chalk.green(" 200 OK"));
+    }
+
+    // Streams are read to the end alongside the client, so the exchange is recorded when the task is done
+    if (transcript) {
+      const recorder = transcript;
+      void res.clone().text().then(
+        (response) =>
+          recorder.record(
+            {
+              type: "a2a",
+              method: input instanceof Request ? input.method : init?.method ?? "GET",
+              url: input instanceof Request ? input.url : String(input),
+              paid: hasPaymentSig,
+              request: parseJson(requestBody),
+              status: res.status,
+              response,
+              ms: Date.now() - t0,
+            },
+            t,
+          ),
+        () => {},
+      );
     }
 
     return res;
   };
 
-  const fetchWithPayment = wrapFetchWithPaymentFromConfig(interceptFetch as typeof fetch, {
-    schemes: [{ network: "eip155:*", client: new ExactEvmScheme(account) }],
-  });
+  // Same wallet and spending policy as every other entry point, with the handshake logged
+  const config = await loadConfig({ fetch: interceptFetch as typeof fetch });
+  addr = `${config.walletAddress.slice(0, 8)}...${config.walletAddress.slice(-4)}`;
 
   return {
-    walletAddress: account.address,
-    client: new A2AClient({ baseUrl, fetchWithPayment }),
+    config,
+    walletAddress: config.walletAddress,
+    client: new A2AClient(config),
   };
 }
 
-// ─── Core ────────────────────────────────────────────────────
+// ─── Approval ─────────────────────────────────────────────────
 
-const config = loadConfig();
-const { walletAddress, client: a2aClient } = createX402LoggingClient(config.baseUrl);
-const anthropic = new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY });
+const RISK_LABEL: Record<OperationRisk, string> = {
+  read: chalk.green("조회"),
+  mutate: chalk.yellow("변경"),
+  destroy: chalk.red.bold("삭제"),
+};
 
-function buildA2ATool(operations: OperationInfo[]): Anthropic.Tool {
-  const opList = operations
-    .map((op) => op.params
-      ? `- ${op.operation}: ${op.description} [params: ${op.params}]`
-      : `- ${op.operation}: ${op.description}`,
-    )
-    .join("\n");
-  return {
-    name: "a2a_call",
-    description: `Call Willy (Willform Deploy Agent) via A2A protocol.\n\nAvailable operations:\n${opList}`,
-    input_schema: {
-      type: "object" as const,
-      properties: {
-        reflection: {
-          type: "string",
-          description: "Korean: what you learned from the PREVIOUS Willy response (omit for first call). e.g. '네임스페이스가 없어서 먼저 생성했습니다'",
-        },
-        narration: {
-          type: "string",
-          description: "Korean: what you are doing now. e.g. '네임스페이스를 먼저 확인할게요'",
-        },
-        reason: {
-          type: "string",
-          description: "Korean: WHY you chose this operation — cite the user request or a prior result.",
-        },
-        operation: { type: "string", description: "Operation name from the list above" },
-        params: {
-          type: "object",
-          description: "Parameters. Reuse IDs from previous results.",
-          additionalProperties: true,
-        },
-      },
-      required: ["narration", "reason", "operation"],
-    },
-  };
+function describeAutoApprove(): string {
+  const risks = [...autoApprove];
+  return risks.length ? `${risks.join(", ")} 자동 승인` : "모든 호출 승인 필요";
 }
 
-// Plan tool: agent declares its steps before executing
-function buildPlanTool(): Anthropic.Tool {
-  return {
-    name: "declare_plan",
-    description: "Call this FIRST before any a2a_call to declare your multi-step execution plan. Shows the user your upfront reasoning.",
-    input_schema: {
-      type: "object" as const,
-      properties: {
-        title: { type: "string", description: "Korean: short title for this plan" },
-        steps: {
-          type: "array",
-          items: { type: "string" },
-          description: "Korean: ordered list of steps you will execute",
-        },
-      },
-      required: ["title", "steps"],
-    },
+// Lines are buffered as readline emits them; null once stdin has ended
+function lineQueue(rl: readline.Interface): () => Promise<string | null> {
+  const lines: string[] = [];
+  const waiting: Array<(line: string | null) => void> = [];
+  let closed = false;
+  rl.on("line", (line) => {
+    const next = waiting.shift();
+    if (next) next(line);
+    else lines.push(line);
+  });
+  rl.on("close", () => {
+    closed = true;
+    for (const next of waiting.splice(0)) next(null);
+  });
+  return () => {
+    if (lines.length) return Promise.resolve(lines.shift()!);
+    if (closed) return Promise.resolve(null);
+    return new Promise((resolve) => waiting.push(resolve));
   };
 }
 
-function buildSystemPrompt(card: AgentCard): string {
-  return `You are Test Agent, an AI agent managing cloud deployments on the Willform platform.
-You call Willy (${card.name}) via the a2a_call tool.
+async function ask(question: string): Promise<string | null> {
+  if (chatInput) {
+    const { rl, nextLine } = chatInput;
+    rl.setPrompt(question);
+    rl.prompt();
+    const answer = await nextLine();
+    rl.setPrompt(CHAT_PROMPT);
+    return answer;
+  }
+  // Nobody to answer when stdin is piped outside chat mode
+  if (!process.stdin.isTTY) return null;
+  const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
+  try {
+    return await new Promise((resolve) => rl.question(question, resolve));
+  } finally {
+    rl.close();
+  }
+}
 
-WORKFLOW — follow this order every time:
-1. Call declare_plan FIRST to outline your execution steps.
-2. Execute each step via a2a_call, chaining results from previous calls.
-3. Reflect on each Willy response before the next call.
-4. Give a concise Korean final reply after all calls complete.
+async function approveCall(input: A2ACallInput, risk: OperationRisk): Promise<ApprovalDecision> {
+  if (autoApprove.has(risk)) {
+    transcript?.record({ type: "approval", operation: input.operation, risk, approved: true, auto: true });
+    return { approved: true };
+  }
 
-Each a2a_call MUST include:
-- "narration": conversational Korean — what you are doing now
-- "reason": Korean — WHY you chose this operation (cite user request or prior result)
-- "reflection": Korean — what you learned from the PREVIOUS Willy response (omit for first call)
+  process.stdout.write("\n");
+  process.stdout.write(`  ${chalk.magenta("⚠")} ${chalk.magenta.bold("승인 필요")}  ${chalk.white(input.operation)}  ${RISK_LABEL[risk]}\n`);
+  process.stdout.write(`    ${chalk.white(`"${input.narration}"`)}\n`);
+  if (input.reason) {
+    for (const line of wrapText(input.reason, W - 10)) process.stdout.write(`    ${chalk.gray("↳ " + line)}\n`);
+  }
+  for (const line of JSON.stringify(input.params ?? {}, null, 2).split("\n")) {
+    process.stdout.write(`    ${chalk.gray(line)}\n`);
+  }
 
-Decision rules:
-- Before creating a namespace, check if it already exists (namespace_list first)
-- If no namespace exists, create one using the appropriate _create operation
-- Always read error messages carefully — they tell you which operation to use
-- Reuse IDs returned by previous calls — never fabricate or guess UUIDs
-- Before creating a deployment, run the preflight check operation first
-- After creating a deployment, always verify its status
-- For diagnostics: fetch logs AND run diagnosis if status is not healthy
-- Final reply: concise Korean summary, use · bullets, no markdown headers`;
+  const answer = await ask(`\n  ${chalk.magenta("승인할까요?")} ${chalk.gray("[y/N 또는 거절 사유]")} `);
+  const decision = answer === null
+    ? { approved: false, reason: "No one is at the terminal to approve this call" }
+    : parseApprovalAnswer(answer);
+  process.stdout.write(
+    decision.approved
+      ? chalk.green("  ✓ 승인했습니다\n")
+      : chalk.red(`  ✗ 거절했습니다${decision.reason ? ` (${decision.reason})` : ""} — Test Agent에 전달합니다\n`),
+  );
+  transcript?.record({ type: "approval", operation: input.operation, risk, ...decision, auto: false });
+  return decision;
+}
+
+function parseJson(text: string | undefined): unknown {
+  if (text === undefined) return undefined;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
 }
 
+// ─── Core ────────────────────────────────────────────────────
+
+// --replay plays a recorded run back before anything that needs the model, the wallet or Willy is set up
+if (REPLAY_PATH) {
+  let recorded: Transcript;
+  try {
+    recorded = loadTranscript(REPLAY_PATH);
+  } catch (e) {
+    console.error(e instanceof Error ? e.message : e);
+    process.exit(2);
+  }
+  const live = Boolean(process.stdout.isTTY);
+  await replayTranscript(recorded, {
+    realtime: live,
+    waitForEnter: live ? (AUTO_MODE ? () => sleep(1500) : readEnter) : undefined,
+  });
+  process.exit(0);
+}
+
+const { config, walletAddress, client: a2aClient } = await createX402LoggingClient();
+
+if (!process.argv.includes("--no-transcript")) {
+  const path = argValues("--transcript").at(-1) ?? transcriptPath(transcriptDirFromEnv());
+  const recorder = new TranscriptRecorder({ argv: process.argv.slice(2), model: MODEL, server: config.baseUrl, wallet: walletAddress });
+  recorder.capture(process.stdout, "stdout");
+  recorder.capture(process.stderr, "stderr");
+  transcript = recorder;
+  // Saved however the run ends, including process.exit and Ctrl-C at a pause
+  process.on("exit", () => {
+    recorder.save(path);
+    transcript = null;
+    process.stderr.write(chalk.gray(`  Transcript: ${path}  (npm run agent -- --replay ${path})\n`));
+  });
+}
+const anthropic = new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY });
+
 async function executeCall(
   reflection: string,
   narration: string,
   reason: string,
   operation: string,
   params: Record<string, unknown>,
-): Promise<string> {
+): Promise<ToolOutcome> {
   x402Steps = [];
   printCallTop(reflection, narration, reason, operation, params);
   await sleep(1200);
-  const stop = startSpinner("Willy 처리 중...");
+  let stop = startSpinner("Willy 처리 중...");
   const t0 = Date.now();
-  try {
-    const task = await a2aClient.send(operation, params);
-    stop();
-    const ms = Date.now() - t0;
 
-    // Print collected x402 handshake steps inside the box
+  // Print collected x402 handshake steps inside the box
+  const flushX402Steps = () => {
+    if (!x402Steps) return;
     for (const step of x402Steps) {
       process.stdout.write("  " + chalk.cyan("│") + step + "\n");
     }
     process.stdout.write("  " + chalk.cyan("│") + "\n");
     x402Steps = null;
+  };
+
+  try {
+    // Task state transitions arrive over message/stream; render each one as it lands
+    let lastState = "";
+    const showState = (state: string) => {
+      if (state === lastState) return;
+      stop();
+      if (!lastState) {
+        flushX402Steps();
+        process.stdout.write("  " + chalk.cyan("│") + chalk.bold.cyan("  📡 Task 상태:") + "\n");
+      }
+      const color = state === "completed" ? chalk.green : state === "failed" || state === "rejected" ? chalk.red : chalk.yellow;
+      process.stdout.write(
+        "  " + chalk.cyan("│") + chalk.gray("    · ") + color(state.padEnd(12)) + chalk.dim(`+${Date.now() - t0}ms`) + "\n",
+      );
+      lastState = state;
+      stop = startSpinner(`Willy 처리 중... (${state})`);
+    };
+    // execute() falls back to polling tasks/get if the stream ends before a terminal state
+    const task = await a2aClient.execute(operation, params, {
+      onEvent: (event) => {
+        const state = eventState(event);
+        if (state) showState(state);
+      },
+      onUpdate: (t) => showState(t.status.state),
+    });
+    stop();
+    const ms = Date.now() - t0;
+    if (lastState) process.stdout.write("  " + chalk.cyan("│") + "\n");
+    flushX402Steps();
 
     const data = a2aClient.extractData(task);
     // Extract Willy's natural language from artifact text
@@ -774,23 +956,36 @@ async function executeCall(
     }
     printCallBottom(data, ms, task.status.state, willyMsg, task);
     await sleep(1200);
-    const result: Record<string, unknown> = { status: task.status.state, data };
-    if (task.metadata?.lowBalanceWarning) result.warning = task.metadata.lowBalanceWarning.message;
-    return JSON.stringify(result, null, 2);
+    return taskOutcome(a2aClient, task);
   } catch (e) {
     stop();
     const ms = Date.now() - t0;
 
-    // Still print x402 steps even on error
-    for (const step of x402Steps ?? []) {
-      process.stdout.write("  " + chalk.cyan("│") + step + "\n");
+    // The policy aborts before signing, so the handshake ends at step 3
+    if (e instanceof PaymentPolicyError) {
+      x402Steps?.push(chalk.gray("    ✋") + chalk.red(` Refused   ${e.request.amount} USDC → ${e.request.payTo.slice(0, 8)}...`));
     }
-    x402Steps = null;
+    // Still print x402 steps even on error
+    flushX402Steps();
 
     const errMsg = e instanceof Error ? e.message : String(e);
     printCallBottom({ error: errMsg }, ms, "failed", "", undefined);
     await sleep(1200);
-    return JSON.stringify({ error: errMsg });
+    if (e instanceof PaymentPolicyError) {
+      const { policy } = config;
+      return {
+        content: JSON.stringify({
+          error: errMsg,
+          paymentRefused: true,
+          payment: e.request,
+          spentThisSession: policy.spentThisSession,
+          spentToday: policy.spentToday,
+          limits: policy.limits,
+        }),
+        isError: true,
+      };
+    }
+    return errorOutcome(e);
   }
 }
 
@@ -799,93 +994,268 @@ async function runTurn(
   tools: Anthropic.Tool[],
   systemPrompt: string,
 ): Promise<void> {
-  while (true) {
-    const stop = startSpinner("Test Agent 추론 중...");
-    const response = await anthropic.messages.create({
-      model: MODEL,
-      max_tokens: 4096,
-      system: systemPrompt,
-      tools,
-      messages,
-    });
-    stop();
-    messages.push({ role: "assistant", content: response.content });
-
-    if (response.stop_reason === "end_turn") {
-      const tb = response.content.find((b) => b.type === "text");
-      if (tb?.type === "text") {
-        hr();
-        showAgentReply(tb.text);
-        hr();
-      }
-      break;
-    }
+  await runAgentTurn(anthropic, messages, {
+    system: systemPrompt,
+    tools,
+    onThinking: () => startSpinner("Test Agent 추론 중..."),
+    onRequest: (params) => transcript?.modelRequest(params.model, params.messages),
+    onResponse: (response, ms) => transcript?.record({ type: "model-response", ms, response }),
+    onPlan: showPlan,
+    approve: approveCall,
+    onReply: (text) => {
+      hr();
+      showAgentReply(text);
+      hr();
+    },
+    call: async ({ reflection, narration, reason, operation, params }) => {
+      const t = transcript?.now() ?? 0;
+      const t0 = Date.now();
+      const result = await executeCall(reflection ?? "", narration, reason ?? "", operation, params ?? {});
+      callLog?.push({ operation, params: params ?? {}, ok: !result.isError });
+      transcript?.record(
+        { type: "tool-call", operation, params: params ?? {}, ms: Date.now() - t0, result: result.content, isError: result.isError ?? false },
+        t,
+      );
+      return result;
+    },
+    // Wait for user before proceeding to next operation
+    afterCall: async () => {
+      await waitForEnter("다음 operation — Enter");
+      process.stdout.write("\n");
+    },
+  });
+}
 
-    if (response.stop_reason === "tool_use") {
-      const results: Anthropic.ToolResultBlockParam[] = [];
-      for (const block of response.content) {
-        if (block.type !== "tool_use") continue;
+// ─── Scenarios ────────────────────────────────────────────────
 
-        if (block.name === "declare_plan") {
-          const { title, steps } = block.input as { title: string; steps: string[] };
-          showPlan(title, steps);
-          results.push({ type: "tool_result", tool_use_id: block.id, content: "Plan acknowledged. Proceed with execution." });
-          continue;
-        }
+// --scenario files in the order given, else every file in --scenario-dir (default scenarios/)
+function loadScenarios(): Scenario[] {
+  const files = argValues("--scenario");
+  if (files.length) return files.flatMap(loadScenarioFile);
+  return loadScenarioDir(argValues("--scenario-dir")[0] ?? DEFAULT_SCENARIO_DIR);
+}
+
+function showSetup(steps: string[]) {
+  process.stdout.write(`  ${chalk.gray("⚙")} ${chalk.gray.bold("Setup")}  ${chalk.gray("(Test Agent 없이 직접 실행)")}\n`);
+  for (const step of steps) process.stdout.write(chalk.gray(`    · ${step}\n`));
+}
+
+function showExpectations(results: ExpectationResult[]) {
+  if (results.length === 0) return;
+  process.stdout.write(`  ${chalk.bold.white("기대 결과")}\n`);
+  for (const r of results) {
+    process.stdout.write(`    ${r.ok ? chalk.green("✓") : chalk.red("✗")} ${chalk.white(r.label)}\n`);
+    if (r.detail) process.stdout.write(chalk.gray(`      ${r.detail}\n`));
+  }
+}
+
+interface ScenarioOutcome {
+  scenario: Scenario;
+  results: ExpectationResult[];
+  error?: string;
+}
+
+function showSummary(outcomes: ScenarioOutcome[]) {
+  hr("═");
+  process.stdout.write(`  ${chalk.bold.white("시나리오 결과")}\n`);
+  hr("═");
+  const titleW = Math.max(...outcomes.map((o) => vw(o.scenario.title)));
+  for (const { scenario, results, error } of outcomes) {
+    const passed = results.filter((r) => r.ok).length;
+    const failed = error || passed < results.length;
+    const mark = failed ? chalk.red("✗") : chalk.green("✓");
+    const score = error ? chalk.red("오류") : results.length ? `${passed}/${results.length}` : chalk.gray("기대 결과 없음");
+    const title = scenario.title + " ".repeat(titleW - vw(scenario.title));
+    process.stdout.write(`  ${mark} ${chalk.white(title)}  ${score}  ${chalk.gray(relative(process.cwd(), scenario.source))}\n`);
+    if (error) process.stdout.write(chalk.red(`      ${error}\n`));
+    for (const r of results.filter((r) => !r.ok)) process.stdout.write(chalk.gray(`      ✗ ${r.label}${r.detail ? ` — ${r.detail}` : ""}\n`));
+  }
+  hr();
+}
 
-        if (block.name === "a2a_call") {
-          const { reflection, narration, reason, operation, params } = block.input as {
-            reflection?: string;
-            narration: string;
-            reason: string;
-            operation: string;
-            params?: Record<string, unknown>;
-          };
-          const result = await executeCall(reflection ?? "", narration, reason ?? "", operation, params ?? {});
-          results.push({ type: "tool_result", tool_use_id: block.id, content: result });
-
-          // Wait for user before proceeding to next operation
-          await waitForEnter("다음 operation — Enter");
-          process.stdout.write("\n");
+async function runScenarios(
+  scenarios: Scenario[],
+  messages: Anthropic.MessageParam[],
+  tools: Anthropic.Tool[],
+  systemPrompt: string,
+): Promise<ScenarioOutcome[]> {
+  const outcomes: ScenarioOutcome[] = [];
+  for (let i = 0; i < scenarios.length; i++) {
+    const s = scenarios[i];
+    showScenarioHeader(i + 1, scenarios.length, s.title);
+    if (s.newConversation) messages.length = 0;
+    const calls: CallRecord[] = [];
+    try {
+      if (s.setup.length) {
+        const steps: string[] = [];
+        const stop = startSpinner("Setup 실행 중...");
+        try {
+          await runSetup(a2aClient, s.setup, (step) => steps.push(step));
+        } finally {
+          stop();
+          showSetup(steps);
         }
       }
-      messages.push({ role: "user", content: results });
+      showUserTurn(s.prompt);
+      await waitForEnter("실행 — Enter");
+      process.stdout.write("\n");
+      await sleep(200);
+      const before = messages.length;
+      messages.push({ role: "user", content: s.prompt });
+      callLog = calls;
+      try {
+        await runTurn(messages, tools, systemPrompt);
+      } catch (e) {
+        // Keep the conversation valid for the next scenario (no tool_use left without its result)
+        messages.length = before;
+        throw e;
+      } finally {
+        callLog = null;
+      }
+      const stop = startSpinner("기대 결과 확인 중...");
+      const results = await evaluateScenario(a2aClient, s, calls).finally(stop);
+      showExpectations(results);
+      outcomes.push({ scenario: s, results });
+    } catch (e) {
+      const error = e instanceof Error ? e.message : String(e);
+      process.stdout.write(chalk.red(`  오류: ${error}\n`));
+      outcomes.push({ scenario: s, results: [], error });
+    }
+    if (i < scenarios.length - 1) {
+      await waitForEnter(`다음: [${i + 2}/${scenarios.length}] ${scenarios[i + 1].title} — Enter`);
+      process.stdout.write("\n");
     }
   }
+  return outcomes;
 }
 
-// ─── Scenarios ────────────────────────────────────────────────
+// ─── Chat ─────────────────────────────────────────────────────
 
-const SCENARIOS: { title: string; prompt: string }[] = [
-  {
-    title: "자연스러운 배포 플로우",
-    prompt: "nginx 간단하게 하나 띄워줘",
-  },
-  {
-    title: "이벤트 대비 스케일 아웃",
-    prompt: "다음 주에 대규모 프로모션 이벤트가 있어서 트래픽이 많이 몰릴 것 같아. 현재 배포된 앱을 스케일 아웃해줘. 완료 후 배포 상태와 리소스 현황도 같이 확인해줘.",
-  },
+const CHAT_COMMANDS: [string, string][] = [
+  ["/reset", "대화 기록 초기화 (새 대화 시작)"],
+  ["/history", "지금까지의 대화 요약"],
+  ["/balance", "크레딧 잔액과 이번 세션 x402 지출"],
+  ["/save [file]", "대화 기록을 JSON으로 저장"],
+  ["/help", "명령어 목록"],
+  ["/exit", "종료 (Ctrl-D)"],
 ];
 
-async function runScenarios(
+function showChatHelp() {
+  for (const [cmd, desc] of CHAT_COMMANDS) {
+    process.stdout.write(`  ${chalk.cyan(cmd.padEnd(14))}${chalk.gray(desc)}\n`);
+  }
+}
+
+function clip(text: string, max = W - 12): string {
+  const flat = text.replace(/\s+/g, " ").trim();
+  return flat.length > max ? flat.slice(0, max - 1) + "…" : flat;
+}
+
+// One line per user request, plan, a2a_call and final reply; tool results are summarized by their status
+function showHistory(messages: Anthropic.MessageParam[]) {
+  if (messages.length === 0) {
+    process.stdout.write(chalk.gray("  (대화 기록 없음)\n"));
+    return;
+  }
+  let turn = 0;
+  for (const m of messages) {
+    if (typeof m.content === "string") {
+      process.stdout.write(`\n  ${chalk.bold.yellow(`#${++turn}`)} ${chalk.white(clip(m.content))}\n`);
+      continue;
+    }
+    for (const block of m.content) {
+      if (block.type === "text" && block.text.trim()) {
+        process.stdout.write(`     ${chalk.blue("◆")} ${chalk.gray(clip(block.text))}\n`);
+      } else if (block.type === "tool_use" && block.name === "declare_plan") {
+        process.stdout.write(`     ${chalk.magenta("◈")} ${chalk.gray(clip(String((block.input as { title?: string }).title ?? "")))}\n`);
+      } else if (block.type === "tool_use") {
+        const { operation, params } = block.input as { operation?: string; params?: Record<string, unknown> };
+        process.stdout.write(`     ${chalk.cyan("→")} ${chalk.cyan(operation ?? block.name)} ${chalk.dim(clip(JSON.stringify(params ?? {}), W - 30))}\n`);
+      } else if (block.type === "tool_result" && block.is_error) {
+        process.stdout.write(`       ${chalk.red("✗ error")}\n`);
+      }
+    }
+  }
+  process.stdout.write("\n");
+}
+
+async function showBalance() {
+  const stop = startSpinner("잔액 조회 중...");
+  try {
+    const { data, task } = await a2aClient.credits.balance();
+    stop();
+    if (task.status.state !== "completed") throw new Error(`credits_balance ${task.status.state}`);
+    const runtime = data.estimatedRuntime ? chalk.gray(`  (${data.estimatedRuntime})`) : "";
+    process.stdout.write(`  ${chalk.green("$")} ${chalk.bold.white(data.balance)}${runtime}\n`);
+  } catch (e) {
+    stop();
+    process.stdout.write(chalk.red(`  잔액 조회 실패: ${e instanceof Error ? e.message : e}\n`));
+  }
+  process.stdout.write(chalk.gray(`  x402 이번 세션: ${config.policy.spentThisSession} USDC  ·  ${config.policy.describe()}\n`));
+}
+
+function saveConversation(messages: Anthropic.MessageParam[], file?: string) {
+  const path = file || `agent-chat-${new Date().toISOString().replace(/[:.]/g, "-").slice(0, 19)}.json`;
+  const record = { savedAt: new Date().toISOString(), model: MODEL, server: config.baseUrl, wallet: walletAddress, messages };
+  writeFileSync(path, JSON.stringify(record, null, 2) + "\n");
+  process.stdout.write(chalk.green(`  ✓ ${messages.length}개 메시지를 ${path}에 저장했습니다\n`));
+}
+
+async function runChat(
   messages: Anthropic.MessageParam[],
   tools: Anthropic.Tool[],
   systemPrompt: string,
 ) {
-  for (let i = 0; i < SCENARIOS.length; i++) {
-    const s = SCENARIOS[i];
-    showScenarioHeader(i + 1, SCENARIOS.length, s.title);
-    showUserTurn(s.prompt);
-    await waitForEnter("실행 — Enter");
-    process.stdout.write("\n");
-    await sleep(200);
-    messages.push({ role: "user", content: s.prompt });
-    await runTurn(messages, tools, systemPrompt);
-    if (i < SCENARIOS.length - 1) {
-      await waitForEnter(`다음: [${i + 2}/${SCENARIOS.length}] ${SCENARIOS[i + 1].title} — Enter`);
+  hr("═");
+  process.stdout.write(`  ${chalk.bold.yellow("Chat")}  ${chalk.white("원하는 작업을 입력하세요. 대화는 턴 사이에 이어집니다.")}\n`);
+  hr("═");
+  showChatHelp();
+
+  const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
+  const nextLine = lineQueue(rl);
+  chatInput = { rl, nextLine };
+  rl.setPrompt(CHAT_PROMPT);
+  // Ctrl-C clears the line like a shell; Ctrl-D (or /exit) ends the chat
+  rl.on("SIGINT", () => {
+    rl.write(null, { ctrl: true, name: "u" });
+    process.stdout.write(chalk.gray("\n  (/exit 또는 Ctrl-D로 종료)"));
+    rl.prompt();
+  });
+
+  // Lines typed (or piped) while a turn runs are queued, not lost
+  rl.prompt();
+  for (let line = await nextLine(); line !== null; line = await nextLine()) {
+    const input = line.trim();
+    if (input.startsWith("/")) {
+      const [command, ...rest] = input.split(/\s+/);
+      if (command === "/exit" || command === "/quit") break;
+      else if (command === "/reset") {
+        messages.length = 0;
+        process.stdout.write(chalk.green("  ✓ 대화 기록을 초기화했습니다\n"));
+      } else if (command === "/history") showHistory(messages);
+      else if (command === "/balance") await showBalance();
+      else if (command === "/save") saveConversation(messages, rest.join(" "));
+      else if (command === "/help") showChatHelp();
+      else process.stdout.write(chalk.yellow(`  알 수 없는 명령어: ${command} (/help)\n`));
+    } else if (input) {
       process.stdout.write("\n");
+      const before = messages.length;
+      messages.push({ role: "user", content: input });
+      try {
+        await runTurn(messages, tools, systemPrompt);
+      } catch (e) {
+        // A turn cut off mid-tool-use would leave a tool_use without its result, which the API rejects next time
+        messages.length = before;
+        process.stdout.write(chalk.red(`  오류: ${e instanceof Error ? e.message : e}\n`));
+        process.stdout.write(chalk.gray("  이번 요청은 기록에서 제외했습니다. 다시 시도해 주세요.\n"));
+      }
     }
+    rl.prompt();
   }
+
+  chatInput = null;
+  rl.close();
+  process.stdout.write(chalk.gray(`\n  종료 — x402 이번 세션: ${config.policy.spentThisSession} USDC\n`));
 }
 
 // ─── Main ────────────────────────────────────────────────────
@@ -896,6 +1266,18 @@ async function main() {
     process.exit(1);
   }
 
+  // Load scenarios before any network traffic so a typo in a file fails fast
+  let scenarios: Scenario[] = [];
+  if (!CHAT_MODE) {
+    try {
+      scenarios = loadScenarios();
+    } catch (e) {
+      if (!(e instanceof ScenarioError)) throw e;
+      console.error(e.message);
+      process.exit(2);
+    }
+  }
+
   console.clear();
   const inner = W - 2;
 
@@ -915,12 +1297,16 @@ async function main() {
 
   // Show agent card discovery as detailed exchange
   const card = await fetchAgentCardWithDisplay(config.baseUrl);
+  if (card) {
+    a2aClient.useAgentCard(card);
+    transcript?.record({ type: "agent-card", card });
+  }
   await waitForEnter("다음 단계: Operation 발견 — Enter");
   process.stdout.write("\n");
 
   // Show operation discovery as A2A exchange
-  const operations = await fetchOperationsWithDisplay(a2aClient);
-  await waitForEnter("다음 단계: 시나리오 시작 — Enter");
+  const operations = await fetchOperationsWithDisplay(a2aClient, card);
+  await waitForEnter(CHAT_MODE ? "다음 단계: 대화 시작 — Enter" : "다음 단계: 시나리오 시작 — Enter");
 
   // Resume banner for summary and server info
   process.stdout.write("\n");
@@ -935,6 +1321,9 @@ async function main() {
     ["서버",       config.baseUrl],
     ["프로토콜",   "JSON-RPC 2.0 over HTTPS"],
     ["인증",       "x402 Payment (USDC on-chain)"],
+    ["서명",       config.signer],
+    ["예산",       config.policy.describe()],
+    ["승인",       describeAutoApprove()],
     ["모델",       MODEL],
   ];
   process.stdout.write(chalk.cyan("├" + "─".repeat(inner) + "┤") + "\n");
@@ -964,12 +1353,16 @@ async function main() {
   const tools = [buildA2ATool(operations), buildPlanTool()];
   const systemPrompt = buildSystemPrompt(card);
   const messages: Anthropic.MessageParam[] = [];
+  transcript?.setPrompt(systemPrompt, tools);
 
-  try {
-    await runScenarios(messages, tools, systemPrompt);
-  } catch (e) {
-    console.error(chalk.red(`오류: ${e instanceof Error ? e.message : e}`));
+  if (CHAT_MODE) {
+    await runChat(messages, tools, systemPrompt);
+    return;
   }
+
+  const outcomes = await runScenarios(scenarios, messages, tools, systemPrompt);
+  showSummary(outcomes);
+  if (outcomes.some((o) => o.error || o.results.some((r) => !r.ok))) process.exitCode = 1;
 }
 
 main().catch(console.error);
@@ -1,58 +1,647 @@
 #!/usr/bin/env tsx
-// Single-shot A2A CLI — send one operation from the command line
+// a2a — command-line client for Willform operations over A2A
 //
 // Usage:
-//   npx tsx src/cli.ts <operation> [JSON params]
+//   a2a <group> <verb> [id] [--param value ...] [global flags]
+//   a2a <operation> [JSON params]                      (original single-shot form)
+//   a2a ledger [--by operation|day|namespace] [--since YYYY-MM-DD] [--csv [file]]
+//   a2a logs <deploymentId> [-f] [--since 15m] [--tail N] [--grep RE] [--interval SECONDS]
+//   a2a top --namespace <id|name> [--interval SECONDS] [--once]
+//   a2a session list | show <name> | clear <name>|--all
+//   a2a listen [--port 8787] [--host 127.0.0.1] [--token T] [--forward URL]
+//   a2a push get <taskId> | set <taskId> --url URL [--token T]
+//   a2a diff -f stack.yaml [--no-prune]
+//   a2a apply -f stack.yaml [--dry-run] [-y] [--no-prune]
+//   a2a completion bash|zsh|fish
 //
 // Examples:
-//   npx tsx src/cli.ts credits_balance
-//   npx tsx src/cli.ts chart_list
-//   npx tsx src/cli.ts namespace_create '{"name":"demo","allocatedCores":2}'
-//   npx tsx src/cli.ts deploy_status '{"deploymentId":"abc-123"}'
+//   a2a credits balance
+//   a2a ns list -o table
+//   a2a ns create --name demo --allocated-cores 2
+//   a2a deploy create --namespace <uuid> --name web --image nginx:alpine --port 80 --chart web
+//   a2a deploy scale <deploymentId> --replicas 3 --wait --timeout 120
+//   a2a deploy status <deploymentId> -o yaml
+//   a2a deploy update-env <deploymentId> --env LOG_LEVEL=debug --env PORT=8080
+//   a2a namespace_create '{"name":"demo","allocatedCores":2}'
+//   a2a --session ops ns list      (later calls with --session ops continue the same conversation)
+//   a2a deploy restart <deploymentId> --notify http://127.0.0.1:8787 --notify-token T   (updates reach `a2a listen`)
+//
+// Global flags:
+//   -o, --output json|yaml|table   -q, --quiet   --context-id <id>   --session <name>   --params <json>   -h, --help
+//   --notify <url>   --notify-token <token>   (or WILLFORM_PUSH_URL / WILLFORM_PUSH_TOKEN)
+//
+// Rollout flags (deploy create|scale|restart):
+//   --wait   poll until the desired replicas are ready; print diagnosis and logs if they never are
+//   --timeout <seconds>   how long --wait waits (default 180)
+//
+// Exit codes:
+//   0 ok · 1 unexpected error · 2 usage error · 3 transport/payment error · 4 A2A (JSON-RPC) error · 5 task failed
+//   6 rollout failed or timed out (--wait)
 
-import { A2AClient } from "./lib/a2a-client.js";
+import { writeFileSync } from "fs";
+import * as readline from "readline";
+import chalk from "chalk";
+import { A2AClient, eventState, type PushNotificationConfig } from "./lib/a2a-client.js";
 import { loadConfig } from "./lib/config.js";
-import { fetchOperations } from "./lib/agent-card.js";
+import { AgentCardError, discoverOperations, fetchAgentCard, operationsFromCard, type AgentCard } from "./lib/agent-card.js";
+import { JsonRpcError, TaskFailedError, TaskTimeoutError, TransportError, errorHint, taskStatusMessage } from "./lib/errors.js";
+import {
+  DEFAULT_LEDGER_PATH,
+  PaymentLedger,
+  ledgerPathFromEnv,
+  ledgerToCsv,
+  ledgerTotal,
+  summarizeLedger,
+  type LedgerGroup,
+} from "./lib/ledger.js";
+import { PaymentPolicyError } from "./lib/payment-policy.js";
+import { ManifestError, loadManifest } from "./lib/manifest.js";
+import { applyPlan, describeAction, planManifest } from "./lib/reconcile.js";
+import { parseSince, tailLogs, type LogLine } from "./lib/log-tail.js";
+import { RolloutError, formatRolloutReport, replicaCounts, waitForRollout } from "./lib/rollout.js";
+import { SessionStore, sessionDirFromEnv } from "./lib/session.js";
+import { TaskCache, generatePushToken, pushConfigFromEnv, startPushReceiver, taskDirFromEnv, type TaskUpdate } from "./lib/push.js";
+import { burnRate, pollNamespace, renderTop, resolveNamespace, type TopSnapshot } from "./lib/top.js";
+import { UsageError, flagSet, flagValue, parseArgs, type ParsedArgs } from "./cli/args.js";
+import {
+  GROUP_ALIASES,
+  booleanFlags,
+  buildCommands,
+  buildParams,
+  commandUsage,
+  findCommand,
+  operationFromWords,
+  untypedCommand,
+  type CliCommand,
+} from "./cli/commands.js";
+import { completionScript } from "./cli/completion.js";
+import { parseFormat, render, renderValue, table } from "./cli/output.js";
+
+const EXIT = {
+  ok: 0,
+  internal: 1,
+  usage: 2,
+  transport: 3,
+  a2a: 4,
+  taskFailed: 5,
+  rolloutFailed: 6,
+} as const;
+
+const GLOBAL_FLAGS = ["output", "quiet", "context-id", "session", "params", "notify", "notify-token", "help"];
+const GLOBAL_BOOLEANS = new Set(["quiet", "help"]);
+const BUILTIN_BOOLEANS = new Set(["dry-run", "yes", "prune", "follow", "once", "wait"]);
+// Operations that start a rollout, and the flags `--wait` adds to them
+const ROLLOUT_OPERATIONS = new Set(["deploy_create", "deploy_scale", "deploy_restart"]);
+const ROLLOUT_FLAGS = ["wait", "timeout"];
+const SHORT_FLAGS = { o: "output", q: "quiet", h: "help", f: "filename", y: "yes" };
+// `logs -f` follows, as in kubectl and tail
+const LOGS_SHORT_FLAGS = { ...SHORT_FLAGS, f: "follow" };
+const BUILTINS = ["apply", "diff", "logs", "top", "session", "listen", "push", "ledger", "completion", "help"];
+
+const FAILED_STATES = new Set(["failed", "rejected", "canceled"]);
+
+// ─── Error classification ────────────────────────────────────
+
+function exitCodeFor(err: unknown): number {
+  if (err instanceof UsageError || err instanceof ManifestError) return EXIT.usage;
+  if (err instanceof PaymentPolicyError || err instanceof TransportError || err instanceof TaskTimeoutError) return EXIT.transport;
+  if (err instanceof JsonRpcError) return EXIT.a2a;
+  if (err instanceof TaskFailedError) return EXIT.taskFailed;
+  if (err instanceof RolloutError) return EXIT.rolloutFailed;
+  // The agent card is fetched with plain fetch(), outside the client's error mapping
+  if (err instanceof AgentCardError) return EXIT.transport;
+  return EXIT.internal;
+}
+
+// Set by loadCliConfig; fail() waits for its pending entries
+let ledger: PaymentLedger | null = null;
+
+async function fail(err: unknown): Promise<never> {
+  console.error(`Error: ${err instanceof Error ? err.message : err}`);
+  const hint = errorHint(err);
+  if (hint) console.error(`Hint: ${hint}`);
+  if (err instanceof RolloutError) console.error(`\n${formatRolloutReport(err.report)}`);
+  // A paid call that failed is still a payment; its ledger line must land before the exit
+  await ledger?.flush();
+  process.exit(exitCodeFor(err));
+}
+
+// Retries are reported on stderr so a slow command does not look hung
+async function loadCliConfig(args: ParsedArgs) {
+  const quiet = flagSet(args, "quiet");
+  const config = await loadConfig({
+    onRetry: ({ attempt, delayMs, reason }) => !quiet && console.error(`↻ ${reason}; retry ${attempt} in ${(delayMs / 1000).toFixed(1)}s`),
+  });
+  ledger = config.ledger;
+  return config;
+}
+
+// ─── Built-in commands ───────────────────────────────────────
+
+function runLedger(args: ParsedArgs) {
+  const ledger = new PaymentLedger(ledgerPathFromEnv() ?? DEFAULT_LEDGER_PATH);
+  const since = flagValue(args, "since");
+  const entries = ledger.read().filter((e) => !since || e.timestamp.slice(0, 10) >= since);
+
+  if (flagSet(args, "csv")) {
+    const csv = args.positionals[0];
+    if (csv) {
+      writeFileSync(csv, ledgerToCsv(entries));
+      console.error(`Wrote ${entries.length} payments to ${csv}`);
+    } else {
+      process.stdout.write(ledgerToCsv(entries));
+    }
+    return;
+  }
+
+  console.log(`Ledger: ${ledger.path}`);
+  const unsettled = entries.filter((e) => e.settled === false).length;
+  console.log(
+    `Payments: ${entries.length}${unsettled ? ` (${unsettled} unsettled)` : ""}  Total: ${ledgerTotal(entries)} USDC${since ? `  (since ${since})` : ""}`,
+  );
+  if (entries.length === 0) return;
+
+  const by = flagValue(args, "by") as LedgerGroup | undefined;
+  if (by && !["operation", "day", "namespace"].includes(by)) {
+    throw new UsageError(`Unknown grouping "${by}" (use operation, day or namespace)`);
+  }
+  for (const group of by ? [by] : (["operation", "day", "namespace"] as LedgerGroup[])) {
+    const rows = summarizeLedger(entries, group).map((r) => ({ [group]: r.key, calls: r.count, usdc: r.total }));
+    console.log(`\nBy ${group}\n${table(rows)}`);
+  }
+}
+
+function runSession(args: ParsedArgs) {
+  const store = new SessionStore(sessionDirFromEnv());
+  const [verb = "list", name] = args.positionals;
+  const format = parseFormat(flagValue(args, "output") ?? "table");
+
+  if (verb === "list") {
+    const rows = store.list().map((s) => ({ name: s.name, contextId: s.contextId, turns: s.turns, last: s.lastOperation, updated: s.updatedAt, server: s.baseUrl }));
+    console.log(format === "table" && rows.length === 0 ? `No saved sessions in ${store.dir}` : renderValue(rows, format));
+    return;
+  }
+  if (verb === "show") {
+    if (!name) throw new UsageError("Usage: a2a session show <name>");
+    const record = store.load(name);
+    if (!record) throw new UsageError(`No session named "${name}"`);
+    console.log(renderValue(record, format));
+    return;
+  }
+  if (verb === "clear") {
+    if (flagSet(args, "all")) {
+      console.error(`Cleared ${store.clearAll()} session(s)`);
+      return;
+    }
+    if (!name) throw new UsageError("Usage: a2a session clear <name> | --all");
+    if (!store.clear(name)) throw new UsageError(`No session named "${name}"`);
+    console.error(`Cleared session ${name}`);
+    return;
+  }
+  throw new UsageError(`Unknown session command "${verb}" (use list, show or clear)`);
+}
+
+// Receives Willy's task notifications until Ctrl-C; the wallet is not needed, only the token shared with --notify-token
+async function runListen(args: ParsedArgs) {
+  const port = Number(flagValue(args, "port") ?? 8787);
+  if (!Number.isInteger(port) || port < 0 || port > 65535) throw new UsageError(`--port expects a port number, got "${flagValue(args, "port")}"`);
+  const forward = flagValue(args, "forward");
+  if (forward && !/^https?:\/\//.test(forward)) throw new UsageError(`--forward expects an http(s) URL, got "${forward}"`);
+  const json = flagValue(args, "output") === "json";
+  const quiet = flagSet(args, "quiet");
+  const generated = !(flagValue(args, "token") ?? process.env.WILLFORM_PUSH_TOKEN);
+  const token = flagValue(args, "token") ?? process.env.WILLFORM_PUSH_TOKEN ?? generatePushToken();
+  const cache = new TaskCache(taskDirFromEnv());
+
+  const print = ({ task, previous, changed }: TaskUpdate) => {
+    if (!changed) return;
+    const message = taskStatusMessage(task);
+    if (json) {
+      console.log(JSON.stringify({ taskId: task.id, contextId: task.contextId, state: task.status.state, previous, timestamp: task.status.timestamp, message }));
+      return;
+    }
+    const state = FAILED_STATES.has(task.status.state) ? chalk.red(task.status.state) : task.status.state === "completed" ? chalk.green(task.status.state) : chalk.yellow(task.status.state);
+    const time = chalk.gray(new Date(task.status.timestamp).toTimeString().slice(0, 8));
+    console.log(`${time}  ${task.id}  ${previous ? `${previous} → ` : ""}${state}${message ? chalk.gray(`  ${message}`) : ""}`);
+  };
+
+  const receiver = await startPushReceiver({
+    port,
+    host: flagValue(args, "host"),
+    token,
+    cache,
+    forward,
+    onUpdate: print,
+    onRejected: (reason, status) => !quiet && console.error(chalk.yellow(`✗ ${status} ${reason}`)),
+    onForwardError: (err) => console.error(chalk.red(`✗ ${err.message}`)),
+  });
+  if (!quiet) {
+    console.error(`Listening for task notifications on ${receiver.url} (cache: ${cache.dir})`);
+    if (generated) console.error(`Token: ${token}`);
+    console.error(`Register with: --notify ${receiver.url} --notify-token ${generated ? token : "<token>"}`);
+    if (forward) console.error(`Forwarding changes to ${forward}`);
+  }
+  await new Promise<void>((resolve) => process.once("SIGINT", resolve));
+  await receiver.close();
+}
+
+// Registers or shows the push notification config of a task that is already running
+async function runPush(args: ParsedArgs, card: AgentCard | null) {
+  const [, verb, taskId] = args.positionals;
+  if ((verb !== "get" && verb !== "set") || !taskId) throw new UsageError("Usage: a2a push get <taskId> | set <taskId> --url URL [--token T]");
+  const client = new A2AClient(await loadCliConfig(args));
+  if (card) client.useAgentCard(card);
+  const format = parseFormat(flagValue(args, "output") ?? "yaml");
+
+  if (verb === "get") {
+    console.log(renderValue(await client.getPushNotification(taskId), format));
+    return;
+  }
+  const url = flagValue(args, "url");
+  if (!url) throw new UsageError("Usage: a2a push set <taskId> --url URL [--token T]");
+  const token = flagValue(args, "token") ?? process.env.WILLFORM_PUSH_TOKEN;
+  console.log(renderValue(await client.setPushNotification(taskId, { url, token }), format));
+}
+
+// --notify / --notify-token, falling back to WILLFORM_PUSH_URL / WILLFORM_PUSH_TOKEN
+function pushNotificationFlags(args: ParsedArgs): PushNotificationConfig | undefined {
+  const url = flagValue(args, "notify");
+  if (!url) return pushConfigFromEnv();
+  if (!/^https?:\/\//.test(url)) throw new UsageError(`--notify expects an http(s) URL, got "${url}"`);
+  return { url, token: flagValue(args, "notify-token") ?? process.env.WILLFORM_PUSH_TOKEN };
+}
+
+function confirm(question: string): Promise<boolean> {
+  const rl = readline.createInterface({ input: process.stdin, output: process.stderr });
+  return new Promise((resolve) =>
+    rl.question(`${question} `, (answer) => {
+      rl.close();
+      resolve(answer.trim().toLowerCase() === "y");
+    }),
+  );
+}
+
+// diff: show what apply would do; apply: show it, confirm on a terminal, then converge
+async function runManifest(mode: "apply" | "diff", args: ParsedArgs, card: AgentCard | null) {
+  const file = flagValue(args, "filename") ?? args.positionals[1];
+  if (!file) throw new UsageError(`Usage: a2a ${mode} -f <manifest.yaml|json>`);
+  const manifest = loadManifest(file);
+  const format = parseFormat(flagValue(args, "output") ?? "table");
+  const quiet = flagSet(args, "quiet");
+
+  const client = new A2AClient(await loadCliConfig(args));
+  if (card) client.useAgentCard(card);
+
+  if (!quiet) console.error(`Reading live state for ${manifest.namespaces.map((ns) => ns.name).join(", ")}...`);
+  const plan = await planManifest(client, manifest, { prune: flagValue(args, "prune") !== "false" });
+
+  if (format !== "table") {
+    console.log(renderValue(plan, format));
+  } else {
+    for (const w of plan.warnings) console.log(`! ${w}`);
+    for (const u of plan.unchanged) console.log(`= deployment ${u}`);
+    for (const a of plan.actions) console.log(describeAction(a));
+    console.log(plan.actions.length ? `\n${plan.actions.length} change(s)` : "\nNo changes — live state matches the manifest");
+  }
+  if (mode === "diff" || plan.actions.length === 0 || flagSet(args, "dry-run")) return;
+
+  if (!flagSet(args, "yes") && process.stdin.isTTY && !(await confirm(`Apply ${plan.actions.length} change(s)? (y/N)`))) {
+    console.error("Aborted");
+    return;
+  }
+  await applyPlan(client, plan, { onAction: (a) => !quiet && console.error(`→ ${describeAction(a)}`) });
+  if (!quiet) console.error("Applied");
+}
+
+const POD_COLORS = [chalk.cyan, chalk.magenta, chalk.yellow, chalk.green, chalk.blue, chalk.red];
 
-const config = loadConfig();
-const client = new A2AClient(config);
+function podColor(pod: string) {
+  let hash = 0;
+  for (const ch of pod) hash = (hash * 31 + ch.charCodeAt(0)) >>> 0;
+  return POD_COLORS[hash % POD_COLORS.length];
+}
+
+async function runLogs(args: ParsedArgs, card: AgentCard | null) {
+  const deploymentId = args.positionals[1];
+  if (!deploymentId) throw new UsageError("Usage: a2a logs <deploymentId> [-f] [--since 15m] [--tail N] [--grep RE]");
+  const number = (name: string, fallback: number) => {
+    const raw = flagValue(args, name);
+    if (raw === undefined) return fallback;
+    const n = Number(raw);
+    if (!Number.isFinite(n) || n <= 0) throw new UsageError(`--${name} expects a positive number, got "${raw}"`);
+    return n;
+  };
+  const tail = number("tail", 100);
+  const intervalMs = number("interval", 2) * 1000;
+  let since: string | undefined;
+  let grep: RegExp | undefined;
+  try {
+    const sinceFlag = flagValue(args, "since");
+    since = sinceFlag ? parseSince(sinceFlag) : undefined;
+    const pattern = flagValue(args, "grep");
+    grep = pattern ? new RegExp(pattern, "i") : undefined;
+  } catch (err) {
+    throw new UsageError(err instanceof Error ? err.message : String(err));
+  }
+  const json = flagValue(args, "output") === "json";
+
+  const client = new A2AClient(await loadCliConfig(args));
+  if (card) client.useAgentCard(card);
+
+  // Ctrl-C ends the follow loop after the in-flight poll instead of killing the process mid-line
+  const stop = new AbortController();
+  process.once("SIGINT", () => stop.abort());
+  // `a2a logs ... | head` closes the pipe early; that is a normal way to stop reading
+  process.stdout.on("error", (err: NodeJS.ErrnoException) => {
+    if (err.code !== "EPIPE") throw err;
+    stop.abort();
+    process.exit(EXIT.ok);
+  });
 
-const [operation, paramsJson] = process.argv.slice(2);
+  const print = (line: LogLine) => {
+    if (json) return console.log(JSON.stringify(line));
+    const prefix = line.pod ? podColor(line.pod)(`[${line.pod}] `) : "";
+    const time = line.timestamp ? chalk.gray(`${line.timestamp} `) : "";
+    console.log(`${time}${prefix}${line.message}`);
+  };
+  await tailLogs(client, {
+    deploymentId,
+    since,
+    tail,
+    grep,
+    follow: flagSet(args, "follow"),
+    intervalMs,
+    signal: stop.signal,
+    onLine: print,
+  });
+}
+
+// Full-screen dashboard on a terminal; a single frame otherwise (or with --once)
+async function runTop(args: ParsedArgs, card: AgentCard | null) {
+  const ref = flagValue(args, "namespace") ?? args.positionals[1];
+  if (!ref) throw new UsageError("Usage: a2a top --namespace <id|name> [--interval SECONDS] [--once]");
+  const seconds = Number(flagValue(args, "interval") ?? 5);
+  if (!Number.isFinite(seconds) || seconds <= 0) throw new UsageError(`--interval expects a positive number of seconds`);
+  const intervalMs = seconds * 1000;
+
+  const config = await loadCliConfig(args);
+  const client = new A2AClient(config);
+  if (card) client.useAgentCard(card);
+  const namespace = await resolveNamespace(client, ref);
+
+  const frame = (latest: TopSnapshot, first: TopSnapshot, error?: string) =>
+    renderTop(latest, {
+      width: process.stdout.columns || 100,
+      height: process.stdout.rows || 30,
+      intervalMs,
+      burn: burnRate(first, latest),
+      spent: config.policy.spentThisSession,
+      error,
+    });
 
-if (!operation || operation === "--help") {
-  console.log("Usage: npx tsx src/cli.ts <operation> [JSON params]");
-  console.log("\nFetching available operations from server...\n");
+  const first = await pollNamespace(client, namespace);
+  if (flagSet(args, "once") || !process.stdout.isTTY) {
+    console.log(frame(first, first));
+    return;
+  }
+
+  let stopped = false;
+  let wake = () => {};
+  const stop = () => {
+    stopped = true;
+    wake();
+  };
+  process.stdout.write("\x1b[?1049h\x1b[?25l");
+  const restore = () => process.stdout.write("\x1b[?25h\x1b[?1049l");
+  process.once("exit", restore);
+  process.once("SIGINT", stop);
+  if (process.stdin.isTTY) {
+    process.stdin.setRawMode(true);
+    process.stdin.resume();
+    process.stdin.on("data", (key) => {
+      const k = key.toString();
+      if (k === "q" || k === "\x03") stop();
+      else if (k === " " || k === "r") wake();
+    });
+  }
 
+  let latest = first;
+  let error: string | undefined;
   try {
-    const operations = await fetchOperations(client);
-    console.log("Operations:");
-    const maxOpLen = Math.max(...operations.map((op) => op.operation.length));
-    for (const op of operations) {
-      const opPadded = op.operation.padEnd(maxOpLen + 2);
-      const paramsStr = op.params ? `[${op.params}]` : "";
-      console.log(`  ${opPadded}${op.description} ${paramsStr}`);
+    while (!stopped) {
+      process.stdout.write(`\x1b[H\x1b[2J${frame(latest, first, error)}`);
+      await new Promise<void>((resolve) => {
+        const timer = setTimeout(resolve, intervalMs);
+        wake = () => {
+          clearTimeout(timer);
+          resolve();
+        };
+      });
+      if (stopped) break;
+      try {
+        latest = await pollNamespace(client, namespace);
+        error = undefined;
+      } catch (err) {
+        // Keep the dashboard up through a flaky poll; the header says the data is stale
+        error = err instanceof Error ? err.message : String(err);
+      }
     }
+  } finally {
+    if (process.stdin.isTTY) process.stdin.setRawMode(false);
+    process.stdin.pause();
+    restore();
+    process.removeListener("exit", restore);
+  }
+}
+
+function printOverview(commands: CliCommand[]) {
+  console.log("Usage: a2a <group> <verb> [id] [--param value ...] [-o json|yaml|table] [-q] [--context-id ID] [--session NAME]");
+  console.log("       a2a <operation> [JSON params]");
+  console.log("       a2a logs <deploymentId> [-f] | top --namespace <id> | apply|diff -f <manifest> | session | ledger | completion <shell>");
+  console.log("       a2a listen [--port 8787] | push get|set <taskId>\n");
+  const groups = [...new Set(commands.map((c) => c.group))];
+  for (const group of groups) {
+    const aliases = Object.entries(GROUP_ALIASES).filter(([, g]) => g === group).map(([a]) => a);
+    console.log(`${group}${aliases.length ? ` (${aliases.join(", ")})` : ""}`);
+    const cmds = commands.filter((c) => c.group === group);
+    const labels = cmds.map((c) => (c.positional ? `${c.verb} <${c.positional}>` : c.verb));
+    const width = Math.max(...labels.map((l) => l.length)) + 2;
+    cmds.forEach((c, i) => console.log(`  ${labels[i].padEnd(width)}${c.description}`));
+  }
+  console.log("\nRun `a2a <group> <verb> --help` for flags.");
+}
+
+// ─── Main ────────────────────────────────────────────────────
+
+async function loadCard(baseUrl: string, quiet: boolean): Promise<AgentCard | null> {
+  try {
+    return await fetchAgentCard(baseUrl);
   } catch (err) {
-    console.error(`Error fetching operations: ${err instanceof Error ? err.message : err}`);
+    if (!quiet) console.error(`⚠ Agent card unavailable (${err instanceof Error ? err.message : err}); flags are not type-checked`);
+    return null;
   }
-  process.exit(0);
 }
 
-const params = paramsJson ? JSON.parse(paramsJson) : {};
+async function main(argv: string[]) {
+  // The ledger and saved sessions are local; don't touch the network or the wallet for them
+  if (argv[0] === "ledger") {
+    runLedger(parseArgs(argv.slice(1), { isBoolean: (name) => name === "csv" }));
+    return;
+  }
+  if (argv[0] === "session") {
+    runSession(parseArgs(argv.slice(1), { isBoolean: (name) => name === "all" || GLOBAL_BOOLEANS.has(name), short: SHORT_FLAGS }));
+    return;
+  }
+  if (argv[0] === "listen") {
+    await runListen(parseArgs(argv.slice(1), { isBoolean: (name) => GLOBAL_BOOLEANS.has(name), short: SHORT_FLAGS }));
+    return;
+  }
 
-try {
-  const task = await client.send(operation, params);
-  const data = client.extractData(task);
+  const quietHint = argv.includes("-q") || argv.includes("--quiet");
+  const baseUrl = process.env.WILLFORM_A2A_URL ?? "http://localhost:3000";
+  const card = await loadCard(baseUrl, quietHint);
+  const commands = card ? buildCommands(operationsFromCard(card)) : [];
 
-  console.log(JSON.stringify({
-    status: task.status.state,
-    data,
-  }, null, 2));
+  const bools = booleanFlags(commands);
+  const args = parseArgs(argv, {
+    isBoolean: (name) => GLOBAL_BOOLEANS.has(name) || BUILTIN_BOOLEANS.has(name) || bools.has(name),
+    short: argv[0] === "logs" ? LOGS_SHORT_FLAGS : SHORT_FLAGS,
+  });
+  const quiet = flagSet(args, "quiet");
+  const help = flagSet(args, "help");
+  const [first] = args.positionals;
 
-  if (task.metadata?.lowBalanceWarning) {
+  if (first === "logs") {
+    await runLogs(args, card);
+    return;
+  }
+
+  if (first === "top") {
+    await runTop(args, card);
+    return;
+  }
+
+  if (first === "push") {
+    await runPush(args, card);
+    return;
+  }
+
+  if (first === "apply" || first === "diff") {
+    await runManifest(first, args, card);
+    return;
+  }
+
+  if (first === "completion") {
+    const shell = args.positionals[1];
+    if (!shell) throw new UsageError("Usage: a2a completion bash|zsh|fish");
+    if (commands.length === 0) throw new UsageError("Completion needs the agent card's skills; is the server reachable?");
+    const globalFlags = [...GLOBAL_FLAGS.map((f) => `--${f}`), "-o", "-q", "-h"];
+    process.stdout.write(completionScript(shell, { commands, builtins: BUILTINS, globalFlags, aliases: GROUP_ALIASES }));
+    return;
+  }
+
+  // Without a card the config (wallet) is needed to ask Willy for the operation table
+  if (!first || first === "help" || (help && args.positionals.length < 2 && !first.includes("_"))) {
+    if (commands.length > 0) {
+      const group = first && first !== "help" ? (GROUP_ALIASES[first] ?? first) : null;
+      printOverview(group ? commands.filter((c) => c.group === group) : commands);
+      return;
+    }
+    const config = await loadCliConfig(args);
+    const operations = await discoverOperations(new A2AClient(config), null);
+    printOverview(buildCommands(operations));
+    return;
+  }
+
+  const found = findCommand(commands, args.positionals);
+  let command: CliCommand;
+  let consumed: number;
+  if (found) {
+    ({ command, consumed } = found);
+  } else {
+    const operation = operationFromWords(args.positionals);
+    if (!operation || commands.length > 0) {
+      throw new UsageError(`Unknown command "${args.positionals.slice(0, 2).join(" ")}" (run a2a --help)`);
+    }
+    command = untypedCommand(operation);
+    consumed = operation === first ? 1 : 2;
+  }
+
+  const rollout = ROLLOUT_OPERATIONS.has(command.operation);
+  if (help) {
+    console.log(commandUsage(command));
+    if (rollout) console.log("\nRollout:\n  --wait              wait for ready replicas\n  --timeout <seconds> give up after this long (default 180)");
+    return;
+  }
+
+  const format = parseFormat(flagValue(args, "output"));
+  const params = buildParams(command, args, args.positionals.slice(consumed), new Set([...GLOBAL_FLAGS, ...(rollout ? ROLLOUT_FLAGS : [])]));
+  const wait = rollout && flagSet(args, "wait");
+  const timeout = Number(flagValue(args, "timeout") ?? 180);
+  if (wait && (!Number.isFinite(timeout) || timeout <= 0)) throw new UsageError("--timeout expects a positive number of seconds");
+  const pushNotification = pushNotificationFlags(args);
+
+  const config = await loadCliConfig(args);
+  const client = new A2AClient(config);
+  if (card) client.useAgentCard(card);
+
+  // Progress goes to stderr so stdout stays machine-readable
+  let lastState = "";
+  const progress = (state: string | null) => {
+    if (quiet || !state || state === lastState) return;
+    process.stderr.write(lastState ? ` → ${state}` : `${command.operation}: ${state}`);
+    lastState = state;
+  };
+  // Named sessions persist Willy's contextId so separate invocations continue one conversation
+  const session = client.session({
+    name: flagValue(args, "session"),
+    store: new SessionStore(sessionDirFromEnv()),
+    contextId: flagValue(args, "context-id"),
+  });
+  const startedAt = Date.now();
+  let task;
+  try {
+    task = await session.execute(command.operation, params, {
+      pushNotification,
+      onEvent: (event) => progress(eventState(event)),
+      onUpdate: (t) => progress(t.status.state),
+    });
+  } finally {
+    if (lastState) process.stderr.write("\n");
+  }
+
+  console.log(render({ status: task.status.state, data: client.extractData(task) }, format));
+
+  if (!quiet && task.metadata?.lowBalanceWarning) {
     console.error(`\n⚠ ${task.metadata.lowBalanceWarning.message}`);
   }
-} catch (err) {
-  console.error(`Error: ${err instanceof Error ? err.message : err}`);
-  process.exit(1);
+  if (FAILED_STATES.has(task.status.state)) {
+    process.exitCode = EXIT.taskFailed;
+    return;
+  }
+
+  if (wait) {
+    const data = client.extractData(task) as { data?: Record<string, unknown> } & Record<string, unknown>;
+    const payload = data?.data && typeof data.data === "object" ? data.data : data;
+    const deploymentId = String(payload?.deploymentId ?? payload?.id ?? params.deploymentId ?? "");
+    // The operation itself went through; only the rollout cannot be followed, so this is not a task failure
+    if (!deploymentId) {
+      throw new UsageError(`${command.operation} returned no deploymentId to wait for; check the rollout with a2a deploy status <deploymentId>`);
+    }
+    let last = "";
+    const { status, elapsedMs } = await waitForRollout(client, deploymentId, {
+      timeoutMs: timeout * 1000,
+      since: startedAt,
+      onStatus: (s) => {
+        const { ready, desired } = replicaCounts(s);
+        const line = `${s.status} ${ready}/${desired} ready`;
+        if (!quiet && line !== last) console.error(`  rollout: ${line}`);
+        last = line;
+      },
+      onEvent: (e) => !quiet && console.error(`  event: ${e.type ?? ""} ${e.reason ?? ""} ${e.message ?? ""}`.trimEnd()),
+    });
+    if (!quiet) console.error(`Rolled out: ${status.status} in ${Math.round(elapsedMs / 1000)}s`);
+  }
 }
+
+await main(process.argv.slice(2)).catch(fail);
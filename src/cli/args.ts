@@ -0,0 +1,71 @@
+// GNU-style argv parsing — positionals plus --flag value, --flag=value, --no-flag and -x short aliases
+
+export interface ParsedArgs {
+  positionals: string[];
+  // Every occurrence is kept so repeatable flags (--env A=1 --env B=2) survive
+  flags: Map<string, string[]>;
+}
+
+export interface ParseOptions {
+  // Flags that never take a value
+  isBoolean: (name: string) => boolean;
+  // Short aliases, e.g. { o: "output", q: "quiet" }
+  short?: Record<string, string>;
+}
+
+export function parseArgs(argv: string[], options: ParseOptions): ParsedArgs {
+  const positionals: string[] = [];
+  const flags = new Map<string, string[]>();
+  const push = (name: string, value: string) => flags.set(name, [...(flags.get(name) ?? []), value]);
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === "--") {
+      positionals.push(...argv.slice(i + 1));
+      break;
+    }
+
+    let name: string;
+    let inline: string | undefined;
+    if (arg.startsWith("--")) {
+      const eq = arg.indexOf("=");
+      name = eq === -1 ? arg.slice(2) : arg.slice(2, eq);
+      inline = eq === -1 ? undefined : arg.slice(eq + 1);
+    } else if (/^-[a-zA-Z]$/.test(arg)) {
+      name = options.short?.[arg.slice(1)] ?? arg.slice(1);
+    } else {
+      positionals.push(arg);
+      continue;
+    }
+
+    if (inline !== undefined) {
+      push(name, inline);
+    } else if (name.startsWith("no-") && options.isBoolean(name.slice(3))) {
+      push(name.slice(3), "false");
+    } else if (options.isBoolean(name)) {
+      push(name, "true");
+    } else if (i + 1 < argv.length) {
+      push(name, argv[++i]);
+    } else {
+      throw new UsageError(`Flag --${name} needs a value`);
+    }
+  }
+
+  return { positionals, flags };
+}
+
+export class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UsageError";
+  }
+}
+
+export function flagValue(args: ParsedArgs, name: string): string | undefined {
+  return args.flags.get(name)?.at(-1);
+}
+
+export function flagSet(args: ParsedArgs, name: string): boolean {
+  const value = flagValue(args, name);
+  return value !== undefined && value !== "false";
+}
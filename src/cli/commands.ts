@@ -0,0 +1,241 @@
+// Maps Willform operations onto "group verb" subcommands and CLI flags onto operation params
+
+import type { JsonSchema, OperationInfo } from "../lib/agent-card.js";
+import { UsageError, type ParsedArgs } from "./args.js";
+
+export type ParamType = "string" | "integer" | "number" | "boolean" | "object" | "array";
+
+export interface ParamSpec {
+  name: string;
+  // Primary flag (kebab-case of the param) and any shorter aliases, without leading dashes
+  flags: string[];
+  type: ParamType;
+  required: boolean;
+  description?: string;
+  enum?: string[];
+}
+
+export interface CliCommand {
+  group: string;
+  verb: string;
+  operation: string;
+  description: string;
+  params: ParamSpec[];
+  // Param filled by the first positional, e.g. `a2a deploy status <deploymentId>`
+  positional?: string;
+  // False when the operation came without a schema and flags are mapped by name only
+  typed: boolean;
+}
+
+// Short group names people actually type
+export const GROUP_ALIASES: Record<string, string> = {
+  ns: "namespace",
+  namespaces: "namespace",
+  deployment: "deploy",
+  deployments: "deploy",
+  charts: "chart",
+  credit: "credits",
+};
+
+const kebab = (s: string) => s.replace(/([a-z0-9])([A-Z])/g, "$1-$2").replace(/_/g, "-").toLowerCase();
+const camel = (s: string) => s.replace(/-([a-z0-9])/g, (_m, c: string) => c.toUpperCase());
+
+// namespace_create → ["namespace", "create"]; deploy_update_env → ["deploy", "update-env"]
+export function splitOperation(operation: string): [string, string] {
+  const [group, ...rest] = operation.split("_");
+  return [group, rest.join("-")];
+}
+
+function paramFlags(name: string): string[] {
+  const primary = kebab(name);
+  // namespaceId → --namespace, chartType → --chart, allocatedCores stays as is
+  const short = name.replace(/(Id|Type)$/, "");
+  return short !== name && short ? [primary, kebab(short)] : [primary];
+}
+
+function schemaType(schema: JsonSchema): ParamType {
+  const type = Array.isArray(schema.type) ? schema.type.find((t) => t !== "null") : schema.type;
+  return (["string", "integer", "number", "boolean", "object", "array"].includes(type ?? "") ? type : "string") as ParamType;
+}
+
+// Param names from the table fallback's "namespaceId, name, image" style text
+function paramsFromText(text: string): ParamSpec[] {
+  return text
+    .split(/[,\s]+/)
+    .map((p) => p.replace(/[?:].*$/, "").trim())
+    .filter((p) => /^[a-zA-Z][a-zA-Z0-9]*$/.test(p))
+    .map((name) => ({ name, flags: paramFlags(name), type: "string" as ParamType, required: false }));
+}
+
+export function buildCommands(operations: OperationInfo[]): CliCommand[] {
+  return operations.map((op) => {
+    const [group, verb] = splitOperation(op.operation);
+    const schema = op.inputSchema;
+    const required = new Set(schema?.required ?? []);
+    const params: ParamSpec[] = schema
+      ? Object.entries(schema.properties ?? {}).map(([name, prop]) => ({
+          name,
+          flags: paramFlags(name),
+          type: schemaType(prop),
+          required: required.has(name),
+          description: prop.description,
+          enum: prop.enum?.map(String),
+        }))
+      : paramsFromText(op.params);
+    const ids = params.filter((p) => p.name.endsWith("Id"));
+    const positional = ids.length === 1 ? ids[0].name : undefined;
+    return { group, verb, operation: op.operation, description: op.description, params, positional, typed: !!schema };
+  });
+}
+
+// Commands for an operation the server never advertised; flags map straight to camelCase params
+export function untypedCommand(operation: string): CliCommand {
+  const [group, verb] = splitOperation(operation);
+  return { group, verb, operation, description: "", params: [], typed: false };
+}
+
+export function findCommand(commands: CliCommand[], words: string[]): { command: CliCommand; consumed: number } | null {
+  if (words.length === 0) return null;
+  // Legacy form: the raw operation name as one word
+  if (words[0].includes("_")) {
+    const command = commands.find((c) => c.operation === words[0]);
+    return command ? { command, consumed: 1 } : null;
+  }
+  if (words.length < 2) return null;
+  const group = GROUP_ALIASES[words[0]] ?? words[0];
+  const command = commands.find((c) => c.group === group && c.verb === words[1]);
+  return command ? { command, consumed: 2 } : null;
+}
+
+// Operation name a "group verb" pair would map to, for servers without discoverable operations
+export function operationFromWords(words: string[]): string | null {
+  if (words[0]?.includes("_")) return words[0];
+  if (words.length < 2) return null;
+  return `${GROUP_ALIASES[words[0]] ?? words[0]}_${words[1].replace(/-/g, "_")}`;
+}
+
+export function booleanFlags(commands: CliCommand[]): Set<string> {
+  const flags = new Set<string>();
+  for (const c of commands) for (const p of c.params) if (p.type === "boolean") p.flags.forEach((f) => flags.add(f));
+  return flags;
+}
+
+function coerce(param: ParamSpec, values: string[]): unknown {
+  const label = `--${param.flags[0]}`;
+  const last = values[values.length - 1];
+  switch (param.type) {
+    case "integer":
+    case "number": {
+      const n = Number(last);
+      if (last.trim() === "" || Number.isNaN(n) || (param.type === "integer" && !Number.isInteger(n))) {
+        throw new UsageError(`${label} expects ${param.type === "integer" ? "an integer" : "a number"}, got "${last}"`);
+      }
+      return n;
+    }
+    case "boolean":
+      if (!["true", "false"].includes(last)) throw new UsageError(`${label} expects true or false, got "${last}"`);
+      return last === "true";
+    case "object": {
+      // Either one JSON object or repeated KEY=VALUE pairs
+      if (values.length === 1 && last.trim().startsWith("{")) return parseJson(label, last);
+      const obj: Record<string, string> = {};
+      for (const pair of values) {
+        const eq = pair.indexOf("=");
+        if (eq <= 0) throw new UsageError(`${label} expects KEY=VALUE or a JSON object, got "${pair}"`);
+        obj[pair.slice(0, eq)] = pair.slice(eq + 1);
+      }
+      return obj;
+    }
+    case "array":
+      if (values.length === 1 && last.trim().startsWith("[")) return parseJson(label, last);
+      return values.flatMap((v) => v.split(","));
+    default:
+      if (param.enum && !param.enum.includes(last)) {
+        throw new UsageError(`${label} must be one of ${param.enum.join(", ")}, got "${last}"`);
+      }
+      return last;
+  }
+}
+
+function parseJson(label: string, text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new UsageError(`${label} is not valid JSON`);
+  }
+}
+
+// Untyped flags: keep JSON scalars (numbers, booleans) typed, everything else as a string
+function loose(value: string): unknown {
+  if (/^(true|false|-?\d+(\.\d+)?)$/.test(value)) return JSON.parse(value);
+  if (/^[[{]/.test(value.trim())) {
+    try {
+      return JSON.parse(value);
+    } catch { /* fall through */ }
+  }
+  return value;
+}
+
+// Builds operation params from --params JSON, the positional id and per-param flags (flags win)
+export function buildParams(
+  command: CliCommand,
+  args: ParsedArgs,
+  positionals: string[],
+  reserved: Set<string>,
+): Record<string, unknown> {
+  const params: Record<string, unknown> = {};
+
+  const json = args.flags.get("params")?.at(-1) ?? positionals.find((p) => p.trim().startsWith("{"));
+  if (json) {
+    const parsed = parseJson("--params", json);
+    if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) throw new UsageError("--params must be a JSON object");
+    Object.assign(params, parsed);
+  }
+
+  const rest = positionals.filter((p) => p !== json);
+  if (rest.length > 0) {
+    if (!command.positional || rest.length > 1) {
+      throw new UsageError(`Unexpected argument "${rest[command.positional ? 1 : 0]}" for ${command.group} ${command.verb}`);
+    }
+    params[command.positional] = rest[0];
+  }
+
+  for (const [flag, values] of args.flags) {
+    if (reserved.has(flag) || flag === "params") continue;
+    const param = command.params.find((p) => p.flags.includes(flag));
+    if (param) {
+      params[param.name] = coerce(param, values);
+    } else if (!command.typed) {
+      params[camel(flag)] = loose(values[values.length - 1]);
+    } else {
+      throw new UsageError(`Unknown flag --${flag} for ${command.group} ${command.verb} (see --help)`);
+    }
+  }
+
+  if (command.typed) {
+    const missing = command.params.filter((p) => p.required && params[p.name] === undefined);
+    if (missing.length) {
+      throw new UsageError(`Missing ${missing.map((p) => `--${p.flags[0]}`).join(", ")} for ${command.group} ${command.verb}`);
+    }
+  }
+  return params;
+}
+
+export function commandUsage(command: CliCommand): string {
+  const lines = [`a2a ${command.group} ${command.verb}${command.positional ? ` <${command.positional}>` : ""} [flags]`];
+  if (command.description) lines.push("", `  ${command.description}`);
+  if (command.params.length) {
+    lines.push("", "Flags:");
+    const labels = command.params.map((p) => {
+      const value = p.type === "boolean" ? "" : p.type === "object" ? " KEY=VALUE" : ` <${p.type}>`;
+      return `  ${p.flags.map((f) => `--${f}`).join(", ")}${value}`;
+    });
+    const width = Math.max(...labels.map((l) => l.length)) + 2;
+    command.params.forEach((p, i) => {
+      const notes = [p.required ? "required" : "", p.enum ? p.enum.join("|") : ""].filter(Boolean).join("; ");
+      lines.push(`${labels[i].padEnd(width)}${p.description ?? ""}${notes ? ` (${notes})` : ""}`);
+    });
+  }
+  lines.push("", `Operation: ${command.operation}`);
+  return lines.join("\n");
+}
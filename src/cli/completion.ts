@@ -0,0 +1,102 @@
+// Shell completion scripts for the a2a CLI, generated from the discovered command table
+
+import type { CliCommand } from "./commands.js";
+import { UsageError } from "./args.js";
+
+export type Shell = "bash" | "zsh" | "fish";
+
+export interface CompletionSpec {
+  commands: CliCommand[];
+  // Top-level words that are not operation groups (ledger, completion, ...)
+  builtins: string[];
+  globalFlags: string[];
+  // alias → group, e.g. { ns: "namespace" }
+  aliases: Record<string, string>;
+}
+
+function groups(commands: CliCommand[]): Map<string, CliCommand[]> {
+  const byGroup = new Map<string, CliCommand[]>();
+  for (const c of commands) byGroup.set(c.group, [...(byGroup.get(c.group) ?? []), c]);
+  return byGroup;
+}
+
+const flagWords = (c: CliCommand) => c.params.flatMap((p) => p.flags.map((f) => `--${f}`));
+
+function bash({ commands, builtins, globalFlags, aliases }: CompletionSpec): string {
+  const byGroup = groups(commands);
+  const cases = [...byGroup]
+    .map(([group, cmds]) => {
+      const names = [group, ...Object.keys(aliases).filter((a) => aliases[a] === group)].join("|");
+      const verbs = cmds.map((c) => c.verb).join(" ");
+      const flagCases = cmds.map((c) => `          ${c.verb}) flags="${flagWords(c).join(" ")}" ;;`).join("\n");
+      return `    ${names})
+        if [ "$COMP_CWORD" -eq 2 ]; then COMPREPLY=($(compgen -W "${verbs}" -- "$cur")); return; fi
+        case "\${COMP_WORDS[2]}" in
+${flagCases}
+        esac ;;`;
+    })
+    .join("\n");
+
+  return `# a2a bash completion — source this file or save it to /etc/bash_completion.d/a2a
+_a2a() {
+  local cur="\${COMP_WORDS[COMP_CWORD]}" flags=""
+  if [ "$COMP_CWORD" -eq 1 ]; then
+    COMPREPLY=($(compgen -W "${[...byGroup.keys(), ...builtins].join(" ")} ${globalFlags.join(" ")}" -- "$cur"))
+    return
+  fi
+  case "\${COMP_WORDS[1]}" in
+${cases}
+  esac
+  COMPREPLY=($(compgen -W "$flags ${globalFlags.join(" ")}" -- "$cur"))
+}
+complete -F _a2a a2a
+`;
+}
+
+function zsh(spec: CompletionSpec): string {
+  // zsh ships bashcompinit, which runs the bash function unchanged
+  return `#compdef a2a
+# a2a zsh completion — save as _a2a somewhere on $fpath, or source it
+autoload -U +X bashcompinit && bashcompinit
+${bash(spec).split("\n").slice(1).join("\n")}`;
+}
+
+function fish({ commands, builtins, globalFlags, aliases }: CompletionSpec): string {
+  const byGroup = groups(commands);
+  const lines = [
+    "# a2a fish completion — save to ~/.config/fish/completions/a2a.fish",
+    "complete -c a2a -f",
+  ];
+  for (const word of [...byGroup.keys(), ...builtins]) {
+    lines.push(`complete -c a2a -n "__fish_use_subcommand" -a "${word}"`);
+  }
+  for (const flag of globalFlags) {
+    lines.push(flag.startsWith("--") ? `complete -c a2a -l ${flag.slice(2)}` : `complete -c a2a -s ${flag.slice(1)}`);
+  }
+  for (const [group, cmds] of byGroup) {
+    const names = [group, ...Object.keys(aliases).filter((a) => aliases[a] === group)].join(" ");
+    for (const c of cmds) {
+      const desc = c.description.replace(/"/g, "'");
+      lines.push(`complete -c a2a -n "__fish_seen_subcommand_from ${names}; and not __fish_seen_subcommand_from ${cmds.map((x) => x.verb).join(" ")}" -a "${c.verb}" -d "${desc}"`);
+      for (const p of c.params) {
+        for (const f of p.flags) {
+          lines.push(`complete -c a2a -n "__fish_seen_subcommand_from ${names}; and __fish_seen_subcommand_from ${c.verb}" -l ${f}${p.type === "boolean" ? "" : " -r"}`);
+        }
+      }
+    }
+  }
+  return lines.join("\n") + "\n";
+}
+
+export function completionScript(shell: string, spec: CompletionSpec): string {
+  switch (shell) {
+    case "bash":
+      return bash(spec);
+    case "zsh":
+      return zsh(spec);
+    case "fish":
+      return fish(spec);
+    default:
+      throw new UsageError(`Unsupported shell "${shell}" (use bash, zsh or fish)`);
+  }
+}
@@ -0,0 +1,59 @@
+// Renders CLI results as JSON, YAML or an aligned text table
+
+import { stringify } from "yaml";
+import { padW, strWidth } from "../lib/animation.js";
+import { UsageError } from "./args.js";
+
+export type OutputFormat = "json" | "yaml" | "table";
+
+export const OUTPUT_FORMATS: OutputFormat[] = ["json", "yaml", "table"];
+
+export function parseFormat(value: string | undefined): OutputFormat {
+  const format = (value ?? "json") as OutputFormat;
+  if (!OUTPUT_FORMATS.includes(format)) {
+    throw new UsageError(`--output must be one of ${OUTPUT_FORMATS.join(", ")}, got "${value}"`);
+  }
+  return format;
+}
+
+function cell(value: unknown): string {
+  if (value === undefined || value === null) return "";
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value).replace(/\s*\n\s*/g, " ");
+}
+
+export function table(rows: Array<Record<string, unknown>>): string {
+  if (rows.length === 0) return "(none)";
+  const columns = [...new Set(rows.flatMap((r) => Object.keys(r)))];
+  const cells = rows.map((r) => columns.map((c) => cell(r[c])));
+  const widths = columns.map((c, i) => Math.max(strWidth(c), ...cells.map((row) => strWidth(row[i]))));
+  const line = (values: string[]) => values.map((v, i) => padW(v, widths[i])).join("  ").trimEnd();
+  return [line(columns.map((c) => c.toUpperCase())), ...cells.map(line)].join("\n");
+}
+
+const isRecord = (v: unknown): v is Record<string, unknown> => !!v && typeof v === "object" && !Array.isArray(v);
+
+// Arrays of objects become rows; a single object becomes KEY/VALUE rows; multi-line strings print as-is
+function tableOf(data: unknown): string {
+  if (Array.isArray(data)) return table(data.map((item) => (isRecord(item) ? item : { value: item })));
+  if (isRecord(data)) {
+    // Willy's { success, message, data } envelope: the payload is what belongs in the table
+    if ("data" in data && ("success" in data || "message" in data)) return tableOf(data.data);
+    // A lone nested list (e.g. { namespaces: [...] }) is the interesting part
+    const entries = Object.entries(data);
+    if (entries.length === 1 && Array.isArray(entries[0][1])) return tableOf(entries[0][1]);
+    return table(entries.map(([key, value]) => ({ key, value })));
+  }
+  return cell(data) || String(data ?? "");
+}
+
+export function renderValue(data: unknown, format: OutputFormat): string {
+  if (format === "json") return JSON.stringify(data, null, 2);
+  if (format === "yaml") return stringify(data).trimEnd();
+  return typeof data === "string" ? data : tableOf(data);
+}
+
+// Task results keep their { status, data } envelope in JSON/YAML; tables show just the data
+export function render(result: { status: string; data: unknown }, format: OutputFormat): string {
+  return renderValue(format === "table" ? result.data : result, format);
+}
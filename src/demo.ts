@@ -3,11 +3,16 @@
 
 import * as readline from "readline";
 import chalk from "chalk";
-import { A2AClient, type A2ATask } from "./lib/a2a-client.js";
+import { A2AClient, eventState, type ExecuteOptions } from "./lib/a2a-client.js";
+import type { ChartType, OperationResult } from "./lib/operations.js";
 import { loadConfig } from "./lib/config.js";
+import type { PaymentRequest } from "./lib/payment-policy.js";
+import { attachAgentCard } from "./lib/agent-card.js";
+import { errorHint } from "./lib/errors.js";
+import { RolloutError, formatRolloutReport, replicaCounts, waitForRollout } from "./lib/rollout.js";
 import { header, subheader, success, error, info, json, taskSummary, divider } from "./lib/display.js";
 
-const config = loadConfig();
+const config = await loadConfig({ approvePayment });
 const client = new A2AClient(config);
 
 // Session state
@@ -23,38 +28,93 @@ function ask(question: string): Promise<string> {
   return new Promise((resolve) => rl.question(chalk.cyan(`${question} `), resolve));
 }
 
-async function call(operation: string, params: Record<string, unknown> = {}): Promise<unknown> {
-  process.stdout.write(chalk.gray(`  → ${operation}...`));
+// Ask before signing each x402 payment; "a" approves the rest of the session (limits still apply)
+let approveAll = false;
+async function approvePayment(request: PaymentRequest): Promise<boolean> {
+  if (approveAll) return true;
+  process.stdout.write("\n");
+  info("Payment", `${chalk.yellow(`${request.amount} USDC`)} → ${request.payTo} on ${request.network}`);
+  info("Spent", `${config.policy.spentThisSession} USDC this session · limits: ${config.policy.describe()}`);
+  const answer = (await ask("  Approve this payment? (y/N/a=always)")).trim().toLowerCase();
+  if (answer === "a") approveAll = true;
+  return answer === "y" || answer === "a";
+}
+
+function stateColor(state: string) {
+  if (state === "completed") return chalk.green(state);
+  if (state === "failed" || state === "rejected" || state === "canceled") return chalk.red(state);
+  return chalk.yellow(state);
+}
+
+async function call<T>(run: (options: ExecuteOptions) => Promise<OperationResult<T>>): Promise<T | null> {
+  // Render submitted → working → completed as the stream (or tasks/get polling) reports each transition
+  let lastState = "";
+  const showState = (state: string) => {
+    if (state === lastState) return;
+    process.stdout.write(chalk.gray(lastState ? " → " : "  ") + stateColor(state));
+    lastState = state;
+  };
   try {
-    const task = await client.send(operation, params);
-    const data = client.extractData(task);
-    process.stdout.write(chalk.green(" done\n"));
+    const { task, data } = await run({
+      onRequest: (operation) => process.stdout.write(chalk.gray(`  → ${operation}`)),
+      onEvent: (event) => {
+        const state = eventState(event);
+        if (state) showState(state);
+      },
+      onUpdate: (t) => showState(t.status.state),
+    });
+    process.stdout.write("\n");
     taskSummary(task);
     return data;
   } catch (err) {
     process.stdout.write(chalk.red(" failed\n"));
     error(err instanceof Error ? err.message : String(err));
+    const hint = errorHint(err);
+    if (hint) info("Hint", hint);
     return null;
   }
 }
 
+// Follow the rollout a create/scale/restart just started instead of assuming it worked
+async function followRollout(deploymentId: string, since: number) {
+  let last = "";
+  try {
+    const { status, elapsedMs } = await waitForRollout(client, deploymentId, {
+      since,
+      timeoutMs: 90_000,
+      onStatus: (s) => {
+        const { ready, desired } = replicaCounts(s);
+        const line = `${s.status} ${ready}/${desired}`;
+        if (line !== last) info("Rollout", line);
+        last = line;
+      },
+      onEvent: (e) => console.log(chalk.gray(`  ${e.reason ?? e.type ?? "event"}: ${e.message ?? ""}`)),
+    });
+    success(`Rolled out (${status.status}) in ${Math.round(elapsedMs / 1000)}s`);
+  } catch (err) {
+    if (!(err instanceof RolloutError)) throw err;
+    error(err.message);
+    console.log(chalk.gray(formatRolloutReport(err.report)));
+  }
+}
+
 // Menu actions
 
 async function checkBalance() {
   subheader("Credits Balance");
-  const data = await call("credits_balance") as Record<string, unknown> | null;
+  const data = await call((o) => client.credits.balance(o));
   if (data) {
     info("Balance", `$${data.balance}`);
-    if (data.estimatedRuntime) info("Est. Runtime", String(data.estimatedRuntime));
+    if (data.estimatedRuntime) info("Est. Runtime", data.estimatedRuntime);
   }
 }
 
 async function listCharts() {
   subheader("Available Chart Types");
-  const data = await call("chart_list") as Array<Record<string, unknown>> | null;
-  if (data && Array.isArray(data)) {
+  const data = await call((o) => client.chart.list(o));
+  if (data) {
     for (const chart of data) {
-      console.log(`  ${chalk.bold(String(chart.type).padEnd(14))} ${chalk.gray(String(chart.description ?? ""))}`);
+      console.log(`  ${chalk.bold(chart.type.padEnd(14))} ${chalk.gray(chart.description ?? "")}`);
     }
   }
 }
@@ -65,29 +125,29 @@ async function createNamespace() {
   const coresStr = await ask("  Allocated cores (default 2):");
   const cores = parseInt(coresStr) || 2;
 
-  const data = await call("namespace_create", { name, allocatedCores: cores }) as Record<string, unknown> | null;
+  const data = await call((o) => client.namespace.create({ name, allocatedCores: cores }, o));
   if (data) {
-    currentNamespaceId = String(data.id);
+    currentNamespaceId = data.id;
     success(`Namespace created: ${currentNamespaceId}`);
-    info("Short ID", String(data.shortId));
-    info("Name", String(data.name));
+    info("Short ID", data.shortId);
+    info("Name", data.name);
   }
 }
 
 async function listNamespaces() {
   subheader("Namespaces");
-  const data = await call("namespace_list") as Array<Record<string, unknown>> | null;
-  if (data && Array.isArray(data)) {
+  const data = await call((o) => client.namespace.list(o));
+  if (data) {
     if (data.length === 0) {
       info("Result", "No namespaces found");
       return;
     }
     for (const ns of data) {
-      const status = ns.status === "active" ? chalk.green("active") : chalk.red(String(ns.status));
-      console.log(`  ${chalk.bold(String(ns.shortId))}  ${String(ns.name).padEnd(20)} ${status}  cores=${ns.allocatedCores}`);
+      const status = ns.status === "active" ? chalk.green("active") : chalk.red(ns.status);
+      console.log(`  ${chalk.bold(ns.shortId)}  ${ns.name.padEnd(20)} ${status}  cores=${ns.allocatedCores}`);
     }
     if (!currentNamespaceId && data.length > 0) {
-      currentNamespaceId = String(data[0].id);
+      currentNamespaceId = data[0].id;
       console.log(chalk.gray(`  (auto-selected namespace: ${data[0].shortId})`));
     }
   }
@@ -99,7 +159,8 @@ async function getNamespace() {
     currentNamespaceId = id;
   }
   subheader(`Namespace Detail: ${currentNamespaceId}`);
-  const data = await call("namespace_get", { namespaceId: currentNamespaceId });
+  const namespaceId = currentNamespaceId;
+  const data = await call((o) => client.namespace.get({ namespaceId }, o));
   if (data) json(data);
 }
 
@@ -111,7 +172,8 @@ async function deleteNamespace() {
   subheader(`Delete Namespace: ${currentNamespaceId}`);
   const confirm = await ask(`  Delete ${currentNamespaceId}? (y/N)`);
   if (confirm.toLowerCase() !== "y") return;
-  await call("namespace_delete", { namespaceId: currentNamespaceId });
+  const namespaceId = currentNamespaceId;
+  await call((o) => client.namespace.delete({ namespaceId }, o));
   currentNamespaceId = null;
   currentDeploymentId = null;
 }
@@ -124,22 +186,19 @@ async function createDeployment() {
   subheader("Create Deployment");
   const name = await ask("  Deployment name:");
   const image = await ask("  Container image (e.g., nginx:alpine):");
-  const chartType = await ask("  Chart type (web/database/queue/cache/worker/cronjob/job/static-site, default web):") || "web";
+  const chartType = (await ask("  Chart type (web/database/queue/cache/worker/cronjob/job/static-site, default web):") || "web") as ChartType;
   const portStr = await ask("  Port (default 8080):");
   const port = parseInt(portStr) || 8080;
 
-  const data = await call("deploy_create", {
-    namespaceId: currentNamespaceId,
-    name,
-    image,
-    chartType,
-    port,
-  }) as Record<string, unknown> | null;
+  const namespaceId = currentNamespaceId;
+  const since = Date.now();
+  const data = await call((o) => client.deploy.create({ namespaceId, name, image, chartType, port }, o));
 
   if (data) {
-    currentDeploymentId = String(data.deploymentId ?? data.id);
+    currentDeploymentId = data.deploymentId;
     success(`Deployment created: ${currentDeploymentId}`);
-    info("Status", String(data.status));
+    info("Status", data.status);
+    await followRollout(data.deploymentId, since);
   }
 }
 
@@ -149,7 +208,8 @@ async function deployStatus() {
     currentDeploymentId = id;
   }
   subheader(`Deployment Status: ${currentDeploymentId}`);
-  const data = await call("deploy_status", { deploymentId: currentDeploymentId });
+  const deploymentId = currentDeploymentId;
+  const data = await call((o) => client.deploy.status({ deploymentId }, o));
   if (data) json(data);
 }
 
@@ -159,18 +219,19 @@ async function listDeployments() {
     return;
   }
   subheader("Deployments");
-  const data = await call("deploy_list", { namespaceId: currentNamespaceId }) as Array<Record<string, unknown>> | null;
-  if (data && Array.isArray(data)) {
+  const namespaceId = currentNamespaceId;
+  const data = await call((o) => client.deploy.list({ namespaceId }, o));
+  if (data) {
     if (data.length === 0) {
       info("Result", "No deployments");
       return;
     }
     for (const d of data) {
-      const status = d.status === "running" ? chalk.green("running") : chalk.yellow(String(d.status));
-      console.log(`  ${chalk.bold(String(d.name).padEnd(20))} ${status}  ${d.image}  replicas=${d.replicas}`);
+      const status = d.status === "running" ? chalk.green("running") : chalk.yellow(d.status);
+      console.log(`  ${chalk.bold(d.name.padEnd(20))} ${status}  ${d.image}  replicas=${d.replicas}`);
     }
     if (!currentDeploymentId && data.length > 0) {
-      currentDeploymentId = String(data[0].id);
+      currentDeploymentId = data[0].deploymentId;
       console.log(chalk.gray(`  (auto-selected deployment: ${data[0].name})`));
     }
   }
@@ -182,13 +243,13 @@ async function deployLogs() {
     return;
   }
   subheader("Deployment Logs");
-  const data = await call("deploy_logs", { deploymentId: currentDeploymentId }) as Record<string, unknown> | null;
+  const deploymentId = currentDeploymentId;
+  const data = await call((o) => client.deploy.logs({ deploymentId }, o));
   if (data) {
-    const logs = data.logs ?? data;
-    if (typeof logs === "string") {
-      console.log(logs);
+    if (typeof data.logs === "string") {
+      console.log(data.logs);
     } else {
-      json(logs);
+      json(data.logs);
     }
   }
 }
@@ -199,7 +260,8 @@ async function deployDiagnose() {
     return;
   }
   subheader("Deployment Diagnosis");
-  const data = await call("deploy_diagnose", { deploymentId: currentDeploymentId });
+  const deploymentId = currentDeploymentId;
+  const data = await call((o) => client.deploy.diagnose({ deploymentId }, o));
   if (data) json(data);
 }
 
@@ -215,7 +277,9 @@ async function deployScale() {
     return;
   }
   subheader(`Scale to ${replicas} replicas`);
-  await call("deploy_scale", { deploymentId: currentDeploymentId, replicas });
+  const deploymentId = currentDeploymentId;
+  const since = Date.now();
+  if (await call((o) => client.deploy.scale({ deploymentId, replicas }, o))) await followRollout(deploymentId, since);
 }
 
 async function deployEvents() {
@@ -224,7 +288,8 @@ async function deployEvents() {
     return;
   }
   subheader("Deployment Events");
-  const data = await call("deploy_events", { deploymentId: currentDeploymentId });
+  const deploymentId = currentDeploymentId;
+  const data = await call((o) => client.deploy.events({ deploymentId }, o));
   if (data) json(data);
 }
 
@@ -234,7 +299,8 @@ async function deployStop() {
     return;
   }
   subheader("Stop Deployment");
-  await call("deploy_stop", { deploymentId: currentDeploymentId });
+  const deploymentId = currentDeploymentId;
+  await call((o) => client.deploy.stop({ deploymentId }, o));
 }
 
 async function deployRestart() {
@@ -243,7 +309,9 @@ async function deployRestart() {
     return;
   }
   subheader("Restart Deployment");
-  await call("deploy_restart", { deploymentId: currentDeploymentId });
+  const deploymentId = currentDeploymentId;
+  const since = Date.now();
+  if (await call((o) => client.deploy.restart({ deploymentId }, o))) await followRollout(deploymentId, since);
 }
 
 async function deployDelete() {
@@ -253,7 +321,8 @@ async function deployDelete() {
   }
   const confirm = await ask(`  Delete deployment ${currentDeploymentId}? (y/N)`);
   if (confirm.toLowerCase() !== "y") return;
-  await call("deploy_delete", { deploymentId: currentDeploymentId });
+  const deploymentId = currentDeploymentId;
+  await call((o) => client.deploy.delete({ deploymentId }, o));
   currentDeploymentId = null;
 }
 
@@ -286,6 +355,7 @@ function showMenu() {
   header("Willform A2A Demo");
   info("Server", config.baseUrl);
   info("Wallet", config.walletAddress);
+  info("Spent", `${config.policy.spentThisSession} USDC · limits: ${config.policy.describe()}`);
   if (currentNamespaceId) info("Namespace", currentNamespaceId);
   if (currentDeploymentId) info("Deployment", currentDeploymentId);
   divider();
@@ -302,7 +372,9 @@ function showMenu() {
 async function main() {
   header("Willform A2A Protocol Demo");
   console.log(chalk.gray("  Connecting to"), config.baseUrl);
-  console.log(chalk.gray("  Wallet:"), config.walletAddress);
+  console.log(chalk.gray("  Wallet:"), config.walletAddress, chalk.gray(`(${config.signer})`));
+  const card = await attachAgentCard(client, config.baseUrl);
+  if (card) console.log(chalk.gray("  Agent:"), `${card.name} v${card.version}${card.capabilities.streaming ? " (streaming)" : ""}`);
   console.log();
 
   while (true) {
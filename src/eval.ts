@@ -0,0 +1,246 @@
+#!/usr/bin/env tsx
+// Agent eval — runs scenarios headlessly against an in-process mock Willy and scores the Test Agent's a2a_calls
+// against its own decision rules (namespace_list before namespace_create, preflight before deploy_create,
+// a status check after it, no invented UUIDs) and each scenario's expectations.
+//
+// Usage: npm run eval                                   (every scenario in scenarios/)
+//        npm run eval -- --scenario examples/scenario-diagnose.yaml --runs 3 --label prompt-v2
+//        npm run eval -- --model claude-opus-4-1 --baseline eval-results/prompt-v1.json
+//        npm run eval -- compare eval-results/a.json eval-results/b.json
+//
+// Each run writes <out>/<label>.json and <out>/<label>.md (default out: eval-results/).
+// --min-score 0.9 exits 1 when the rule score falls below it, for CI.
+
+import { createHash } from "crypto";
+import { mkdirSync, readFileSync, writeFileSync } from "fs";
+import { join, relative } from "path";
+import { fileURLToPath } from "url";
+import Anthropic from "@anthropic-ai/sdk";
+import chalk from "chalk";
+import { A2AClient } from "./lib/a2a-client.js";
+import { fetchAgentCard, operationsFromCard } from "./lib/agent-card.js";
+import {
+  buildA2ATool,
+  buildPlanTool,
+  buildSystemPrompt,
+  errorOutcome,
+  MODEL,
+  runAgentTurn,
+  taskOutcome,
+  type ToolOutcome,
+} from "./lib/agent-loop.js";
+import { flagValue, parseArgs, UsageError } from "./cli/args.js";
+import { renderComparison, renderMarkdown, scoreCalls, summarize, type EvalCall, type EvalReport, type ScenarioRun } from "./lib/eval.js";
+import { evaluateScenario, loadScenarioDir, loadScenarioFile, runSetup, ScenarioError, type Scenario } from "./lib/scenario.js";
+import { startMockServer } from "./mock/server.js";
+
+const DEFAULT_SCENARIO_DIR = fileURLToPath(new URL("../scenarios", import.meta.url));
+const DEFAULT_OUT_DIR = "eval-results";
+// Short enough to keep a suite quick, long enough that rollouts are still in progress when the agent checks them
+const MOCK_LATENCY_MS = 150;
+
+const USAGE = `Usage: npm run eval -- [--scenario file]... [--scenario-dir dir] [--model id] [--runs n]
+                      [--label name] [--out dir] [--baseline report.json] [--min-score 0-1]
+       npm run eval -- compare <report.json> <report.json>...`;
+
+function readReport(path: string): EvalReport {
+  const report = JSON.parse(readFileSync(path, "utf8")) as EvalReport;
+  if (report.version !== 1 || !Array.isArray(report.scenarios)) throw new UsageError(`${path} is not an eval report`);
+  return report;
+}
+
+function positiveInt(name: string, raw: string | undefined, fallback: number): number {
+  if (raw === undefined) return fallback;
+  const n = Number(raw);
+  if (!Number.isInteger(n) || n < 1) throw new UsageError(`--${name} must be a positive integer, got "${raw}"`);
+  return n;
+}
+
+// One pass over the suite against a fresh mock, so runs never see each other's namespaces
+async function runSuite(
+  anthropic: Anthropic,
+  model: string,
+  scenarios: Scenario[],
+  run: number,
+): Promise<{ results: ScenarioRun[]; system: string }> {
+  const mock = await startMockServer({ port: 0, latencyMs: MOCK_LATENCY_MS, quiet: true });
+  try {
+    const card = await fetchAgentCard(mock.url);
+    const client = new A2AClient({ baseUrl: mock.url, fetchWithPayment: fetch });
+    client.useAgentCard(card);
+    const tools = [buildPlanTool(), buildA2ATool(operationsFromCard(card))];
+    const system = buildSystemPrompt(card);
+
+    const messages: Anthropic.MessageParam[] = [];
+    const prompts: string[] = [];
+    const history: EvalCall[] = [];
+    const results: ScenarioRun[] = [];
+
+    for (const s of scenarios) {
+      if (s.newConversation) {
+        messages.length = 0;
+        prompts.length = 0;
+        history.length = 0;
+      }
+      const result: ScenarioRun = {
+        run,
+        title: s.title,
+        source: relative(process.cwd(), s.source),
+        calls: [],
+        checks: [],
+        expectations: [],
+        reply: null,
+        modelCalls: 0,
+        tokens: { input: 0, output: 0 },
+        durationMs: 0,
+      };
+      const t0 = Date.now();
+      process.stdout.write(chalk.gray(`  [${run}] ${s.title} … `));
+
+      try {
+        await runSetup(client, s.setup);
+        prompts.push(s.prompt);
+        const before = messages.length;
+        messages.push({ role: "user", content: s.prompt });
+        try {
+          result.reply = await runAgentTurn(anthropic, messages, {
+            model,
+            system,
+            tools,
+            onResponse: (response) => {
+              result.modelCalls++;
+              result.tokens.input += response.usage.input_tokens;
+              result.tokens.output += response.usage.output_tokens;
+            },
+            call: async ({ operation, params = {} }) => {
+              const started = Date.now();
+              let outcome: ToolOutcome;
+              let status: string;
+              try {
+                const task = await client.execute(operation, params);
+                outcome = taskOutcome(client, task);
+                status = task.status.state;
+              } catch (e) {
+                outcome = errorOutcome(e);
+                status = e instanceof Error ? e.name : "Error";
+              }
+              result.calls.push({
+                index: result.calls.length + 1,
+                operation,
+                params,
+                ok: !outcome.isError && status === "completed",
+                status,
+                durationMs: Date.now() - started,
+                result: outcome.content,
+              });
+              return outcome;
+            },
+          });
+        } catch (e) {
+          // Keep the conversation valid for the next scenario (no tool_use left without its result)
+          messages.length = before;
+          throw e;
+        }
+        result.expectations = await evaluateScenario(client, s, result.calls);
+      } catch (e) {
+        result.error = e instanceof Error ? e.message : String(e);
+      }
+
+      result.checks = scoreCalls(result.calls, { prompts, calls: history });
+      history.push(...result.calls);
+      result.durationMs = Date.now() - t0;
+      results.push(result);
+
+      const broken = result.checks.filter((c) => !c.ok).length + result.expectations.filter((e) => !e.ok).length;
+      const line = `${result.calls.length} calls · rules ${result.checks.length - result.checks.filter((c) => !c.ok).length}/${result.checks.length} · expectations ${result.expectations.filter((e) => e.ok).length}/${result.expectations.length}`;
+      process.stdout.write((result.error ? chalk.red(`error: ${result.error}`) : broken ? chalk.yellow(line) : chalk.green(line)) + "\n");
+    }
+    return { results, system };
+  } finally {
+    await mock.close();
+  }
+}
+
+async function main(): Promise<void> {
+  const args = parseArgs(process.argv.slice(2), { isBoolean: (name) => name === "help", short: { h: "help" } });
+  if (args.flags.has("help")) {
+    console.log(USAGE);
+    return;
+  }
+
+  if (args.positionals[0] === "compare") {
+    const paths = args.positionals.slice(1);
+    if (paths.length < 2) throw new UsageError("compare needs at least two reports");
+    console.log(renderComparison(paths.map(readReport)));
+    return;
+  }
+  if (args.positionals.length) throw new UsageError(`Unexpected argument "${args.positionals[0]}"`);
+
+  if (!process.env.ANTHROPIC_API_KEY) throw new UsageError("ANTHROPIC_API_KEY is not set");
+  const model = flagValue(args, "model") ?? MODEL;
+  const runs = positiveInt("runs", flagValue(args, "runs"), 1);
+  const label = flagValue(args, "label") ?? `${model}-${new Date().toISOString().slice(0, 19).replace(/[:T]/g, "")}`;
+  const out = flagValue(args, "out") ?? DEFAULT_OUT_DIR;
+  const baselinePath = flagValue(args, "baseline");
+  const baseline = baselinePath ? readReport(baselinePath) : undefined;
+  const minScoreRaw = flagValue(args, "min-score");
+  const minScore = minScoreRaw === undefined ? undefined : Number(minScoreRaw);
+  if (minScore !== undefined && !(minScore >= 0 && minScore <= 1)) throw new UsageError(`--min-score must be between 0 and 1, got "${minScoreRaw}"`);
+
+  const files = args.flags.get("scenario") ?? [];
+  const scenarios = files.length
+    ? files.flatMap(loadScenarioFile)
+    : loadScenarioDir(flagValue(args, "scenario-dir") ?? DEFAULT_SCENARIO_DIR);
+  if (!scenarios.length) throw new UsageError("No scenarios to run");
+
+  const anthropic = new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY });
+  console.log(chalk.cyan.bold(`\n  Agent eval — ${label}`));
+  console.log(chalk.gray(`  ${scenarios.length} scenario(s) × ${runs} run(s) · ${model}\n`));
+
+  const startedAt = new Date();
+  const results: ScenarioRun[] = [];
+  let system = "";
+  for (let run = 1; run <= runs; run++) {
+    const suite = await runSuite(anthropic, model, scenarios, run);
+    results.push(...suite.results);
+    system = suite.system;
+  }
+
+  const report: EvalReport = {
+    version: 1,
+    label,
+    model,
+    promptHash: createHash("sha256").update(system).digest("hex").slice(0, 12),
+    startedAt: startedAt.toISOString(),
+    durationMs: Date.now() - startedAt.getTime(),
+    runs,
+    scenarios: results,
+    summary: summarize(results),
+  };
+
+  mkdirSync(out, { recursive: true });
+  const base = join(out, label.replace(/[^A-Za-z0-9._-]/g, "_"));
+  writeFileSync(`${base}.json`, JSON.stringify(report, null, 2) + "\n");
+  writeFileSync(`${base}.md`, renderMarkdown(report, baseline));
+
+  console.log("\n" + renderComparison(baseline ? [baseline, report] : [report]) + "\n");
+  console.log(chalk.gray(`  Report: ${base}.json · ${base}.md\n`));
+
+  // A suite where no call triggered a rule has nothing to fail
+  const score = report.summary.score;
+  if (minScore !== undefined && score !== null && score < minScore) {
+    console.error(chalk.red(`  Rule score ${Math.round(score * 100)}% is below --min-score ${minScore}`));
+    process.exitCode = 1;
+  }
+}
+
+try {
+  await main();
+} catch (e) {
+  if (e instanceof UsageError || e instanceof ScenarioError) {
+    console.error(chalk.red(e.message));
+    if (e instanceof UsageError) console.error(USAGE);
+    process.exit(2);
+  }
+  throw e;
+}
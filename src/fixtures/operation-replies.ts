@@ -0,0 +1,78 @@
+// Corpus of "What operations are available?" replies from Willy covering every
+// table layout parseOperationTable must accept (and prose it must ignore)
+
+export interface OperationReplySample {
+  name: string;
+  reply: string;
+  expected: string[];
+}
+
+export const OPERATION_REPLIES: OperationReplySample[] = [
+  {
+    name: "backticked operation column",
+    reply: `Here are the operations you can call through A2A:
+
+| Operation | Parameters | Description |
+|-----------|------------|-------------|
+| \`credits_balance\` | - | Check your remaining credits |
+| \`chart_list\` | {} | List supported workload chart types |
+| \`namespace_create\` | name, allocatedCores | Create an isolated namespace |
+| \`namespace_list\` | - | List your namespaces |
+| \`deploy_create\` | namespaceId, name, image, chartType, port | Deploy a container image |
+| \`deploy_status\` | deploymentId | Get deployment status and replicas |
+
+Send them as \`{"operation": "...", "params": {...}}\`.`,
+    expected: ["credits_balance", "chart_list", "namespace_create", "namespace_list", "deploy_create", "deploy_status"],
+  },
+  {
+    name: "category column with bold group labels",
+    reply: `| **Category** | **Operation** | **Parameters** |
+|---|---|---|
+| **Namespace** | namespace_create | name, allocatedCores |
+| | namespace_list | - |
+| | namespace_get | namespaceId |
+| | namespace_delete | namespaceId |
+| **Deploy** | deploy_preflight | namespaceId, name, image, chartType |
+| | deploy_create | namespaceId, name, image, chartType, port |
+| | deploy_scale | deploymentId, replicas |
+| **Billing** | credits_balance | - |`,
+    expected: [
+      "namespace_create",
+      "namespace_list",
+      "namespace_get",
+      "namespace_delete",
+      "deploy_preflight",
+      "deploy_create",
+      "deploy_scale",
+      "credits_balance",
+    ],
+  },
+  {
+    name: "no outer pipes, bold operation names",
+    reply: `사용 가능한 작업 목록입니다:
+
+Operation | Params | 설명
+--- | --- | ---
+**deploy_logs** | deploymentId, tail? | 배포 로그 조회
+**deploy_events** | deploymentId | K8s 이벤트 조회
+**deploy_diagnose** | deploymentId | 배포 문제 진단
+**deploy_update_env** | deploymentId, env, merge? | 환경 변수 업데이트`,
+    expected: ["deploy_logs", "deploy_events", "deploy_diagnose", "deploy_update_env"],
+  },
+  {
+    name: "aligned separator and duplicate rows",
+    reply: `| Operation | Params | Notes |
+|:----------|:------:|------:|
+| \`deploy_stop\` | \`deploymentId\` | scale to 0 |
+| \`deploy_restart\` | \`deploymentId\` | restore replicas |
+| \`deploy_delete\` | \`deploymentId\` | irreversible |
+| \`deploy_stop\` | \`deploymentId\` | (listed twice by the model) |
+| \`deploy_list\` | \`namespaceId\` | |`,
+    expected: ["deploy_stop", "deploy_restart", "deploy_delete", "deploy_list"],
+  },
+  {
+    name: "prose only",
+    reply: "I can help you create namespaces, deploy containers and check your balance. What would you like to do?",
+    expected: [],
+  },
+];
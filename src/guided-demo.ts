@@ -3,11 +3,13 @@
 
 import * as readline from "readline";
 import chalk from "chalk";
-import { A2AClient } from "./lib/a2a-client.js";
+import { A2AClient, type ExecuteOptions } from "./lib/a2a-client.js";
+import type { OperationResult } from "./lib/operations.js";
 import { loadConfig } from "./lib/config.js";
+import { attachAgentCard } from "./lib/agent-card.js";
 import { header, subheader, success, error, info, json, divider } from "./lib/display.js";
 
-const config = loadConfig();
+const config = await loadConfig();
 const client = new A2AClient(config);
 
 const rl = readline.createInterface({
@@ -32,19 +34,21 @@ async function step(num: number, title: string, description: string, fn: () => P
   console.log();
 }
 
-async function callAndShow(operation: string, params: Record<string, unknown> = {}): Promise<unknown> {
-  console.log(chalk.gray(`  ─ Request ─────────────────────────────`));
-  console.log(chalk.gray(`  POST /a2a`));
-  console.log(chalk.gray(`  method: "message/send"`));
-  console.log(chalk.gray(`  operation: "${operation}"`));
-  if (Object.keys(params).length > 0) {
-    console.log(chalk.gray(`  params: ${JSON.stringify(params)}`));
-  }
-  console.log(chalk.gray(`  ───────────────────────────────────────`));
-  console.log();
-
-  const task = await client.send(operation, params);
-  const data = client.extractData(task);
+async function callAndShow<T>(run: (options: ExecuteOptions) => Promise<OperationResult<T>>): Promise<T | null> {
+  const { task, data } = await run({
+    onRequest: (operation, params) => {
+      console.log(chalk.gray(`  ─ Request ─────────────────────────────`));
+      console.log(chalk.gray(`  POST /a2a`));
+      console.log(chalk.gray(`  method: "${client.supportsStreaming ? "message/stream" : "message/send"}"`));
+      console.log(chalk.gray(`  operation: "${operation}"`));
+      if (Object.keys(params).length > 0) {
+        console.log(chalk.gray(`  params: ${JSON.stringify(params)}`));
+      }
+      console.log(chalk.gray(`  ───────────────────────────────────────`));
+      console.log();
+    },
+    onUpdate: (t) => info("Status", chalk.yellow(`${t.status.state} — tasks/get 폴링 중...`)),
+  });
 
   const stateColor = task.status.state === "completed" ? chalk.green : chalk.red;
   info("Task ID", task.id.slice(0, 8) + "...");
@@ -71,6 +75,9 @@ async function main() {
   info("Auth", "x402 Payment Protocol (dev bypass)");
   info("Server", config.baseUrl);
   info("Wallet", config.walletAddress);
+  info("Signer", config.signer);
+  const card = await attachAgentCard(client, config.baseUrl);
+  if (card) info("Agent", `${card.name} v${card.version}${card.capabilities.streaming ? " (streaming)" : ""}`);
   divider();
   console.log();
   explain("이 가이드는 A2A 프로토콜의 전체 배포 라이프사이클을 단계별로 보여줍니다.");
@@ -81,18 +88,18 @@ async function main() {
   // Step 1: Check balance
   let balance = "";
   await step(1, "크레딧 잔액 확인", "A2A 요청에는 x402 결제 프로토콜 인증이 필요합니다. 먼저 현재 잔액을 확인합니다.", async () => {
-    const data = await callAndShow("credits_balance") as Record<string, unknown> | null;
-    if (data) balance = String(data.balance);
+    const data = await callAndShow((o) => client.credits.balance(o));
+    if (data) balance = data.balance;
     success(`현재 잔액: $${balance}`);
   });
 
   // Step 2: List chart types
   await step(2, "차트 타입 조회", "Willform은 9가지 워크로드 타입을 지원합니다: web, database, queue, cache, storage, worker, cronjob, job, static-site", async () => {
-    const data = await callAndShow("chart_list") as Array<Record<string, unknown>> | null;
-    if (data && Array.isArray(data)) {
+    const data = await callAndShow((o) => client.chart.list(o));
+    if (data) {
       subheader("지원 차트 타입");
       for (const chart of data) {
-        console.log(`  ${chalk.cyan("●")} ${chalk.bold(String(chart.type).padEnd(14))} ${chalk.gray(String(chart.description ?? ""))}`);
+        console.log(`  ${chalk.cyan("●")} ${chalk.bold(chart.type.padEnd(14))} ${chalk.gray(chart.description ?? "")}`);
       }
     }
   });
@@ -101,13 +108,13 @@ async function main() {
   let namespaceId = "";
   let shortId = "";
   await step(3, "네임스페이스 생성", "배포를 위한 격리된 네임스페이스를 생성합니다. K8s 네임스페이스, 리소스 쿼터, NetworkPolicy가 자동으로 구성됩니다.", async () => {
-    const data = await callAndShow("namespace_create", {
+    const data = await callAndShow((o) => client.namespace.create({
       name: "a2a-demo",
       allocatedCores: 2,
-    }) as Record<string, unknown> | null;
+    }, o));
     if (data) {
-      namespaceId = String(data.id);
-      shortId = String(data.shortId);
+      namespaceId = data.id;
+      shortId = data.shortId;
       success(`네임스페이스 생성 완료`);
       info("ID", namespaceId);
       info("Short ID", shortId);
@@ -123,30 +130,30 @@ async function main() {
 
   // Step 4: Deploy preflight
   await step(4, "배포 사전 검증 (Preflight)", "실제 배포 전에 이미지 접근성, 쿼터, 비용 등을 사전 검증합니다.", async () => {
-    await callAndShow("deploy_preflight", {
+    await callAndShow((o) => client.deploy.preflight({
       namespaceId,
       name: "demo-web",
       image: "nginx:alpine",
       chartType: "web",
       port: 80,
-    });
+    }, o));
     success("사전 검증 통과");
   });
 
   // Step 5: Create deployment
   let deploymentId = "";
   await step(5, "배포 생성", "nginx:alpine 이미지로 web 워크로드를 배포합니다. ArgoCD + Helm으로 K8s에 배포됩니다.", async () => {
-    const data = await callAndShow("deploy_create", {
+    const data = await callAndShow((o) => client.deploy.create({
       namespaceId,
       name: "demo-web",
       image: "nginx:alpine",
       chartType: "web",
       port: 80,
-    }) as Record<string, unknown> | null;
+    }, o));
     if (data) {
-      deploymentId = String(data.deploymentId ?? data.id);
+      deploymentId = data.deploymentId;
       success(`배포 생성 완료: ${deploymentId}`);
-      info("Status", String(data.status));
+      info("Status", data.status);
     }
   });
 
@@ -158,15 +165,15 @@ async function main() {
 
   // Step 6: Check status
   await step(6, "배포 상태 확인", "배포 상태, 리플리카, 도메인 정보를 확인합니다.", async () => {
-    await callAndShow("deploy_status", { deploymentId });
+    await callAndShow((o) => client.deploy.status({ deploymentId }, o));
   });
 
   // Step 7: Scale
   await step(7, "스케일링", "리플리카 수를 3으로 스케일합니다.", async () => {
-    const data = await callAndShow("deploy_scale", {
+    const data = await callAndShow((o) => client.deploy.scale({
       deploymentId,
       replicas: 3,
-    }) as Record<string, unknown> | null;
+    }, o));
     if (data) {
       success(`리플리카 수: ${data.replicas}`);
     }
@@ -174,38 +181,38 @@ async function main() {
 
   // Step 8: Update env
   await step(8, "환경 변수 업데이트", "배포의 환경 변수를 추가/수정합니다.", async () => {
-    await callAndShow("deploy_update_env", {
+    await callAndShow((o) => client.deploy.updateEnv({
       deploymentId,
       env: { DEMO_KEY: "hello-a2a", NODE_ENV: "production" },
       merge: true,
-    });
+    }, o));
     success("환경 변수 업데이트 완료");
   });
 
   // Step 9: Diagnose
   await step(9, "배포 진단", "배포 상태를 진단하고 잠재적 문제를 식별합니다.", async () => {
-    await callAndShow("deploy_diagnose", { deploymentId });
+    await callAndShow((o) => client.deploy.diagnose({ deploymentId }, o));
   });
 
   // Step 10: Events
   await step(10, "K8s 이벤트 조회", "배포와 관련된 Kubernetes 이벤트를 확인합니다.", async () => {
-    await callAndShow("deploy_events", { deploymentId });
+    await callAndShow((o) => client.deploy.events({ deploymentId }, o));
   });
 
   // Step 11: Stop and restart
   await step(11, "배포 중지 & 재시작", "배포를 중지했다가 다시 시작합니다. replicas=0으로 설정 후 복원합니다.", async () => {
     subheader("Stop");
-    await callAndShow("deploy_stop", { deploymentId });
+    await callAndShow((o) => client.deploy.stop({ deploymentId }, o));
     console.log();
     await ask("  재시작하려면 Enter...");
     subheader("Restart");
-    await callAndShow("deploy_restart", { deploymentId });
+    await callAndShow((o) => client.deploy.restart({ deploymentId }, o));
     success("배포 재시작 완료");
   });
 
   // Step 12: List deployments
   await step(12, "배포 목록 조회", "네임스페이스의 모든 배포를 조회합니다.", async () => {
-    await callAndShow("deploy_list", { namespaceId });
+    await callAndShow((o) => client.deploy.list({ namespaceId }, o));
   });
 
   // Step 13: Cleanup
@@ -213,9 +220,9 @@ async function main() {
     const doCleanup = await ask("  리소스를 삭제할까요? (Y/n)");
     if (doCleanup.toLowerCase() !== "n") {
       subheader("Deleting deployment");
-      await callAndShow("deploy_delete", { deploymentId });
+      await callAndShow((o) => client.deploy.delete({ deploymentId }, o));
       subheader("Deleting namespace");
-      await callAndShow("namespace_delete", { namespaceId });
+      await callAndShow((o) => client.namespace.delete({ namespaceId }, o));
       success("정리 완료");
     } else {
       info("Skipped", "리소스가 유지됩니다.");
@@ -224,15 +231,17 @@ async function main() {
 
   // Step 14: Final balance
   await step(14, "최종 잔액 확인", "데모 후 크레딧 잔액 변화를 확인합니다.", async () => {
-    const data = await callAndShow("credits_balance") as Record<string, unknown> | null;
+    const data = await callAndShow((o) => client.credits.balance(o));
     if (data) {
-      const finalBalance = String(data.balance);
+      const finalBalance = data.balance;
       info("시작 잔액", `$${balance}`);
       info("현재 잔액", `$${finalBalance}`);
       const diff = parseFloat(balance) - parseFloat(finalBalance);
       if (diff > 0) {
         info("사용 금액", `$${diff.toFixed(8)}`);
       }
+      info("x402 결제", `${config.policy.spentThisSession} USDC (이번 세션)`);
+      if (config.ledger) info("결제 원장", `${config.ledger.path} — pnpm a2a ledger`);
     }
   });
 
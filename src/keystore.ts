@@ -0,0 +1,38 @@
+#!/usr/bin/env tsx
+// Encrypt a private key into a JSON keystore so it no longer has to live in .env
+//
+// Usage:
+//   npx tsx src/keystore.ts [output path]   (default ~/.willform/wallet.json)
+//
+// Then set WALLET_KEYSTORE=<output path> and remove WALLET_PRIVATE_KEY from .env.
+
+import { existsSync, mkdirSync, writeFileSync } from "fs";
+import { homedir } from "os";
+import { dirname, join } from "path";
+import { privateKeyToAccount } from "viem/accounts";
+import { encryptKeystore, promptHidden } from "./lib/signer.js";
+
+const output = process.argv[2] ?? join(homedir(), ".willform", "wallet.json");
+
+if (existsSync(output)) {
+  console.error(`${output} already exists — refusing to overwrite`);
+  process.exit(1);
+}
+
+try {
+  const raw = (process.env.WALLET_PRIVATE_KEY ?? (await promptHidden("Private key (0x...): "))).trim();
+  const privateKey = (raw.startsWith("0x") ? raw : `0x${raw}`) as `0x${string}`;
+  const { address } = privateKeyToAccount(privateKey);
+
+  const passphrase = await promptHidden("New passphrase: ");
+  if (passphrase.length < 8) throw new Error("Passphrase must be at least 8 characters");
+  if ((await promptHidden("Repeat passphrase: ")) !== passphrase) throw new Error("Passphrases do not match");
+
+  mkdirSync(dirname(output), { recursive: true });
+  writeFileSync(output, encryptKeystore(privateKey, passphrase) + "\n", { mode: 0o600 });
+  console.log(`Wrote keystore for ${address} to ${output}`);
+  console.log(`Set WALLET_KEYSTORE=${output} and remove WALLET_PRIVATE_KEY from .env`);
+} catch (e) {
+  console.error(`Error: ${e instanceof Error ? e.message : e}`);
+  process.exit(1);
+}
@@ -0,0 +1,54 @@
+// Recovery paths of the client: a stream that times out mid-task, and batches sent to a server without batch support
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { A2AClient, type A2AStreamEvent } from "./a2a-client.js";
+import { startMockServer } from "../mock/server.js";
+
+// fetch that notes the Idempotency-Key of every request it sends
+function recordingFetch(keys: Array<string | null>): typeof fetch {
+  return (input, init) => {
+    keys.push(new Headers(init?.headers).get("idempotency-key"));
+    return fetch(input, init);
+  };
+}
+
+test("streamTask: a stream that times out after naming the task is followed by polling", async () => {
+  // namespace_create is slow: the stream stays quiet for latencyMs after its first events
+  const mock = await startMockServer({ port: 0, latencyMs: 1_500, quiet: true });
+  try {
+    const client = new A2AClient({ baseUrl: mock.url, fetchWithPayment: fetch, transport: { streamTimeoutMs: 400 } });
+    const events: A2AStreamEvent["kind"][] = [];
+    const task = await client.streamTask("namespace_create", { name: "polled" }, { onEvent: (e) => events.push(e.kind) });
+    assert.equal(task.status.state, "completed");
+    // What the stream delivered, then the task as tasks/get reported it
+    assert.deepEqual(events, ["task", "status-update", "task"]);
+  } finally {
+    await mock.close();
+  }
+});
+
+test("batch: without batch support every call is sent with its own idempotency key", async () => {
+  const mock = await startMockServer({ port: 0, latencyMs: 0, quiet: true, batch: false });
+  try {
+    const keys: Array<string | null> = [];
+    const client = new A2AClient({ baseUrl: mock.url, fetchWithPayment: recordingFetch(keys) });
+
+    const calls = [client.operationCall("namespace_create", { name: "first" }), client.operationCall("namespace_create", { name: "second" })];
+    const messageIds = calls.map((c) => (c.params?.message as { messageId: string }).messageId);
+    const created = await client.batch(calls, { idempotencyKey: "batch-1" });
+    // The rejected batch, then each message under its own messageId
+    assert.deepEqual(keys, ["batch-1", ...messageIds]);
+    const ids = created.map((r) => (r.ok ? r.task.id : null));
+    assert.equal(new Set(ids).size, 2, "the second call was answered with the first one's task");
+
+    // Entries without a messageId get <key>:<index>; with no key given one is generated
+    keys.length = 0;
+    await client.batch(ids.map((id) => ({ method: "tasks/get", params: { id } })));
+    assert.equal(keys.length, 2);
+    const [base] = keys[0]!.split(":");
+    assert.deepEqual(keys, [`${base}:0`, `${base}:1`]);
+  } finally {
+    await mock.close();
+  }
+});
@@ -1,84 +1,442 @@
 // A2A JSON-RPC 2.0 client for Willform Deploy Agent
 
+import { randomUUID } from "crypto";
+import { parseSSE } from "./sse.js";
+import { createOperations, type WillformOperations } from "./operations.js";
+import type { AgentCard } from "./agent-card.js";
+import { Session, type SessionOptions } from "./session.js";
+import { fetchWithRetry, transportDefaults, type TransportOptions } from "./retry.js";
+import { A2AError, PaymentRequiredError, TaskTimeoutError, TransportError, jsonRpcError, statusMessageText } from "./errors.js";
+
 export interface A2AClientConfig {
   baseUrl: string;
   fetchWithPayment: typeof fetch;
+  agentCard?: AgentCard;
+  transport?: TransportOptions;
+}
+
+export interface A2AArtifact {
+  artifactId: string;
+  name: string;
+  parts: Array<{ kind: string; text: string }>;
 }
 
 export interface A2ATask {
   id: string;
   contextId: string;
-  status: { state: string; timestamp: string };
-  artifacts: Array<{
-    artifactId: string;
-    name: string;
-    parts: Array<{ kind: string; text: string }>;
-  }>;
+  // message: why the task ended up in this state (an A2A Message), when the server says
+  status: { state: string; timestamp: string; message?: unknown };
+  artifacts: A2AArtifact[];
   history: Array<{ state: string; timestamp: string; message?: string }>;
   metadata?: { lowBalanceWarning?: { balance: string; message: string } };
 }
 
-interface JsonRpcResponse {
+// message/stream events (A2A spec: Task, TaskStatusUpdateEvent, TaskArtifactUpdateEvent)
+export interface TaskStatusUpdateEvent {
+  kind: "status-update";
+  taskId: string;
+  contextId: string;
+  status: { state: string; timestamp: string; message?: unknown };
+  final: boolean;
+}
+
+export interface TaskArtifactUpdateEvent {
+  kind: "artifact-update";
+  taskId: string;
+  contextId: string;
+  artifact: A2AArtifact;
+  append?: boolean;
+  lastChunk?: boolean;
+}
+
+export type A2AStreamEvent = (A2ATask & { kind: "task" }) | TaskStatusUpdateEvent | TaskArtifactUpdateEvent;
+
+// Task states after which tasks/get will never report a change
+export const TERMINAL_STATES: ReadonlySet<string> = new Set(["completed", "failed", "canceled", "rejected"]);
+
+export function isTerminalState(state: string): boolean {
+  return TERMINAL_STATES.has(state);
+}
+
+// Task states that wait on the caller (more input, or credentials); polling will not move them on
+export const INTERRUPTED_STATES: ReadonlySet<string> = new Set(["input-required", "auth-required"]);
+
+export function isInterruptedState(state: string): boolean {
+  return INTERRUPTED_STATES.has(state);
+}
+
+export interface WaitForTaskOptions {
+  timeoutMs?: number;
+  intervalMs?: number;
+  onUpdate?: (task: A2ATask) => void;
+}
+
+// Per-call transport settings
+export interface CallOptions {
+  timeoutMs?: number;
+  // Sent as Idempotency-Key and messageId; every retry of one call reuses it so the server acts (and charges) once.
+  // Generated per call when omitted; pass one to make retries across processes safe too.
+  idempotencyKey?: string;
+}
+
+// Where the server should POST task updates (A2A PushNotificationConfig); see push.ts for a receiver
+export interface PushNotificationConfig {
+  id?: string;
+  url: string;
+  // Echoed back in X-A2A-Notification-Token so the receiver can tell real notifications from strays
+  token?: string;
+  authentication?: { schemes: string[]; credentials?: string };
+}
+
+export interface TaskPushNotificationConfig {
+  taskId: string;
+  pushNotificationConfig: PushNotificationConfig;
+}
+
+export interface SendOptions extends CallOptions {
+  // Registered with the message itself, so no update between send and registration is missed
+  pushNotification?: PushNotificationConfig;
+}
+
+export interface ExecuteOptions extends SendOptions {
+  contextId?: string;
+  onRequest?: (operation: string, params: Record<string, unknown>) => void;
+  onEvent?: (event: A2AStreamEvent) => void;
+  onUpdate?: (task: A2ATask) => void;
+}
+
+export interface BatchCall {
+  method: string;
+  params?: Record<string, unknown>;
+}
+
+export type BatchResult = { ok: true; task: A2ATask } | { ok: false; error: Error };
+
+interface JsonRpcRequest {
+  jsonrpc: "2.0";
+  method: string;
+  params: Record<string, unknown>;
+  id: number;
+}
+
+interface JsonRpcResponse<T = A2ATask> {
   jsonrpc: string;
-  result?: A2ATask;
+  result?: T;
   error?: { code: number; message: string };
   id: string | number;
 }
 
+// Errors thrown below the JSON-RPC layer, normalised; anything else (e.g. a spending-policy refusal) passes through
+function transportFailure(err: unknown, timeoutMs: number): unknown {
+  if (!(err instanceof Error)) return err;
+  if (err.name === "TimeoutError" || err.name === "AbortError") {
+    return new TransportError(`No response within ${timeoutMs}ms`, { timedOut: true, cause: err });
+  }
+  // @x402/fetch reports a payment it could not create or that a client hook aborted this way
+  if (/^Failed to create payment payload/.test(err.message)) return new PaymentRequiredError(err.message, { cause: err });
+  if (err instanceof TypeError) {
+    const cause = (err as { cause?: { code?: string; message?: string } }).cause;
+    return new TransportError(`Network error: ${cause?.code ?? cause?.message ?? err.message}`, { cause: err });
+  }
+  return err;
+}
+
+function decodePaymentRequired(header: string | null): Record<string, unknown> | undefined {
+  if (!header) return undefined;
+  try {
+    return JSON.parse(Buffer.from(header, "base64").toString("utf8")) as Record<string, unknown>;
+  } catch {
+    return undefined;
+  }
+}
+
+// HTTP statuses some servers use to refuse a batch array outright
+const BATCH_REJECTED_STATUS: ReadonlySet<number> = new Set([400, 415, 501]);
+
+function batchResult(response: JsonRpcResponse, call: BatchCall): BatchResult {
+  if (response.error) {
+    const id = call.params?.id;
+    return { ok: false, error: jsonRpcError(response.error, typeof id === "string" ? id : undefined) };
+  }
+  if (!response.result) return { ok: false, error: new TransportError(`Empty response to ${call.method}`) };
+  return { ok: true, task: response.result };
+}
+
 export class A2AClient {
   private baseUrl: string;
   private fetch: typeof fetch;
   private rpcId = 0;
+  private card: AgentCard | null;
+  private transport: ReturnType<typeof transportDefaults>;
+  // Learned from the first batch(); null until then
+  private batchSupported: boolean | null = null;
+
+  // Typed operation groups, e.g. client.deploy.create({ ... })
+  readonly credits: WillformOperations["credits"];
+  readonly chart: WillformOperations["chart"];
+  readonly namespace: WillformOperations["namespace"];
+  readonly deploy: WillformOperations["deploy"];
 
   constructor(config: A2AClientConfig) {
     this.baseUrl = config.baseUrl.replace(/\/$/, "");
     this.fetch = config.fetchWithPayment;
+    this.card = config.agentCard ?? null;
+    this.transport = transportDefaults(config.transport);
+
+    const ops = createOperations(this);
+    this.credits = ops.credits;
+    this.chart = ops.chart;
+    this.namespace = ops.namespace;
+    this.deploy = ops.deploy;
   }
 
-  private async rpc(method: string, params: Record<string, unknown>): Promise<JsonRpcResponse> {
-    const res = await this.fetch(`${this.baseUrl}/a2a`, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        jsonrpc: "2.0",
-        method,
-        params,
-        id: ++this.rpcId,
-      }),
-      signal: AbortSignal.timeout(60_000),
-    });
+  // Adapt to the server's advertised capabilities (e.g. skip message/stream when unsupported)
+  useAgentCard(card: AgentCard): void {
+    this.card = card;
+  }
+
+  get agentCard(): AgentCard | null {
+    return this.card;
+  }
 
+  get endpoint(): string {
+    return this.baseUrl;
+  }
+
+  // A conversation that carries Willy's contextId from one message to the next
+  session(options: SessionOptions = {}): Session {
+    return new Session(this, options);
+  }
+
+  // Without a card we optimistically assume streaming; sendStream tolerates plain JSON replies
+  get supportsStreaming(): boolean {
+    return this.card?.capabilities.streaming !== false;
+  }
+
+  // Unlike streaming, push is opt-in in the spec: without a card, let the server answer for itself
+  get supportsPushNotifications(): boolean {
+    return this.card?.capabilities.pushNotifications !== false;
+  }
+
+  // POSTs one JSON-RPC request, retrying 429/502/503 and dropped connections; each attempt gets a fresh timeout
+  private async post(
+    body: JsonRpcRequest | JsonRpcRequest[],
+    options: { stream?: boolean; timeoutMs?: number; idempotencyKey?: string } = {},
+  ): Promise<Response> {
+    const timeoutMs = options.timeoutMs ?? (options.stream ? this.transport.streamTimeoutMs : this.transport.timeoutMs);
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    if (options.stream) headers.Accept = "text/event-stream";
+    if (options.idempotencyKey) headers["Idempotency-Key"] = options.idempotencyKey;
+
+    let res: Response;
+    try {
+      res = await fetchWithRetry(
+        () =>
+          this.fetch(`${this.baseUrl}/a2a`, {
+            method: "POST",
+            headers,
+            body: JSON.stringify(body),
+            signal: AbortSignal.timeout(timeoutMs),
+          }),
+        this.transport,
+      );
+    } catch (err) {
+      throw transportFailure(err, timeoutMs);
+    }
+
+    if (res.status === 402) {
+      const body = await res.text().catch(() => "");
+      const requirements = decodePaymentRequired(res.headers.get("payment-required"));
+      const reason = typeof requirements?.error === "string" ? requirements.error : null;
+      throw new PaymentRequiredError(`HTTP 402: ${reason ? `payment rejected (${reason})` : body}`, { body, requirements });
+    }
     if (!res.ok) {
-      const text = await res.text().catch(() => "");
-      throw new Error(`HTTP ${res.status}: ${text}`);
+      const body = await res.text().catch(() => "");
+      throw new TransportError(`HTTP ${res.status}: ${body}`, { status: res.status, body });
+    }
+    return res;
+  }
+
+  private async rpc<T = A2ATask>(method: string, params: Record<string, unknown>, call: CallOptions = {}): Promise<JsonRpcResponse<T>> {
+    const res = await this.post({ jsonrpc: "2.0", method, params, id: ++this.rpcId }, call);
+    return res.json() as Promise<JsonRpcResponse<T>>;
+  }
+
+  // The message/send entry for an operation, for use with batch()
+  operationCall(operation: string, params: Record<string, unknown> = {}, contextId?: string): BatchCall {
+    return { method: "message/send", params: this.messageParams(JSON.stringify({ operation, params }), contextId, randomUUID()) };
+  }
+
+  // Sends several calls as one JSON-RPC batch (one round trip, one x402 payment) and returns a result or error per call,
+  // in the order given. Servers that reject batches get the calls one by one instead, now and for the client's lifetime.
+  // Transport failures throw; only JSON-RPC errors are reported per entry.
+  async batch(calls: BatchCall[], call: CallOptions = {}): Promise<BatchResult[]> {
+    if (calls.length === 0) return [];
+    const idempotencyKey = call.idempotencyKey ?? randomUUID();
+
+    if (this.batchSupported !== false) {
+      const requests = calls.map((c): JsonRpcRequest => ({ jsonrpc: "2.0", method: c.method, params: c.params ?? {}, id: ++this.rpcId }));
+      let body: unknown;
+      try {
+        const res = await this.post(requests, { ...call, idempotencyKey });
+        body = await res.json();
+      } catch (err) {
+        // Some servers refuse an array body at the HTTP level rather than with a JSON-RPC error
+        if (!(err instanceof TransportError && BATCH_REJECTED_STATUS.has(err.status ?? 0))) throw err;
+      }
+      if (Array.isArray(body)) {
+        this.batchSupported = true;
+        const byId = new Map((body as JsonRpcResponse[]).map((r) => [r.id, r]));
+        return requests.map((req, i) => {
+          const response = byId.get(req.id);
+          if (!response) return { ok: false, error: new TransportError(`No response to batch entry ${i} (${req.method})`) };
+          return batchResult(response, calls[i]);
+        });
+      }
+      // One error object (or an HTTP rejection) for the whole array: this server does not do batches
+      this.batchSupported = false;
     }
 
-    return res.json() as Promise<JsonRpcResponse>;
+    // Each call is its own request now, so each needs its own key; one shared key would replay the first call's answer
+    const results: BatchResult[] = [];
+    for (const [i, c] of calls.entries()) {
+      const messageId = (c.params?.message as { messageId?: unknown } | undefined)?.messageId;
+      const key = typeof messageId === "string" ? messageId : `${idempotencyKey}:${i}`;
+      results.push(batchResult(await this.rpc(c.method, c.params ?? {}, { ...call, idempotencyKey: key }), c));
+    }
+    return results;
   }
 
-  async sendText(text: string, contextId?: string): Promise<A2ATask> {
+  // Runs operations through batch() and waits for any still running, like execute() does for one
+  async executeBatch(
+    operations: Array<{ operation: string; params?: Record<string, unknown> }>,
+    options: CallOptions & { contextId?: string } = {},
+  ): Promise<BatchResult[]> {
+    const calls = operations.map((op) => this.operationCall(op.operation, op.params, options.contextId));
+    const results = await this.batch(calls, options);
+    for (const result of results) {
+      if (result.ok && !isTerminalState(result.task.status.state) && !isInterruptedState(result.task.status.state)) {
+        result.task = await this.waitForTask(result.task.id);
+      }
+    }
+    return results;
+  }
+
+  // message/send and message/stream params; the messageId doubles as the idempotency key
+  private messageParams(
+    text: string,
+    contextId: string | undefined,
+    messageId: string,
+    pushNotification?: PushNotificationConfig,
+  ): Record<string, unknown> {
     const rpcParams: Record<string, unknown> = {
       message: {
         role: "user",
+        messageId,
         parts: [{ kind: "text", text }],
       },
     };
     if (contextId) rpcParams.contextId = contextId;
+    if (pushNotification) rpcParams.configuration = { pushNotificationConfig: pushNotification };
+    return rpcParams;
+  }
 
-    const response = await this.rpc("message/send", rpcParams);
+  async sendText(text: string, contextId?: string, call: SendOptions = {}): Promise<A2ATask> {
+    const idempotencyKey = call.idempotencyKey ?? randomUUID();
+    const rpcParams = this.messageParams(text, contextId, idempotencyKey, call.pushNotification);
+    const response = await this.rpc("message/send", rpcParams, { ...call, idempotencyKey });
 
     if (response.error) {
-      throw new Error(`A2A error [${response.error.code}]: ${response.error.message}`);
+      throw jsonRpcError(response.error);
     }
     if (!response.result) {
-      throw new Error("Empty response from A2A endpoint");
+      throw new TransportError("Empty response from A2A endpoint");
     }
 
     return response.result;
   }
 
+  // Streams message/stream events as they arrive over SSE
+  async *sendStream(
+    operation: string,
+    params: Record<string, unknown> = {},
+    contextId?: string,
+    call: SendOptions = {},
+  ): AsyncGenerator<A2AStreamEvent> {
+    if (!this.supportsStreaming) {
+      throw new A2AError(`${this.card?.name ?? "Agent"} does not support message/stream (capabilities.streaming is false)`);
+    }
+
+    // Only opening the stream is retried; resending would start the operation a second time
+    const idempotencyKey = call.idempotencyKey ?? randomUUID();
+    const rpcParams = this.messageParams(JSON.stringify({ operation, params }), contextId, idempotencyKey, call.pushNotification);
+    const res = await this.post(
+      { jsonrpc: "2.0", method: "message/stream", params: rpcParams, id: ++this.rpcId },
+      { stream: true, timeoutMs: call.timeoutMs, idempotencyKey },
+    );
+
+    // Servers without streaming may answer with a plain JSON-RPC response
+    if (!res.headers.get("content-type")?.includes("text/event-stream") || !res.body) {
+      const response = (await res.json()) as JsonRpcResponse;
+      if (response.error) {
+        throw jsonRpcError(response.error);
+      }
+      if (!response.result) {
+        throw new TransportError("Empty response from A2A endpoint");
+      }
+      yield { ...response.result, kind: "task" };
+      return;
+    }
+
+    // Once an event has named the task it keeps running on the server, so a stream that breaks, times out or
+    // ends early is followed by polling tasks/get; before that there is nothing to recover
+    let taskId: string | undefined;
+    let state: string | undefined;
+    try {
+      for await (const message of parseSSE(res.body)) {
+        const response = JSON.parse(message.data) as JsonRpcResponse<A2AStreamEvent>;
+        if (response.error) {
+          throw jsonRpcError(response.error);
+        }
+        if (!response.result) continue;
+        const event = response.result;
+        taskId ??= event.kind === "task" ? event.id : event.taskId;
+        if (event.kind !== "artifact-update") state = event.status.state;
+        yield event;
+        if (event.kind === "status-update" && event.final) return;
+      }
+    } catch (err) {
+      if (err instanceof A2AError) throw err;
+      if (!taskId) {
+        const failure = transportFailure(err, call.timeoutMs ?? this.transport.streamTimeoutMs);
+        if (failure instanceof A2AError) throw failure;
+        throw new TransportError(`Event stream failed: ${err instanceof Error ? err.message : String(err)}`, { cause: err });
+      }
+    }
+
+    if (!taskId || (state && (isTerminalState(state) || isInterruptedState(state)))) return;
+    yield { ...(await this.waitForTask(taskId)), kind: "task" };
+  }
+
+  // Consumes sendStream and folds its events into a single task
+  async streamTask(
+    operation: string,
+    params: Record<string, unknown> = {},
+    options: SendOptions & { contextId?: string; onEvent?: (event: A2AStreamEvent) => void } = {},
+  ): Promise<A2ATask> {
+    let task: A2ATask | null = null;
+
+    for await (const event of this.sendStream(operation, params, options.contextId, options)) {
+      options.onEvent?.(event);
+      task = applyStreamEvent(task, event);
+    }
+
+    if (!task) {
+      throw new TransportError("Empty response from A2A endpoint");
+    }
+    return task;
+  }
+
   extractText(task: A2ATask): string {
     if (!task.artifacts?.length) return "(응답 없음)";
     const textPart = task.artifacts[0].parts.find((p) => p.kind === "text");
@@ -96,22 +454,16 @@ export class A2AClient {
     }
   }
 
-  async send(operation: string, params: Record<string, unknown> = {}, contextId?: string): Promise<A2ATask> {
-    const rpcParams: Record<string, unknown> = {
-      message: {
-        role: "user",
-        parts: [{ kind: "text", text: JSON.stringify({ operation, params }) }],
-      },
-    };
-    if (contextId) rpcParams.contextId = contextId;
-
-    const response = await this.rpc("message/send", rpcParams);
+  async send(operation: string, params: Record<string, unknown> = {}, contextId?: string, call: SendOptions = {}): Promise<A2ATask> {
+    const idempotencyKey = call.idempotencyKey ?? randomUUID();
+    const rpcParams = this.messageParams(JSON.stringify({ operation, params }), contextId, idempotencyKey, call.pushNotification);
+    const response = await this.rpc("message/send", rpcParams, { ...call, idempotencyKey });
 
     if (response.error) {
-      throw new Error(`A2A error [${response.error.code}]: ${response.error.message}`);
+      throw jsonRpcError(response.error);
     }
     if (!response.result) {
-      throw new Error("Empty response from A2A endpoint");
+      throw new TransportError("Empty response from A2A endpoint");
     }
 
     return response.result;
@@ -121,20 +473,83 @@ export class A2AClient {
     const response = await this.rpc("tasks/get", { id: taskId });
 
     if (response.error) {
-      throw new Error(`A2A error [${response.error.code}]: ${response.error.message}`);
+      throw jsonRpcError(response.error);
     }
     return response.result!;
   }
 
+  // Streams an operation (or sends it, if the card disables streaming) and polls until the task is terminal
+  async execute(
+    operation: string,
+    params: Record<string, unknown> = {},
+    options: ExecuteOptions = {},
+  ): Promise<A2ATask> {
+    options.onRequest?.(operation, params);
+    let task = this.supportsStreaming
+      ? await this.streamTask(operation, params, options)
+      : await this.send(operation, params, options.contextId, options);
+    if (!isTerminalState(task.status.state) && !isInterruptedState(task.status.state)) {
+      task = await this.waitForTask(task.id, { onUpdate: options.onUpdate });
+    }
+    return task;
+  }
+
+  // Polls tasks/get with exponential backoff until the task reaches a terminal state. A task that stops on
+  // input-required or auth-required is returned as it is, since no amount of polling will move it on.
+  async waitForTask(taskId: string, options: WaitForTaskOptions = {}): Promise<A2ATask> {
+    const { timeoutMs = 120_000, intervalMs = 1_000, onUpdate } = options;
+    const deadline = Date.now() + timeoutMs;
+    let delay = intervalMs;
+
+    while (true) {
+      const task = await this.getTask(taskId);
+      onUpdate?.(task);
+      if (isTerminalState(task.status.state) || isInterruptedState(task.status.state)) return task;
+
+      if (Date.now() + delay > deadline) {
+        throw new TaskTimeoutError(task, timeoutMs);
+      }
+      await new Promise<void>((r) => setTimeout(r, delay));
+      delay = Math.min(delay * 2, 10_000);
+    }
+  }
+
   async cancelTask(taskId: string): Promise<A2ATask> {
     const response = await this.rpc("tasks/cancel", { id: taskId });
 
     if (response.error) {
-      throw new Error(`A2A error [${response.error.code}]: ${response.error.message}`);
+      throw jsonRpcError(response.error, taskId);
     }
     return response.result!;
   }
 
+  // Registers (or replaces) where the server pushes updates for a task that is already running
+  async setPushNotification(taskId: string, config: PushNotificationConfig): Promise<TaskPushNotificationConfig> {
+    this.requirePushNotifications();
+    const response = await this.rpc<TaskPushNotificationConfig>("tasks/pushNotificationConfig/set", { taskId, pushNotificationConfig: config });
+
+    if (response.error) {
+      throw jsonRpcError(response.error, taskId);
+    }
+    return response.result!;
+  }
+
+  async getPushNotification(taskId: string): Promise<TaskPushNotificationConfig> {
+    this.requirePushNotifications();
+    const response = await this.rpc<TaskPushNotificationConfig>("tasks/pushNotificationConfig/get", { id: taskId });
+
+    if (response.error) {
+      throw jsonRpcError(response.error, taskId);
+    }
+    return response.result!;
+  }
+
+  private requirePushNotifications(): void {
+    if (!this.supportsPushNotifications) {
+      throw new A2AError(`${this.card?.name ?? "Agent"} does not support push notifications (capabilities.pushNotifications is false)`);
+    }
+  }
+
   extractData(task: A2ATask): unknown {
     if (!task.artifacts?.length) return null;
     const textPart = task.artifacts[0].parts.find((p) => p.kind === "text");
@@ -146,3 +561,50 @@ export class A2AClient {
     }
   }
 }
+
+export function eventState(event: A2AStreamEvent): string | null {
+  if (event.kind === "task" || event.kind === "status-update") return event.status.state;
+  return null;
+}
+
+export function applyStreamEvent(task: A2ATask | null, event: A2AStreamEvent): A2ATask {
+  if (event.kind === "task") {
+    const { kind: _kind, ...rest } = event;
+    return { ...rest, artifacts: rest.artifacts ?? [], history: rest.history ?? [] };
+  }
+
+  const base: A2ATask = task ?? {
+    id: event.taskId,
+    contextId: event.contextId,
+    status: { state: "submitted", timestamp: new Date().toISOString() },
+    artifacts: [],
+    history: [],
+  };
+
+  if (event.kind === "status-update") {
+    // Keep the whole status: its message is the server's reason for a failed or rejected task
+    const message = statusMessageText(event.status.message);
+    return {
+      ...base,
+      status: event.status,
+      history: [...base.history, { state: event.status.state, timestamp: event.status.timestamp, ...(message ? { message } : {}) }],
+    };
+  }
+
+  const existing = base.artifacts.find((a) => a.artifactId === event.artifact.artifactId);
+  if (existing && event.append) {
+    // Text chunks continue the previous text part so extractData sees one payload
+    const parts = [...existing.parts];
+    for (const part of event.artifact.parts) {
+      const last = parts[parts.length - 1];
+      if (last?.kind === "text" && part.kind === "text") parts[parts.length - 1] = { ...last, text: last.text + part.text };
+      else parts.push(part);
+    }
+    const merged = { ...existing, parts };
+    return { ...base, artifacts: base.artifacts.map((a) => (a === existing ? merged : a)) };
+  }
+  return {
+    ...base,
+    artifacts: [...base.artifacts.filter((a) => a.artifactId !== event.artifact.artifactId), event.artifact],
+  };
+}
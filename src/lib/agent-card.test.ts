@@ -0,0 +1,15 @@
+// Every recorded operations reply must parse to exactly the operations it lists, in order
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { parseOperationTable } from "./agent-card.js";
+import { OPERATION_REPLIES } from "../fixtures/operation-replies.js";
+
+for (const sample of OPERATION_REPLIES) {
+  test(`parseOperationTable: ${sample.name}`, () => {
+    assert.deepEqual(
+      parseOperationTable(sample.reply).map((op) => op.operation),
+      sample.expected,
+    );
+  });
+}
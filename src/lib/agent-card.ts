@@ -2,43 +2,270 @@
 
 import type { A2AClient } from "./a2a-client.js";
 
+// Subset of JSON Schema used by skill inputSchema definitions
+export interface JsonSchema {
+  type?: string | string[];
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  enum?: unknown[];
+  default?: unknown;
+}
+
 export interface AgentSkill {
   id: string;
   name: string;
   description?: string;
+  tags?: string[];
+  examples?: string[];
+  inputModes?: string[];
+  outputModes?: string[];
+  inputSchema?: JsonSchema;
+}
+
+export interface AgentProvider {
+  organization: string;
+  url?: string;
+}
+
+export interface AgentCapabilities {
+  streaming?: boolean;
+  pushNotifications?: boolean;
+  stateTransitionHistory?: boolean;
+}
+
+// A2A security schemes mirror OpenAPI: apiKey, http, oauth2, openIdConnect (x402 is advertised as http)
+export interface SecurityScheme {
+  type: string;
+  description?: string;
+  [key: string]: unknown;
 }
 
 export interface AgentCard {
   name: string;
+  description?: string;
+  url: string;
+  version: string;
+  protocolVersion?: string;
+  documentationUrl?: string;
+  provider?: AgentProvider;
+  capabilities: AgentCapabilities;
+  defaultInputModes: string[];
+  defaultOutputModes: string[];
+  securitySchemes?: Record<string, SecurityScheme>;
+  security?: Array<Record<string, string[]>>;
   skills: AgentSkill[];
 }
 
+export class AgentCardError extends Error {
+  constructor(
+    message: string,
+    readonly issues: string[] = [],
+  ) {
+    super(issues.length ? `${message}:\n${issues.map((i) => `  - ${i}`).join("\n")}` : message);
+    this.name = "AgentCardError";
+  }
+}
+
 export interface OperationInfo {
   operation: string;
   params: string;
   description: string;
+  inputSchema?: JsonSchema;
+  examples?: string[];
 }
 
+const OPERATION_NAME = /^[a-z][a-z0-9]*(?:_[a-z0-9]+)+$/;
+export const OPERATIONS_QUERY =
+  "What operations are available? List all available operations with their names and parameters in table format.";
+
 export async function fetchAgentCard(baseUrl: string): Promise<AgentCard> {
   const url = `${baseUrl.replace(/\/$/, "")}/.well-known/agent.json`;
+  let raw: unknown;
   try {
     const res = await fetch(url, { signal: AbortSignal.timeout(10_000) });
     if (!res.ok) throw new Error(`HTTP ${res.status}`);
-    return (await res.json()) as AgentCard;
+    raw = await res.json();
   } catch (e) {
-    console.warn(
-      `  ⚠ Agent card fetch failed (${e instanceof Error ? e.message : e}), assuming all skills available`,
-    );
-    return { name: "unknown", skills: [] };
+    throw new AgentCardError(`Agent card fetch failed from ${url} (${e instanceof Error ? e.message : e})`);
+  }
+  return validateAgentCard(raw);
+}
+
+// Fetches the card and applies it to the client; failures are reported, never silently defaulted
+export async function attachAgentCard(client: A2AClient, baseUrl: string): Promise<AgentCard | null> {
+  try {
+    const card = await fetchAgentCard(baseUrl);
+    client.useAgentCard(card);
+    return card;
+  } catch (e) {
+    console.warn(`  ⚠ ${e instanceof Error ? e.message : e}`);
+    console.warn("  ⚠ Continuing without an agent card — server capabilities unknown");
+    return null;
+  }
+}
+
+// ─── Validation ──────────────────────────────────────────────
+
+const isObject = (v: unknown): v is Record<string, unknown> =>
+  v !== null && typeof v === "object" && !Array.isArray(v);
+const isStringArray = (v: unknown): v is string[] => Array.isArray(v) && v.every((x) => typeof x === "string");
+
+// Checks the card against the A2A shape and returns it with optional fields defaulted.
+// Throws AgentCardError listing every problem found, not just the first.
+export function validateAgentCard(raw: unknown): AgentCard {
+  if (!isObject(raw)) throw new AgentCardError("Agent card is not a JSON object");
+
+  const issues: string[] = [];
+  const requireString = (obj: Record<string, unknown>, key: string, path: string) => {
+    if (typeof obj[key] !== "string" || obj[key] === "") issues.push(`${path}${key}: expected non-empty string`);
+  };
+  const optional = (obj: Record<string, unknown>, key: string, path: string, check: (v: unknown) => boolean, expected: string) => {
+    if (obj[key] !== undefined && !check(obj[key])) issues.push(`${path}${key}: expected ${expected}`);
+  };
+
+  requireString(raw, "name", "");
+  requireString(raw, "url", "");
+  requireString(raw, "version", "");
+  optional(raw, "description", "", (v) => typeof v === "string", "string");
+  optional(raw, "protocolVersion", "", (v) => typeof v === "string", "string");
+  optional(raw, "documentationUrl", "", (v) => typeof v === "string", "string");
+  optional(raw, "defaultInputModes", "", isStringArray, "string[]");
+  optional(raw, "defaultOutputModes", "", isStringArray, "string[]");
+  optional(raw, "security", "", Array.isArray, "array");
+
+  if (raw.provider !== undefined) {
+    if (!isObject(raw.provider)) issues.push("provider: expected object");
+    else requireString(raw.provider, "organization", "provider.");
+  }
+
+  if (raw.capabilities !== undefined) {
+    if (!isObject(raw.capabilities)) {
+      issues.push("capabilities: expected object");
+    } else {
+      for (const key of ["streaming", "pushNotifications", "stateTransitionHistory"]) {
+        optional(raw.capabilities, key, "capabilities.", (v) => typeof v === "boolean", "boolean");
+      }
+    }
+  }
+
+  if (raw.securitySchemes !== undefined) {
+    if (!isObject(raw.securitySchemes)) {
+      issues.push("securitySchemes: expected object");
+    } else {
+      for (const [name, scheme] of Object.entries(raw.securitySchemes)) {
+        if (!isObject(scheme)) issues.push(`securitySchemes.${name}: expected object`);
+        else requireString(scheme, "type", `securitySchemes.${name}.`);
+      }
+    }
   }
+
+  if (!Array.isArray(raw.skills)) {
+    issues.push("skills: expected array");
+  } else {
+    raw.skills.forEach((skill, i) => {
+      const path = `skills[${i}].`;
+      if (!isObject(skill)) {
+        issues.push(`skills[${i}]: expected object`);
+        return;
+      }
+      requireString(skill, "id", path);
+      requireString(skill, "name", path);
+      optional(skill, "description", path, (v) => typeof v === "string", "string");
+      optional(skill, "tags", path, isStringArray, "string[]");
+      optional(skill, "examples", path, isStringArray, "string[]");
+      optional(skill, "inputModes", path, isStringArray, "string[]");
+      optional(skill, "outputModes", path, isStringArray, "string[]");
+      optional(skill, "inputSchema", path, isObject, "JSON Schema object");
+    });
+  }
+
+  if (issues.length > 0) throw new AgentCardError("Invalid agent card", issues);
+
+  const card = raw as unknown as AgentCard;
+  return {
+    ...card,
+    capabilities: card.capabilities ?? {},
+    defaultInputModes: card.defaultInputModes ?? ["text/plain"],
+    defaultOutputModes: card.defaultOutputModes ?? ["text/plain"],
+  };
 }
 
+// Operations declared as skills on the agent card (preferred over asking Willy)
+export function operationsFromCard(card: AgentCard): OperationInfo[] {
+  return card.skills
+    .filter((skill) => OPERATION_NAME.test(skill.id))
+    .map((skill) => ({
+      operation: skill.id,
+      params: skill.inputSchema ? summarizeSchema(skill.inputSchema) : "",
+      description: skill.description ?? skill.name,
+      inputSchema: skill.inputSchema,
+      examples: skill.examples,
+    }));
+}
+
+// Renders an object schema as "name, allocatedCores?: number" for tool descriptions and help text
+export function summarizeSchema(schema: JsonSchema): string {
+  const required = new Set(schema.required ?? []);
+  return Object.entries(schema.properties ?? {})
+    .map(([key, prop]) => {
+      const type = Array.isArray(prop.type) ? prop.type.join("|") : prop.type;
+      const enumStr = prop.enum ? ` (${prop.enum.join("/")})` : "";
+      return `${key}${required.has(key) ? "" : "?"}${type ? `: ${type}` : ""}${enumStr}`;
+    })
+    .join(", ");
+}
+
+// Willy replies as { data: { reply } } or { reply }; anything else is treated as no reply
+export function extractReply(data: unknown): string {
+  const obj = data as { reply?: unknown; data?: { reply?: unknown } } | null;
+  const reply = obj?.data?.reply ?? obj?.reply;
+  return typeof reply === "string" ? reply : "";
+}
+
+// Parses the markdown operation table Willy produces when asked in natural language.
+// Accepts both layouts seen in practice:
+//   | `operation` | params | description |
+//   | **Category** | operation | params |   (category cell may be blank on continuation rows)
+export function parseOperationTable(reply: string): OperationInfo[] {
+  const operations: OperationInfo[] = [];
+  const seen = new Set<string>();
+
+  for (const line of reply.split("\n")) {
+    if (!line.includes("|")) continue;
+
+    const cells = line.split("|").map((c) => c.trim());
+    if (cells[0] === "") cells.shift();
+    if (cells[cells.length - 1] === "") cells.pop();
+    if (cells.every((c) => /^:?-{3,}:?$/.test(c))) continue;
+
+    const clean = (c: string) => c.replace(/`/g, "").replace(/\*\*/g, "").trim();
+    const opIndex = cells.findIndex((c) => OPERATION_NAME.test(clean(c)));
+    if (opIndex === -1 || opIndex > 1) continue;
+
+    const operation = clean(cells[opIndex]);
+    if (seen.has(operation)) continue;
+    seen.add(operation);
+
+    const params = clean(cells[opIndex + 1] ?? "");
+    operations.push({
+      operation,
+      params: ["{}", "-", "—", "none", "(none)"].includes(params.toLowerCase()) ? "" : params,
+      description: clean(cells[opIndex + 2] ?? ""),
+    });
+  }
+
+  return operations;
+}
+
+// Fallback discovery: ask Willy for a table and parse it
 export async function fetchOperations(
   client: A2AClient,
   options?: { verbose?: boolean },
 ): Promise<OperationInfo[]> {
   try {
-    const query = "What operations are available? List all available operations with their names and parameters in table format.";
+    const query = OPERATIONS_QUERY;
 
     if (options?.verbose) {
       const chalk = await import("chalk").then((m) => m.default);
@@ -46,11 +273,9 @@ export async function fetchOperations(
     }
 
     const task = await client.sendText(query);
-    const data = client.extractData(task);
-    // @ts-expect-error - dynamic data structure
-    const reply = (data?.data?.reply ?? data?.reply ?? "") as string;
+    const reply = extractReply(client.extractData(task));
 
-    if (typeof reply !== "string" || reply === "") {
+    if (reply === "") {
       console.warn("  ⚠ Failed to fetch operations from Willy (empty or invalid reply)");
       return [];
     }
@@ -68,45 +293,24 @@ export async function fetchOperations(
       }
     }
 
-    // Parse markdown table - supports multiple formats:
-    // Format 1: | `operation` | params | description |
-    // Format 2: | Category | operation | params |
-    const operations: OperationInfo[] = [];
-    const lines = reply.split("\n");
-
-    for (const line of lines) {
-      // Skip header/separator lines
-      if (line.includes("---") || line.includes("**Operation**") || line.includes("**Category**")) continue;
-
-      // Try format 1: | `operation` | params | description |
-      let match = line.match(/\|\s*`([^`]+)`\s*\|\s*([^|]+)\s*\|\s*([^|]+)\s*\|/);
-      if (match) {
-        operations.push({
-          operation: match[1].trim(),
-          params: match[2].trim(),
-          description: match[3].trim(),
-        });
-        continue;
-      }
-
-      // Try format 2: | **Category** | operation | params |  or  | | operation | params |
-      match = line.match(/\|\s*(?:\*\*[^*]+\*\*|)\s*\|\s*([a-z_]+)\s*\|\s*([^|]+)\s*\|/);
-      if (match && match[1] !== "") {
-        operations.push({
-          operation: match[1].trim(),
-          params: match[2].trim(),
-          description: "",
-        });
-      }
-    }
-
-    return operations;
+    return parseOperationTable(reply);
   } catch (e) {
     console.warn(`  ⚠ Failed to fetch operations: ${e instanceof Error ? e.message : e}`);
     return [];
   }
 }
 
+// Card skills first; the LLM table is only consulted when the card declares no operations
+export async function discoverOperations(
+  client: A2AClient,
+  card: AgentCard | null,
+  options?: { verbose?: boolean },
+): Promise<OperationInfo[]> {
+  const fromCard = card ? operationsFromCard(card) : [];
+  if (fromCard.length > 0) return fromCard;
+  return fetchOperations(client, options);
+}
+
 export function availableSkillIds(card: AgentCard): Set<string> {
   return new Set(card.skills.map((s) => s.id));
 }
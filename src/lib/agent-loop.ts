@@ -0,0 +1,226 @@
+// The Test Agent's tools, system prompt and turn loop, shared by the demo (agent.ts) and the eval runner (eval.ts)
+
+import type Anthropic from "@anthropic-ai/sdk";
+import type { A2AClient, A2ATask } from "./a2a-client.js";
+import type { AgentCard, OperationInfo } from "./agent-card.js";
+import { classifyOperation, type ApprovalDecision, type OperationRisk } from "./approval.js";
+import { errorHint } from "./errors.js";
+
+export const MODEL = "claude-sonnet-4-6";
+
+export function buildA2ATool(operations: OperationInfo[]): Anthropic.Tool {
+  const opList = operations
+    .map((op) => {
+      const line = op.params
+        ? `- ${op.operation}: ${op.description} [params: ${op.params}]`
+        : `- ${op.operation}: ${op.description}`;
+      return op.examples?.length ? `${line}\n  e.g. ${op.examples[0]}` : line;
+    })
+    .join("\n");
+  return {
+    name: "a2a_call",
+    description: `Call Willy (Willform Deploy Agent) via A2A protocol.\n\nAvailable operations:\n${opList}`,
+    input_schema: {
+      type: "object" as const,
+      properties: {
+        reflection: {
+          type: "string",
+          description: "Korean: what you learned from the PREVIOUS Willy response (omit for first call). e.g. '네임스페이스가 없어서 먼저 생성했습니다'",
+        },
+        narration: {
+          type: "string",
+          description: "Korean: what you are doing now. e.g. '네임스페이스를 먼저 확인할게요'",
+        },
+        reason: {
+          type: "string",
+          description: "Korean: WHY you chose this operation — cite the user request or a prior result.",
+        },
+        operation: { type: "string", description: "Operation name from the list above" },
+        params: {
+          type: "object",
+          description: "Parameters. Reuse IDs from previous results.",
+          additionalProperties: true,
+        },
+      },
+      required: ["narration", "reason", "operation"],
+    },
+  };
+}
+
+// Plan tool: agent declares its steps before executing
+export function buildPlanTool(): Anthropic.Tool {
+  return {
+    name: "declare_plan",
+    description: "Call this FIRST before any a2a_call to declare your multi-step execution plan. Shows the user your upfront reasoning.",
+    input_schema: {
+      type: "object" as const,
+      properties: {
+        title: { type: "string", description: "Korean: short title for this plan" },
+        steps: {
+          type: "array",
+          items: { type: "string" },
+          description: "Korean: ordered list of steps you will execute",
+        },
+      },
+      required: ["title", "steps"],
+    },
+  };
+}
+
+export function buildSystemPrompt(card: AgentCard | null): string {
+  return `You are Test Agent, an AI agent managing cloud deployments on the Willform platform.
+You call Willy (${card?.name ?? "Willform Deploy Agent"}) via the a2a_call tool.
+
+WORKFLOW — follow this order every time:
+1. Call declare_plan FIRST to outline your execution steps.
+2. Execute each step via a2a_call, chaining results from previous calls.
+3. Reflect on each Willy response before the next call.
+4. Give a concise Korean final reply after all calls complete.
+
+Each a2a_call MUST include:
+- "narration": conversational Korean — what you are doing now
+- "reason": Korean — WHY you chose this operation (cite user request or prior result)
+- "reflection": Korean — what you learned from the PREVIOUS Willy response (omit for first call)
+
+Decision rules:
+- Before creating a namespace, check if it already exists (namespace_list first)
+- If no namespace exists, create one using the appropriate _create operation
+- Always read error messages carefully — they tell you which operation to use
+- Reuse IDs returned by previous calls — never fabricate or guess UUIDs
+- Before creating a deployment, run the preflight check operation first
+- After creating a deployment, always verify its status
+- For diagnostics: fetch logs AND run diagnosis if status is not healthy
+- If a call fails with paymentRefused, the x402 spending policy blocked it — do not retry; stop and tell the user which limit was hit
+- If a call comes back with denied: true, the user refused it — do not retry it as-is; follow their reason if given, otherwise change the plan or ask them
+- Final reply: concise Korean summary, use · bullets, no markdown headers`;
+}
+
+// ─── Tool results ────────────────────────────────────────────
+
+// a2a_call input as the model sends it
+export interface A2ACallInput {
+  reflection?: string;
+  narration: string;
+  reason: string;
+  operation: string;
+  params?: Record<string, unknown>;
+}
+
+export interface ToolOutcome {
+  content: string;
+  isError?: boolean;
+}
+
+// What the model sees after a call that reached Willy
+export function taskOutcome(client: A2AClient, task: A2ATask): ToolOutcome {
+  const result: Record<string, unknown> = { status: task.status.state, data: client.extractData(task) };
+  if (task.metadata?.lowBalanceWarning) result.warning = task.metadata.lowBalanceWarning.message;
+  return { content: JSON.stringify(result, null, 2) };
+}
+
+// The error class and hint let the model tell "retry later" apart from "fix the params"
+export function errorOutcome(e: unknown): ToolOutcome {
+  const hint = errorHint(e);
+  return {
+    content: JSON.stringify({ error: e instanceof Error ? e.message : String(e), errorType: e instanceof Error ? e.name : "Error", ...(hint ? { hint } : {}) }),
+    isError: true,
+  };
+}
+
+// Sent instead of running a call the user refused
+export function deniedOutcome(operation: string, risk: OperationRisk, reason?: string): ToolOutcome {
+  return {
+    content: JSON.stringify({
+      error: `The user denied ${operation}`,
+      errorType: "ApprovalDenied",
+      denied: true,
+      risk,
+      ...(reason ? { reason } : {}),
+    }),
+    isError: true,
+  };
+}
+
+// ─── Turn loop ───────────────────────────────────────────────
+
+export interface TurnOptions {
+  model?: string;
+  system: string;
+  tools: Anthropic.Tool[];
+  maxTokens?: number;
+  // Model round trips before the turn is abandoned, so a model that never stops calling tools cannot run forever
+  maxSteps?: number;
+  // Asked before every a2a_call; a refusal goes back to the model as the call's result. Without it every call runs.
+  approve?: (input: A2ACallInput, risk: OperationRisk) => Promise<ApprovalDecision>;
+  call: (input: A2ACallInput) => Promise<ToolOutcome>;
+  // Returns a function that ends the "thinking" indicator
+  onThinking?: () => () => void;
+  onRequest?: (params: Anthropic.MessageCreateParamsNonStreaming) => void;
+  onResponse?: (response: Anthropic.Message, ms: number) => void;
+  onPlan?: (title: string, steps: string[]) => void;
+  onReply?: (text: string) => void;
+  afterCall?: () => Promise<void>;
+}
+
+// Runs one user turn to the model's final reply; messages gains every exchange. Returns the reply text, if any.
+export async function runAgentTurn(
+  anthropic: Anthropic,
+  messages: Anthropic.MessageParam[],
+  options: TurnOptions,
+): Promise<string | null> {
+  const { model = MODEL, system, tools, maxTokens = 4096, maxSteps = 25 } = options;
+
+  for (let step = 0; step < maxSteps; step++) {
+    const stop = options.onThinking?.();
+    const t0 = Date.now();
+    let response: Anthropic.Message;
+    try {
+      const params = { model, max_tokens: maxTokens, system, tools, messages };
+      options.onRequest?.(params);
+      response = await anthropic.messages.create(params);
+    } finally {
+      stop?.();
+    }
+    options.onResponse?.(response, Date.now() - t0);
+    messages.push({ role: "assistant", content: response.content });
+
+    if (response.stop_reason !== "tool_use") {
+      const tb = response.content.find((b) => b.type === "text");
+      const reply = tb?.type === "text" ? tb.text : null;
+      if (reply) options.onReply?.(reply);
+      return reply;
+    }
+
+    const results: Anthropic.ToolResultBlockParam[] = [];
+    for (const block of response.content) {
+      if (block.type !== "tool_use") continue;
+
+      if (block.name === "declare_plan") {
+        const { title, steps } = block.input as { title: string; steps: string[] };
+        options.onPlan?.(title, steps);
+        results.push({ type: "tool_result", tool_use_id: block.id, content: "Plan acknowledged. Proceed with execution." });
+        continue;
+      }
+
+      if (block.name === "a2a_call") {
+        const input = block.input as A2ACallInput;
+        const risk = classifyOperation(input.operation);
+        const decision = (await options.approve?.(input, risk)) ?? { approved: true };
+        if (!decision.approved) {
+          const denied = deniedOutcome(input.operation, risk, decision.reason);
+          results.push({ type: "tool_result", tool_use_id: block.id, content: denied.content, is_error: true });
+          continue;
+        }
+        const result = await options.call(input);
+        results.push({ type: "tool_result", tool_use_id: block.id, content: result.content, is_error: result.isError });
+        await options.afterCall?.();
+        continue;
+      }
+
+      // Every tool_use needs a result or the next request is rejected
+      results.push({ type: "tool_result", tool_use_id: block.id, content: `Unknown tool ${block.name}`, is_error: true });
+    }
+    messages.push({ role: "user", content: results });
+  }
+  throw new Error(`No final reply after ${maxSteps} model calls`);
+}
@@ -0,0 +1,46 @@
+// Which a2a_call operations the Test Agent may run on its own, and which need a person to say yes first
+
+export type OperationRisk = "read" | "mutate" | "destroy";
+
+export const RISKS: readonly OperationRisk[] = ["read", "mutate", "destroy"];
+
+// Willy names operations <resource>_<action>; the action decides the risk
+const READ_ACTIONS = new Set(["list", "get", "status", "logs", "events", "diagnose", "preflight", "balance", "describe", "show", "info", "search", "check", "validate", "history"]);
+const DESTROY_ACTIONS = new Set(["delete", "destroy", "remove", "purge", "terminate", "drop", "wipe"]);
+
+// Anything not recognisably read-only is treated as a change, so a new server operation is never auto-approved by accident
+export function classifyOperation(operation: string): OperationRisk {
+  const action = operation.slice(operation.lastIndexOf("_") + 1).toLowerCase();
+  if (DESTROY_ACTIONS.has(action)) return "destroy";
+  if (READ_ACTIONS.has(action)) return "read";
+  return "mutate";
+}
+
+// "read,mutate", "all" or "none"
+export function parseAutoApprove(value: string): Set<OperationRisk> {
+  const trimmed = value.trim();
+  if (trimmed === "all") return new Set(RISKS);
+  if (trimmed === "none" || trimmed === "") return new Set();
+  const risks = new Set<OperationRisk>();
+  for (const part of trimmed.split(",").map((p) => p.trim()).filter(Boolean)) {
+    if (!(RISKS as readonly string[]).includes(part)) {
+      throw new Error(`Unknown risk "${part}" in --auto-approve; use ${RISKS.join(", ")}, all or none`);
+    }
+    risks.add(part as OperationRisk);
+  }
+  return risks;
+}
+
+export interface ApprovalDecision {
+  approved: boolean;
+  // What the person said when refusing, passed on to the model so it can replan
+  reason?: string;
+}
+
+// y/yes approves; n/no or an empty answer refuses; anything else refuses with that text as the reason
+export function parseApprovalAnswer(answer: string): ApprovalDecision {
+  const text = answer.trim();
+  if (/^(y|yes|예|네)$/i.test(text)) return { approved: true };
+  if (/^(n|no|아니오|아니요)?$/i.test(text)) return { approved: false };
+  return { approved: false, reason: text };
+}
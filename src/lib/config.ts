@@ -1,29 +1,66 @@
-import { wrapFetchWithPaymentFromConfig } from "@x402/fetch";
+import { wrapFetchWithPayment, x402Client } from "@x402/fetch";
 import { ExactEvmScheme } from "@x402/evm";
-import { privateKeyToAccount } from "viem/accounts";
+import { PaymentLedger, ledgerPathFromEnv, ledgerTotal } from "./ledger.js";
+import { SpendingPolicy, spendingLimitsFromEnv, type ApprovalHandler } from "./payment-policy.js";
+import { loadSigner, type WalletSigner } from "./signer.js";
+import { transportFromEnv, type RetryInfo, type TransportOptions } from "./retry.js";
 
-export function loadConfig() {
+export interface ConfigOptions {
+  // Underlying fetch the x402 wrapper calls (e.g. one that logs the handshake)
+  fetch?: typeof fetch;
+  // Asked before every payment that passes the spending limits
+  approvePayment?: ApprovalHandler;
+  // Told about each transport retry (e.g. to print "retrying in 2s")
+  onRetry?: (info: RetryInfo) => void;
+}
+
+export async function loadConfig(options: ConfigOptions = {}) {
   const baseUrl = process.env.WILLFORM_A2A_URL ?? "http://localhost:3000";
-  const privateKey = process.env.WALLET_PRIVATE_KEY;
 
-  if (!privateKey) {
-    console.error("WALLET_PRIVATE_KEY is required. Set it in .env or environment.");
+  let signer: WalletSigner;
+  try {
+    signer = await loadSigner();
+  } catch (e) {
+    console.error(`Wallet: ${e instanceof Error ? e.message : e}`);
+    process.exit(1);
+  }
+  const { account } = signer;
+
+  let policy: SpendingPolicy;
+  try {
+    policy = new SpendingPolicy(spendingLimitsFromEnv(), options.approvePayment);
+  } catch (e) {
+    console.error(`Invalid x402 spending limits: ${e instanceof Error ? e.message : e}`);
     process.exit(1);
   }
 
-  const account = privateKeyToAccount(privateKey as `0x${string}`);
-
-  const fetchWithPayment = wrapFetchWithPaymentFromConfig(
-    fetch,
-    {
-      schemes: [
-        {
-          network: "eip155:*",
-          client: new ExactEvmScheme(account),
-        },
-      ],
-    },
-  );
-
-  return { baseUrl, walletAddress: account.address, fetchWithPayment };
+  let transport: TransportOptions;
+  try {
+    transport = { ...transportFromEnv(), onRetry: options.onRetry };
+  } catch (e) {
+    console.error(`Invalid transport settings: ${e instanceof Error ? e.message : e}`);
+    process.exit(1);
+  }
+
+  const client = x402Client.fromConfig({
+    schemes: [
+      {
+        network: "eip155:*",
+        client: new ExactEvmScheme(account),
+      },
+    ],
+  });
+  policy.attach(client);
+
+  // The ledger sits below the x402 wrapper so it sees the signed retry and its settlement header
+  const ledgerPath = ledgerPathFromEnv();
+  const ledger = ledgerPath ? new PaymentLedger(ledgerPath) : null;
+  if (ledger && policy.limits.dailyBudget) {
+    const today = new Date().toISOString().slice(0, 10);
+    policy.carryOverToday(ledgerTotal(ledger.read().filter((e) => e.timestamp.startsWith(today))));
+  }
+  const baseFetch = options.fetch ?? fetch;
+  const fetchWithPayment = policy.guard(wrapFetchWithPayment(ledger ? ledger.wrap(baseFetch) : baseFetch, client));
+
+  return { baseUrl, walletAddress: account.address, signer: signer.source, fetchWithPayment, transport, policy, ledger };
 }
@@ -0,0 +1,168 @@
+// Typed failures of the A2A client, so callers branch on the class instead of matching message text
+
+import type { A2ATask } from "./a2a-client.js";
+
+// JSON-RPC 2.0 codes plus the A2A-specific range (-32001 … -32005)
+export const JSON_RPC = {
+  PARSE_ERROR: -32700,
+  INVALID_REQUEST: -32600,
+  METHOD_NOT_FOUND: -32601,
+  INVALID_PARAMS: -32602,
+  INTERNAL_ERROR: -32603,
+  TASK_NOT_FOUND: -32001,
+  TASK_NOT_CANCELABLE: -32002,
+  PUSH_NOTIFICATION_NOT_SUPPORTED: -32003,
+  UNSUPPORTED_OPERATION: -32004,
+  CONTENT_TYPE_NOT_SUPPORTED: -32005,
+} as const;
+
+export class A2AError extends Error {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = "A2AError";
+  }
+}
+
+// The request never produced a JSON-RPC answer: connection failure, timeout, non-2xx status or an empty body
+export class TransportError extends A2AError {
+  readonly status?: number;
+  readonly body?: string;
+  readonly timedOut: boolean;
+
+  constructor(message: string, options: { status?: number; body?: string; timedOut?: boolean; cause?: unknown } = {}) {
+    super(message, { cause: options.cause });
+    this.name = "TransportError";
+    this.status = options.status;
+    this.body = options.body;
+    this.timedOut = options.timedOut ?? false;
+  }
+}
+
+// x402 could not be satisfied: the server rejected the payment, or the client could not create one
+export class PaymentRequiredError extends TransportError {
+  // Decoded PAYMENT-REQUIRED header, when the server sent one
+  readonly requirements?: Record<string, unknown>;
+
+  constructor(message: string, options: { body?: string; requirements?: Record<string, unknown>; cause?: unknown } = {}) {
+    super(message, { status: 402, body: options.body, cause: options.cause });
+    this.name = "PaymentRequiredError";
+    this.requirements = options.requirements;
+  }
+
+  // The facilitator's reason, e.g. "insufficient_funds"
+  get reason(): string | undefined {
+    const error = this.requirements?.error;
+    return typeof error === "string" ? error : undefined;
+  }
+}
+
+export class JsonRpcError extends A2AError {
+  constructor(
+    readonly code: number,
+    readonly rpcMessage: string,
+    readonly data?: unknown,
+  ) {
+    super(`A2A error [${code}]: ${rpcMessage}`);
+    this.name = "JsonRpcError";
+  }
+}
+
+export class TaskNotFoundError extends JsonRpcError {
+  constructor(
+    readonly taskId: string | undefined,
+    rpcMessage: string,
+    data?: unknown,
+  ) {
+    super(JSON_RPC.TASK_NOT_FOUND, rpcMessage, data);
+    this.name = "TaskNotFoundError";
+  }
+}
+
+export class TaskNotCancelableError extends JsonRpcError {
+  constructor(
+    readonly taskId: string | undefined,
+    rpcMessage: string,
+    data?: unknown,
+  ) {
+    super(JSON_RPC.TASK_NOT_CANCELABLE, rpcMessage, data);
+    this.name = "TaskNotCancelableError";
+  }
+}
+
+// Picks the most specific class for a JSON-RPC error object
+export function jsonRpcError(error: { code: number; message: string; data?: unknown }, taskId?: string): JsonRpcError {
+  if (error.code === JSON_RPC.TASK_NOT_FOUND) return new TaskNotFoundError(taskId, error.message, error.data);
+  if (error.code === JSON_RPC.TASK_NOT_CANCELABLE) return new TaskNotCancelableError(taskId, error.message, error.data);
+  return new JsonRpcError(error.code, error.message, error.data);
+}
+
+// task.status.message is an A2A Message ({ parts: [{ kind: "text", text }] }); some servers send a bare string
+export function taskStatusMessage(task: A2ATask): string | undefined {
+  return statusMessageText(task.status.message);
+}
+
+export function statusMessageText(message: unknown): string | undefined {
+  if (typeof message === "string") return message || undefined;
+  const parts = (message as { parts?: Array<{ kind?: string; text?: unknown }> } | undefined)?.parts;
+  const text = parts?.filter((p) => p.kind === "text" && typeof p.text === "string").map((p) => p.text).join("\n");
+  return text || undefined;
+}
+
+// The task ran and ended failed, rejected or canceled
+export class TaskFailedError extends A2AError {
+  readonly reason?: string;
+
+  constructor(
+    readonly task: A2ATask,
+    what: string = "Task",
+    detail?: string,
+  ) {
+    const reason = taskStatusMessage(task) ?? detail;
+    super(`${what} ${task.status.state}${reason ? `: ${reason}` : ""}`);
+    this.name = "TaskFailedError";
+    this.reason = reason;
+  }
+
+  get state(): string {
+    return this.task.status.state;
+  }
+}
+
+// tasks/get polling gave up while the task was still running; it may yet finish on the server
+export class TaskTimeoutError extends A2AError {
+  constructor(
+    readonly task: A2ATask,
+    readonly timeoutMs: number,
+  ) {
+    super(`Task ${task.id} still ${task.status.state} after ${timeoutMs}ms`);
+    this.name = "TaskTimeoutError";
+  }
+}
+
+// One-line advice for people reading CLI or demo output; undefined when the message already says it all
+export function errorHint(err: unknown): string | undefined {
+  if (err instanceof PaymentRequiredError) {
+    if (err.reason === "insufficient_funds") return "The wallet is out of USDC on this network; top it up or switch WALLET_* to a funded signer.";
+    if (err.reason) return `The payment was rejected (${err.reason}); check the network and payee with the server's PAYMENT-REQUIRED terms.`;
+    return "The server requires x402 payment and none was accepted; check the wallet and X402_* limits.";
+  }
+  if (err instanceof TransportError) {
+    if (err.timedOut) return "The server did not answer in time; raise WILLFORM_A2A_TIMEOUT_MS or try again.";
+    if (err.status === 429) return "Rate limited even after retries; wait a minute or raise WILLFORM_A2A_RETRIES.";
+    if (err.status === 401 || err.status === 403) return "The server refused this wallet; check the signer and its allow-listing.";
+    if (err.status && err.status >= 500) return "The server is failing; retries were exhausted. Try again shortly.";
+    if (err.status === undefined) return "Could not reach the server; is WILLFORM_A2A_URL right and the server up?";
+    return undefined;
+  }
+  if (err instanceof TaskNotFoundError) return "Task ids are per server and expire; the id may be stale or from another WILLFORM_A2A_URL.";
+  if (err instanceof TaskNotCancelableError) return "The task already finished; fetch its result with tasks/get instead.";
+  if (err instanceof JsonRpcError) {
+    if (err.code === JSON_RPC.METHOD_NOT_FOUND) return "The endpoint does not implement this A2A method; is WILLFORM_A2A_URL an A2A server?";
+    if (err.code === JSON_RPC.INVALID_PARAMS) return "The request parameters were rejected; run the command with --help for the expected flags.";
+    if (err.code === JSON_RPC.UNSUPPORTED_OPERATION) return "The agent does not support this operation; check its card's skills.";
+    if (err.code === JSON_RPC.PUSH_NOTIFICATION_NOT_SUPPORTED) return "The agent cannot push task updates; drop --notify and let the client poll.";
+    return undefined;
+  }
+  if (err instanceof TaskTimeoutError) return `The task may still complete; check it later with tasks/get ${err.task.id}.`;
+  return undefined;
+}
@@ -0,0 +1,253 @@
+// Scores Test Agent runs against the rules its system prompt states, and renders reports that compare runs
+
+import type { ExpectationResult } from "./scenario.js";
+
+export interface EvalCall {
+  // Position in the scenario, from 1
+  index: number;
+  operation: string;
+  params: Record<string, unknown>;
+  ok: boolean;
+  // Task state, or the error class when the call never produced a task
+  status: string;
+  durationMs: number;
+  // The tool_result the model saw
+  result: string;
+}
+
+export type RuleId = "namespace-list-before-create" | "preflight-before-create" | "status-after-create" | "no-fabricated-ids";
+
+// Wording follows buildSystemPrompt so a failing rule points at the sentence the model ignored
+export const RULES: Record<RuleId, string> = {
+  "namespace-list-before-create": "Before creating a namespace, check if it already exists (namespace_list first)",
+  "preflight-before-create": "Before creating a deployment, run the preflight check operation first",
+  "status-after-create": "After creating a deployment, always verify its status",
+  "no-fabricated-ids": "Reuse IDs returned by previous calls — never fabricate or guess UUIDs",
+};
+
+const RULE_IDS = Object.keys(RULES) as RuleId[];
+
+export interface RuleCheck {
+  rule: RuleId;
+  ok: boolean;
+  // The call the check is about
+  call: number;
+  detail?: string;
+}
+
+export interface ScenarioRun {
+  run: number;
+  title: string;
+  source: string;
+  calls: EvalCall[];
+  checks: RuleCheck[];
+  expectations: ExpectationResult[];
+  reply: string | null;
+  error?: string;
+  modelCalls: number;
+  tokens: { input: number; output: number };
+  durationMs: number;
+}
+
+export interface Tally {
+  passed: number;
+  total: number;
+}
+
+export interface EvalSummary {
+  // Passed rule checks over all rule checks; null when no call triggered a rule
+  score: number | null;
+  rules: Record<RuleId, Tally>;
+  expectations: Tally;
+  errors: number;
+  calls: number;
+  modelCalls: number;
+  tokens: { input: number; output: number };
+}
+
+export interface EvalReport {
+  version: 1;
+  label: string;
+  model: string;
+  // sha256 of the system prompt, so runs with different prompts are told apart
+  promptHash: string;
+  startedAt: string;
+  durationMs: number;
+  runs: number;
+  scenarios: ScenarioRun[];
+  summary: EvalSummary;
+}
+
+const UUID = /\b[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\b/gi;
+
+export function uuidsIn(value: unknown): string[] {
+  const text = typeof value === "string" ? value : JSON.stringify(value ?? null);
+  return [...new Set((text.match(UUID) ?? []).map((id) => id.toLowerCase()))];
+}
+
+// deploy_create answers with the new deployment's id under a few names depending on the payload shape
+function createdDeploymentId(call: EvalCall): string | undefined {
+  try {
+    const data = (JSON.parse(call.result) as { data?: unknown }).data as Record<string, unknown> | undefined;
+    const payload = (data?.data ?? data) as Record<string, unknown> | undefined;
+    const id = payload?.deploymentId ?? payload?.id;
+    return typeof id === "string" ? id : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+// `context` is what the model had seen before the scenario's first call: the conversation's prompts (this one
+// included) and the calls of earlier scenarios in the same conversation
+export function scoreCalls(calls: EvalCall[], context: { prompts: string[]; calls: EvalCall[] }): RuleCheck[] {
+  const checks: RuleCheck[] = [];
+  const earlier = context.calls;
+  const known = new Set([...context.prompts, ...earlier.map((c) => c.result)].flatMap(uuidsIn));
+  const all = [...earlier, ...calls];
+  const offset = earlier.length;
+
+  calls.forEach((call, i) => {
+    const at = offset + i;
+    const before = all.slice(0, at);
+
+    if (call.operation === "namespace_create") {
+      const listed = before.some((c) => c.operation === "namespace_list");
+      checks.push({ rule: "namespace-list-before-create", ok: listed, call: call.index, detail: listed ? undefined : "namespace_create without a namespace_list before it" });
+    }
+
+    if (call.operation === "deploy_create") {
+      // Only a preflight since the previous create counts, and it must be for the same image when both name one
+      const lastCreate = before.map((c) => c.operation).lastIndexOf("deploy_create");
+      const preflight = before
+        .slice(lastCreate + 1)
+        .some((c) => c.operation === "deploy_preflight" && (!c.params.image || !call.params.image || c.params.image === call.params.image));
+      checks.push({ rule: "preflight-before-create", ok: preflight, call: call.index, detail: preflight ? undefined : `deploy_create ${String(call.params.image ?? "")} without a matching deploy_preflight`.trim() });
+
+      if (call.ok) {
+        const id = createdDeploymentId(call);
+        const verified = calls.slice(i + 1).some((c) => c.operation === "deploy_status" && (!id || c.params.deploymentId === id));
+        checks.push({ rule: "status-after-create", ok: verified, call: call.index, detail: verified ? undefined : `no deploy_status${id ? ` for ${id}` : ""} after deploy_create` });
+      }
+    }
+
+    const ids = uuidsIn(call.params);
+    if (ids.length) {
+      const invented = ids.filter((id) => !known.has(id));
+      checks.push({
+        rule: "no-fabricated-ids",
+        ok: invented.length === 0,
+        call: call.index,
+        detail: invented.length ? `${call.operation} used ${invented.join(", ")} before any result mentioned it` : undefined,
+      });
+    }
+    for (const id of uuidsIn(call.result)) known.add(id);
+  });
+  return checks;
+}
+
+export function summarize(scenarios: ScenarioRun[]): EvalSummary {
+  const rules = Object.fromEntries(RULE_IDS.map((r) => [r, { passed: 0, total: 0 }])) as Record<RuleId, Tally>;
+  const expectations: Tally = { passed: 0, total: 0 };
+  for (const s of scenarios) {
+    for (const c of s.checks) {
+      rules[c.rule].total++;
+      if (c.ok) rules[c.rule].passed++;
+    }
+    expectations.total += s.expectations.length;
+    expectations.passed += s.expectations.filter((e) => e.ok).length;
+  }
+  const passed = RULE_IDS.reduce((n, r) => n + rules[r].passed, 0);
+  const total = RULE_IDS.reduce((n, r) => n + rules[r].total, 0);
+  return {
+    score: total ? passed / total : null,
+    rules,
+    expectations,
+    errors: scenarios.filter((s) => s.error).length,
+    calls: scenarios.reduce((n, s) => n + s.calls.length, 0),
+    modelCalls: scenarios.reduce((n, s) => n + s.modelCalls, 0),
+    tokens: {
+      input: scenarios.reduce((n, s) => n + s.tokens.input, 0),
+      output: scenarios.reduce((n, s) => n + s.tokens.output, 0),
+    },
+  };
+}
+
+// ─── Markdown ────────────────────────────────────────────────
+
+const percent = (score: number | null) => (score === null ? "—" : `${Math.round(score * 100)}%`);
+const tally = (t: Tally) => (t.total ? `${t.passed}/${t.total}` : "—");
+const cell = (s: string) => s.replace(/\|/g, "\\|").replace(/\n/g, " ");
+
+function scenarioScore(s: Pick<ScenarioRun, "checks">[]): number | null {
+  const checks = s.flatMap((r) => r.checks);
+  return checks.length ? checks.filter((c) => c.ok).length / checks.length : null;
+}
+
+// One column per report; the last is compared with the first
+export function renderComparison(reports: EvalReport[]): string {
+  const first = reports[0];
+  const last = reports[reports.length - 1];
+  const delta = (a: number | null, b: number | null) => {
+    if (a === null || b === null || reports.length < 2) return "";
+    const d = Math.round((b - a) * 100);
+    return d === 0 ? "±0" : d > 0 ? `+${d}` : String(d);
+  };
+  const header = `| | ${reports.map((r) => cell(`${r.label} (${r.model}, ${r.promptHash})`)).join(" | ")} |${reports.length > 1 ? " Δ |" : ""}`;
+  const divider = `|---|${reports.map(() => "---|").join("")}${reports.length > 1 ? "---|" : ""}`;
+  const row = (name: string, values: string[], d = "") => `| ${name} | ${values.join(" | ")} |${reports.length > 1 ? ` ${d} |` : ""}`;
+
+  const lines = [header, divider];
+  lines.push(row("**Rule score**", reports.map((r) => `**${percent(r.summary.score)}**`), delta(first.summary.score, last.summary.score)));
+  for (const rule of RULE_IDS) lines.push(row(rule, reports.map((r) => tally(r.summary.rules[rule]))));
+  lines.push(row("Expectations", reports.map((r) => tally(r.summary.expectations))));
+  lines.push(row("Errors", reports.map((r) => String(r.summary.errors))));
+  lines.push(row("A2A calls", reports.map((r) => String(r.summary.calls))));
+  lines.push(row("Model calls", reports.map((r) => String(r.summary.modelCalls))));
+  lines.push(row("Tokens in/out", reports.map((r) => `${r.summary.tokens.input}/${r.summary.tokens.output}`)));
+
+  const titles = [...new Set(reports.flatMap((r) => r.scenarios.map((s) => s.title)))];
+  lines.push("", `| Scenario | ${reports.map((r) => cell(r.label)).join(" | ")} |${reports.length > 1 ? " Δ |" : ""}`, divider);
+  for (const title of titles) {
+    const scores = reports.map((r) => scenarioScore(r.scenarios.filter((s) => s.title === title)));
+    lines.push(row(cell(title), scores.map(percent), delta(scores[0], scores[scores.length - 1])));
+  }
+  return lines.join("\n");
+}
+
+export function renderMarkdown(report: EvalReport, baseline?: EvalReport): string {
+  const lines = [
+    `# Agent eval — ${report.label}`,
+    "",
+    `Model \`${report.model}\` · prompt \`${report.promptHash}\` · ${report.runs} run(s) · ${report.startedAt} · ${(report.durationMs / 1000).toFixed(1)}s`,
+    "",
+    "## Summary",
+    "",
+    renderComparison(baseline ? [baseline, report] : [report]),
+    "",
+    "## Rules",
+    "",
+    ...RULE_IDS.map((r) => `- **${r}**: ${RULES[r]}`),
+    "",
+    "## Scenarios",
+  ];
+
+  for (const s of report.scenarios) {
+    const failed = s.checks.filter((c) => !c.ok);
+    lines.push(
+      "",
+      `### ${s.title}${report.runs > 1 ? ` (run ${s.run})` : ""}`,
+      "",
+      `\`${s.source}\` · ${s.calls.length} call(s) · ${s.modelCalls} model call(s) · rules ${percent(scenarioScore([s]))} · ${(s.durationMs / 1000).toFixed(1)}s`,
+      "",
+    );
+    if (s.error) lines.push(`**Error:** ${s.error}`, "");
+    if (s.calls.length) {
+      lines.push("| # | Operation | Params | Status |", "|---|---|---|---|");
+      for (const c of s.calls) lines.push(`| ${c.index} | ${c.operation} | \`${cell(JSON.stringify(c.params))}\` | ${c.ok ? c.status : `✗ ${c.status}`} |`);
+      lines.push("");
+    }
+    for (const c of failed) lines.push(`- ✗ ${c.rule} (call ${c.call}): ${c.detail ?? ""}`);
+    for (const e of s.expectations) lines.push(`- ${e.ok ? "✓" : "✗"} expect ${e.label}${e.detail ? ` — ${e.detail}` : ""}`);
+  }
+  return lines.join("\n") + "\n";
+}
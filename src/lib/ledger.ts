@@ -0,0 +1,285 @@
+// Local x402 payment ledger — one JSON line per signed payment, plus summaries and CSV export
+
+import { appendFileSync, existsSync, mkdirSync, readFileSync } from "fs";
+import { homedir } from "os";
+import { dirname, join } from "path";
+import { applyStreamEvent, type A2AStreamEvent, type A2ATask } from "./a2a-client.js";
+import { formatUsdc, toAtomicUsdc } from "./payment-policy.js";
+import { parseSSE } from "./sse.js";
+
+export interface LedgerEntry {
+  timestamp: string;
+  // Willform operation, or the bare JSON-RPC method when the request carried none (e.g. tasks/get)
+  operation: string;
+  method: string;
+  // USDC decimal string
+  amount: string;
+  asset: string;
+  network: string;
+  payTo: string;
+  payer?: string;
+  nonce?: string;
+  transaction?: string;
+  // False when no settlement (PAYMENT-RESPONSE) came back: an error status or a lost response. The spending
+  // policy counts a payment once it is signed, so these stay in the totals. Missing on entries from older versions,
+  // which only recorded settled payments.
+  settled?: boolean;
+  // HTTP status of the paid request; missing when it never got a response
+  status?: number;
+  taskId?: string;
+  namespaceId?: string;
+  deploymentId?: string;
+}
+
+export type LedgerGroup = "operation" | "day" | "namespace";
+
+export interface LedgerSummaryRow {
+  key: string;
+  count: number;
+  total: string;
+}
+
+export const DEFAULT_LEDGER_PATH = join(homedir(), ".willform", "payments.jsonl");
+
+// X402_LEDGER overrides the path; "off" disables recording
+export function ledgerPathFromEnv(env: NodeJS.ProcessEnv = process.env): string | null {
+  const value = env.X402_LEDGER?.trim();
+  if (value === "off") return null;
+  return value || DEFAULT_LEDGER_PATH;
+}
+
+interface PaymentHeader {
+  accepted?: { amount?: string; asset?: string; network?: string; payTo?: string };
+  payload?: { authorization?: { from?: string; nonce?: string } };
+}
+
+interface RpcBody {
+  method?: string;
+  params?: { id?: string; message?: { parts?: Array<{ kind: string; text?: string }> } };
+}
+
+const decodeHeader = <T>(value: string | null): T | null => {
+  if (!value) return null;
+  try {
+    return JSON.parse(Buffer.from(value, "base64").toString("utf8")) as T;
+  } catch {
+    return null;
+  }
+};
+
+function asString(value: unknown): string | undefined {
+  return typeof value === "string" && value ? value : undefined;
+}
+
+// Pull { operation, params } out of a message/send or message/stream body
+function operationOf(body: RpcBody): { operation?: string; params: Record<string, unknown> } {
+  const text = body.params?.message?.parts?.find((p) => p.kind === "text")?.text;
+  if (!text) return { params: {} };
+  try {
+    const parsed = JSON.parse(text) as { operation?: unknown; params?: Record<string, unknown> };
+    return { operation: asString(parsed.operation), params: parsed.params ?? {} };
+  } catch {
+    return { params: {} };
+  }
+}
+
+// Result payload of a task, unwrapped from Willy's { data } envelope
+function resultData(task: A2ATask | null): Record<string, unknown> {
+  const text = task?.artifacts?.[0]?.parts?.find((p) => p.kind === "text")?.text;
+  if (!text) return {};
+  try {
+    const parsed = JSON.parse(text) as Record<string, unknown>;
+    const data = parsed && typeof parsed === "object" && "data" in parsed ? parsed.data : parsed;
+    return data && typeof data === "object" && !Array.isArray(data) ? (data as Record<string, unknown>) : {};
+  } catch {
+    return {};
+  }
+}
+
+async function taskFromResponse(res: Response): Promise<A2ATask | null> {
+  if (!res.body) return null;
+  if (!(res.headers.get("content-type") ?? "").includes("text/event-stream")) {
+    const json = (await res.json()) as { result?: A2ATask };
+    return json.result ?? null;
+  }
+  let task: A2ATask | null = null;
+  for await (const msg of parseSSE(res.body)) {
+    const json = JSON.parse(msg.data) as { result?: A2AStreamEvent };
+    if (json.result) task = applyStreamEvent(task, json.result);
+  }
+  return task;
+}
+
+export class PaymentLedger {
+  // What earlier payments in this process learned, so tasks/get polls and deployment calls inherit it
+  private readonly taskOperations = new Map<string, string>();
+  private readonly deploymentNamespaces = new Map<string, string>();
+  // Entries still waiting on their response body; process.exit would drop them
+  private readonly pending = new Set<Promise<void>>();
+
+  constructor(readonly path: string) {}
+
+  // Resolves once every payment seen so far has been written; await it before exiting
+  async flush(): Promise<void> {
+    while (this.pending.size) await Promise.all(this.pending);
+  }
+
+  append(entry: LedgerEntry) {
+    mkdirSync(dirname(this.path), { recursive: true });
+    appendFileSync(this.path, JSON.stringify(entry) + "\n");
+  }
+
+  read(): LedgerEntry[] {
+    if (!existsSync(this.path)) return [];
+    return readFileSync(this.path, "utf8")
+      .split("\n")
+      .filter((line) => line.trim())
+      .flatMap((line) => {
+        try {
+          return [JSON.parse(line) as LedgerEntry];
+        } catch {
+          return [];
+        }
+      });
+  }
+
+  // Wraps the fetch the x402 client pays through; every PAYMENT-SIGNATURE request becomes an entry, settled or not,
+  // so the ledger agrees with the spending policy
+  wrap(baseFetch: typeof fetch): typeof fetch {
+    return async (input, init) => {
+      const request = new Request(input, init);
+      const payment = decodeHeader<PaymentHeader>(request.headers.get("payment-signature"));
+      const body = payment ? await request.clone().text().catch(() => "") : "";
+      // A ledger failure never fails the call
+      const report = (e: unknown) => console.error(`Payment ledger: ${e instanceof Error ? e.message : e}`);
+
+      const track = (recording: Promise<void>) => {
+        const done = recording.catch(report).finally(() => this.pending.delete(done));
+        this.pending.add(done);
+      };
+
+      let res: Response;
+      try {
+        res = await baseFetch(request);
+      } catch (err) {
+        if (payment) track(this.record(payment, body, null, null));
+        throw err;
+      }
+      if (payment) {
+        // Record off a clone so the caller's stream is untouched
+        track(this.record(payment, body, res.headers.get("payment-response"), res.clone()));
+      }
+      return res;
+    };
+  }
+
+  private async record(payment: PaymentHeader, rawBody: string, settleHeader: string | null, res: Response | null) {
+    let rpc: RpcBody = {};
+    try {
+      rpc = JSON.parse(rawBody) as RpcBody;
+    } catch { /* non-JSON body */ }
+    const method = rpc.method ?? "unknown";
+    const { operation, params } = operationOf(rpc);
+    const settlement = decodeHeader<{ transaction?: string; payer?: string }>(settleHeader);
+
+    // A cloned body left unread keeps the caller's cancel() of the original pending forever, so drop it when unused
+    if (res && !res.ok) void res.body?.cancel().catch(() => {});
+    const task = res?.ok ? await taskFromResponse(res).catch(() => null) : null;
+    const taskId = task?.id ?? asString(rpc.params?.id);
+    const data = resultData(task);
+
+    const resolved = operation ?? (taskId ? this.taskOperations.get(taskId) : undefined) ?? method;
+    if (taskId && operation) this.taskOperations.set(taskId, operation);
+
+    const deploymentId = asString(params.deploymentId) ?? asString(data.deploymentId);
+    const namespaceId =
+      asString(params.namespaceId) ??
+      asString(data.namespaceId) ??
+      (resolved === "namespace_create" ? asString(data.id) : undefined) ??
+      (deploymentId ? this.deploymentNamespaces.get(deploymentId) : undefined);
+    if (deploymentId && namespaceId) this.deploymentNamespaces.set(deploymentId, namespaceId);
+
+    const { accepted = {}, payload = {} } = payment;
+    this.append({
+      timestamp: new Date().toISOString(),
+      operation: resolved,
+      method,
+      amount: formatUsdc(BigInt(accepted.amount ?? "0")),
+      asset: accepted.asset ?? "",
+      network: accepted.network ?? "",
+      payTo: accepted.payTo ?? "",
+      payer: settlement?.payer ?? payload.authorization?.from,
+      nonce: payload.authorization?.nonce,
+      transaction: settlement?.transaction,
+      settled: settleHeader !== null,
+      status: res?.status,
+      taskId,
+      namespaceId,
+      deploymentId,
+    });
+  }
+}
+
+// Entries written by older sessions may lack a namespace on deployment calls; fill it from siblings
+function namespaceIndex(entries: LedgerEntry[]): Map<string, string> {
+  const index = new Map<string, string>();
+  for (const e of entries) {
+    if (e.deploymentId && e.namespaceId) index.set(e.deploymentId, e.namespaceId);
+  }
+  return index;
+}
+
+export function summarizeLedger(entries: LedgerEntry[], by: LedgerGroup): LedgerSummaryRow[] {
+  const index = by === "namespace" ? namespaceIndex(entries) : null;
+  const groups = new Map<string, { count: number; total: bigint }>();
+  for (const e of entries) {
+    const key =
+      by === "operation"
+        ? e.operation
+        : by === "day"
+          ? e.timestamp.slice(0, 10)
+          : (e.namespaceId ?? (e.deploymentId && index?.get(e.deploymentId)) ?? "(none)");
+    const group = groups.get(key) ?? { count: 0, total: 0n };
+    group.count++;
+    group.total += toAtomicUsdc(e.amount);
+    groups.set(key, group);
+  }
+  return [...groups.entries()]
+    .map(([key, { count, total }]) => ({ key, count, total: formatUsdc(total), atomic: total }))
+    .sort((a, b) => (by === "day" ? a.key.localeCompare(b.key) : Number(b.atomic - a.atomic)))
+    .map(({ key, count, total }) => ({ key, count, total }));
+}
+
+export function ledgerTotal(entries: LedgerEntry[]): string {
+  return formatUsdc(entries.reduce((sum, e) => sum + toAtomicUsdc(e.amount), 0n));
+}
+
+const CSV_COLUMNS: (keyof LedgerEntry)[] = [
+  "timestamp",
+  "operation",
+  "method",
+  "amount",
+  "asset",
+  "network",
+  "payTo",
+  "payer",
+  "nonce",
+  "transaction",
+  "settled",
+  "status",
+  "taskId",
+  "namespaceId",
+  "deploymentId",
+];
+
+function csvCell(value: string | number | boolean | undefined): string {
+  if (value === undefined) return "";
+  if (typeof value !== "string") return String(value);
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+export function ledgerToCsv(entries: LedgerEntry[]): string {
+  const lines = [CSV_COLUMNS.join(",")];
+  for (const e of entries) lines.push(CSV_COLUMNS.map((c) => csvCell(e[c])).join(","));
+  return lines.join("\n") + "\n";
+}
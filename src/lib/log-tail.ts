@@ -0,0 +1,119 @@
+// Follows deploy_logs by polling: each fetch asks for lines since the newest one already shown
+
+import type { A2AClient, ExecuteOptions } from "./a2a-client.js";
+import { completed } from "./operations.js";
+
+export interface LogLine {
+  // ISO timestamp when the server provides one; untimestamped lines are deduplicated by content
+  timestamp?: string;
+  pod?: string;
+  message: string;
+}
+
+export interface TailOptions {
+  deploymentId: string;
+  // ISO timestamp; only lines after it are shown
+  since?: string;
+  // Lines to show from the first fetch (default 100)
+  tail?: number;
+  grep?: RegExp;
+  // Keep polling until the signal aborts
+  follow?: boolean;
+  intervalMs?: number;
+  signal?: AbortSignal;
+  execute?: ExecuteOptions;
+  onLine: (line: LogLine) => void;
+}
+
+// Willform log lines look like `2026-01-02T03:04:05.678Z [web-7f9c-abcde] message`
+const LINE = /^(\d{4}-\d{2}-\d{2}T\S+)\s+(?:\[([^\]]+)\]\s+)?(.*)$/;
+
+// Lines repeated across polls are recognised within this window before the newest timestamp
+const OVERLAP_MS = 1_000;
+
+function parseLine(raw: string): LogLine {
+  const m = LINE.exec(raw);
+  if (!m || Number.isNaN(Date.parse(m[1]))) return { message: raw };
+  return { timestamp: m[1], pod: m[2], message: m[3] };
+}
+
+// deploy_logs returns a newline-joined string on Willform; accept arrays of strings or objects too
+export function parseLogLines(logs: unknown): LogLine[] {
+  if (typeof logs === "string") return logs.split("\n").filter((l) => l.trim()).map(parseLine);
+  if (!Array.isArray(logs)) return logs == null ? [] : [{ message: JSON.stringify(logs) }];
+  return logs.map((item): LogLine => {
+    if (typeof item === "string") return parseLine(item);
+    const o = (item ?? {}) as Record<string, unknown>;
+    return {
+      timestamp: typeof o.timestamp === "string" ? o.timestamp : undefined,
+      pod: typeof o.pod === "string" ? o.pod : undefined,
+      message: String(o.message ?? o.line ?? JSON.stringify(item)),
+    };
+  });
+}
+
+// "90s", "15m", "2h", "1d" ago, or an absolute date/time
+export function parseSince(value: string, now = Date.now()): string {
+  const rel = /^(\d+)(s|m|h|d)$/.exec(value);
+  if (rel) {
+    const unit = { s: 1_000, m: 60_000, h: 3_600_000, d: 86_400_000 }[rel[2] as "s" | "m" | "h" | "d"];
+    return new Date(now - Number(rel[1]) * unit).toISOString();
+  }
+  const at = Date.parse(value);
+  if (Number.isNaN(at)) throw new Error(`Invalid --since "${value}" (use 30s, 15m, 2h, 1d or an ISO date)`);
+  return new Date(at).toISOString();
+}
+
+const keyOf = (l: LogLine) => `${l.timestamp ?? ""}\u0000${l.pod ?? ""}\u0000${l.message}`;
+
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    if (signal?.aborted) return resolve();
+    const timer = setTimeout(done, ms);
+    signal?.addEventListener("abort", done, { once: true });
+    function done() {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", done);
+      resolve();
+    }
+  });
+}
+
+export async function tailLogs(client: A2AClient, options: TailOptions): Promise<void> {
+  const { deploymentId, grep, follow = false, intervalMs = 2_000, signal, execute, onLine } = options;
+  let since = options.since;
+  let tail = options.tail ?? 100;
+  let newest = since ? Date.parse(since) : 0;
+  let seen = new Set<string>();
+  // Older lines the first fetch left out because of --tail must not reappear through the overlap
+  let floor = 0;
+
+  while (!signal?.aborted) {
+    const data = await completed("deploy_logs", client.deploy.logs({ deploymentId, tail, since }, execute));
+    if (signal?.aborted) break;
+
+    for (const line of parseLogLines(data.logs)) {
+      const key = keyOf(line);
+      if (seen.has(key)) continue;
+      seen.add(key);
+      const at = line.timestamp ? Date.parse(line.timestamp) : NaN;
+      if (at < floor) continue;
+      if (!Number.isNaN(at)) newest = Math.max(newest, at);
+      if (!grep || grep.test(line.message) || (line.pod !== undefined && grep.test(line.pod))) onLine(line);
+    }
+    if (!follow) break;
+    floor ||= newest;
+
+    // Ask again with a small overlap so lines sharing the newest timestamp are not lost, and forget older keys
+    if (newest) {
+      since = new Date(newest - OVERLAP_MS).toISOString();
+      seen = new Set([...seen].filter((k) => {
+        const ts = k.slice(0, k.indexOf("\u0000"));
+        return !ts || Date.parse(ts) >= newest - OVERLAP_MS;
+      }));
+    }
+    // --tail only limits the backlog; later polls must not drop a burst that arrived within one interval
+    tail = Math.max(tail, 1_000);
+    await wait(intervalMs, signal);
+  }
+}
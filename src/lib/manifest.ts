@@ -0,0 +1,129 @@
+// Declarative stack manifests (YAML or JSON) — namespaces, their deployments, replicas and env
+
+import { readFileSync } from "fs";
+import { extname } from "path";
+import { parse as parseYaml } from "yaml";
+import type { ChartType } from "./operations.js";
+
+export interface DeploymentManifest {
+  name: string;
+  image: string;
+  chartType?: ChartType;
+  port?: number;
+  replicas?: number;
+  // Authoritative: variables missing here are removed on apply
+  env?: Record<string, string>;
+}
+
+export interface NamespaceManifest {
+  name: string;
+  allocatedCores?: number;
+  deployments: DeploymentManifest[];
+}
+
+export interface Manifest {
+  namespaces: NamespaceManifest[];
+}
+
+export class ManifestError extends Error {
+  constructor(
+    message: string,
+    readonly issues: string[] = [],
+  ) {
+    super(issues.length ? `${message}:\n${issues.map((i) => `  - ${i}`).join("\n")}` : message);
+    this.name = "ManifestError";
+  }
+}
+
+const CHART_TYPES: ChartType[] = ["web", "database", "queue", "cache", "storage", "worker", "cronjob", "job", "static-site"];
+const DNS_LABEL = /^[a-z0-9]([-a-z0-9]*[a-z0-9])?$/;
+
+const isObject = (v: unknown): v is Record<string, unknown> => !!v && typeof v === "object" && !Array.isArray(v);
+
+export function validateManifest(raw: unknown): Manifest {
+  if (!isObject(raw)) throw new ManifestError("Manifest is not an object");
+
+  const issues: string[] = [];
+  const positiveInt = (v: unknown) => typeof v === "number" && Number.isInteger(v) && v >= 0;
+
+  if (!Array.isArray(raw.namespaces) || raw.namespaces.length === 0) {
+    throw new ManifestError("Invalid manifest", ["namespaces: expected a non-empty list"]);
+  }
+
+  const namespaces: NamespaceManifest[] = [];
+  const seenNs = new Set<string>();
+  raw.namespaces.forEach((ns: unknown, i) => {
+    const path = `namespaces[${i}]`;
+    if (!isObject(ns)) return issues.push(`${path}: expected object`);
+    if (typeof ns.name !== "string" || !DNS_LABEL.test(ns.name)) issues.push(`${path}.name: expected a DNS label`);
+    else if (seenNs.has(ns.name)) issues.push(`${path}.name: duplicate namespace "${ns.name}"`);
+    else seenNs.add(ns.name);
+    if (ns.allocatedCores !== undefined && !(typeof ns.allocatedCores === "number" && ns.allocatedCores > 0)) {
+      issues.push(`${path}.allocatedCores: expected a positive number`);
+    }
+
+    const deployments: DeploymentManifest[] = [];
+    const seen = new Set<string>();
+    if (ns.deployments !== undefined && !Array.isArray(ns.deployments)) issues.push(`${path}.deployments: expected a list`);
+    (Array.isArray(ns.deployments) ? ns.deployments : []).forEach((d: unknown, j) => {
+      const dPath = `${path}.deployments[${j}]`;
+      if (!isObject(d)) return issues.push(`${dPath}: expected object`);
+      if (typeof d.name !== "string" || !DNS_LABEL.test(d.name)) issues.push(`${dPath}.name: expected a DNS label`);
+      else if (seen.has(d.name)) issues.push(`${dPath}.name: duplicate deployment "${d.name}"`);
+      else seen.add(d.name);
+      if (typeof d.image !== "string" || !d.image) issues.push(`${dPath}.image: expected non-empty string`);
+      if (d.chartType !== undefined && !CHART_TYPES.includes(d.chartType as ChartType)) {
+        issues.push(`${dPath}.chartType: expected one of ${CHART_TYPES.join(", ")}`);
+      }
+      if (d.port !== undefined && !(positiveInt(d.port) && (d.port as number) > 0 && (d.port as number) < 65536)) {
+        issues.push(`${dPath}.port: expected 1-65535`);
+      }
+      if (d.replicas !== undefined && !positiveInt(d.replicas)) issues.push(`${dPath}.replicas: expected a non-negative integer`);
+      if (d.env !== undefined && !isObject(d.env)) issues.push(`${dPath}.env: expected a map of strings`);
+
+      deployments.push({
+        name: d.name as string,
+        image: d.image as string,
+        chartType: d.chartType as ChartType | undefined,
+        port: d.port as number | undefined,
+        replicas: d.replicas as number | undefined,
+        // YAML turns `PORT: 8080` into a number; env values are always strings on the wire
+        env: isObject(d.env) ? Object.fromEntries(Object.entries(d.env).map(([k, v]) => [k, String(v)])) : undefined,
+      });
+    });
+
+    namespaces.push({
+      name: ns.name as string,
+      allocatedCores: ns.allocatedCores as number | undefined,
+      deployments,
+    });
+  });
+
+  if (issues.length) throw new ManifestError("Invalid manifest", issues);
+  return { namespaces };
+}
+
+export function parseManifest(text: string, source = "manifest"): Manifest {
+  let raw: unknown;
+  try {
+    // YAML is a superset of JSON, so one parser covers both
+    raw = parseYaml(text);
+  } catch (e) {
+    throw new ManifestError(`Cannot parse ${source}: ${e instanceof Error ? e.message : e}`);
+  }
+  return validateManifest(raw);
+}
+
+export function loadManifest(path: string): Manifest {
+  let text: string;
+  try {
+    text = readFileSync(path === "-" ? 0 : path, "utf8");
+  } catch (e) {
+    throw new ManifestError(`Cannot read ${path}: ${e instanceof Error ? e.message : e}`);
+  }
+  const ext = extname(path).toLowerCase();
+  if (ext && ![".yaml", ".yml", ".json"].includes(ext)) {
+    throw new ManifestError(`Unsupported manifest extension "${ext}" (use .yaml, .yml or .json)`);
+  }
+  return parseManifest(text, path);
+}
@@ -0,0 +1,49 @@
+// A failed operation must surface the server's reason, not just "<operation> failed"
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { A2AClient, type A2AStreamEvent } from "./a2a-client.js";
+import { TaskFailedError } from "./errors.js";
+import { completed } from "./operations.js";
+import { startMockServer } from "../mock/server.js";
+
+// Answers every request with the given events as one message/stream response
+function streamingFetch(events: A2AStreamEvent[]): typeof fetch {
+  const body = events.map((result) => `data: ${JSON.stringify({ jsonrpc: "2.0", id: 1, result })}\n\n`).join("");
+  return async () => new Response(body, { headers: { "Content-Type": "text/event-stream" } });
+}
+
+test("completed: a failed streamed task reports the mock server's message", async () => {
+  const mock = await startMockServer({ port: 0, latencyMs: 0, quiet: true });
+  try {
+    const client = new A2AClient({ baseUrl: mock.url, fetchWithPayment: fetch });
+    await assert.rejects(completed("deploy_logs", client.deploy.logs({ deploymentId: "nonexistent-id" })), (err) => {
+      assert.ok(err instanceof TaskFailedError);
+      assert.match(err.message, /^deploy_logs failed: Deployment nonexistent-id not found/);
+      return true;
+    });
+  } finally {
+    await mock.close();
+  }
+});
+
+test("completed: without a status message the payload's error is the reason", async () => {
+  const ids = { taskId: "t-1", contextId: "c-1" };
+  const client = new A2AClient({
+    baseUrl: "http://willy.invalid",
+    fetchWithPayment: streamingFetch([
+      { kind: "status-update", ...ids, status: { state: "working", timestamp: "2026-01-01T00:00:00Z" }, final: false },
+      {
+        kind: "artifact-update",
+        ...ids,
+        artifact: { artifactId: "a-1", name: "result", parts: [{ kind: "text", text: JSON.stringify({ success: false, error: "Deployment d-1 not found" }) }] },
+        lastChunk: true,
+      },
+      { kind: "status-update", ...ids, status: { state: "failed", timestamp: "2026-01-01T00:00:01Z" }, final: true },
+    ]),
+  });
+  await assert.rejects(completed("deploy_logs", client.deploy.logs({ deploymentId: "d-1" })), {
+    name: "TaskFailedError",
+    message: "deploy_logs failed: Deployment d-1 not found",
+  });
+});
@@ -0,0 +1,271 @@
+// Typed facade over Willform operations — one method per operation with typed params and results
+
+import type { A2AClient, A2ATask, ExecuteOptions } from "./a2a-client.js";
+import { TaskFailedError, taskStatusMessage } from "./errors.js";
+
+// ─── Shared types ────────────────────────────────────────────
+
+export type ChartType =
+  | "web"
+  | "database"
+  | "queue"
+  | "cache"
+  | "storage"
+  | "worker"
+  | "cronjob"
+  | "job"
+  | "static-site";
+
+export interface OperationResult<T> {
+  task: A2ATask;
+  data: T;
+  message?: string;
+  // The artifact as the server sent it, before unwrapping and decoding; failed tasks carry their error here
+  payload: unknown;
+}
+
+// ─── Credits / charts ────────────────────────────────────────
+
+export interface CreditsBalance {
+  balance: string;
+  estimatedRuntime?: string;
+}
+
+export interface ChartInfo {
+  type: ChartType;
+  description?: string;
+}
+
+// ─── Namespaces ──────────────────────────────────────────────
+
+export interface Namespace {
+  id: string;
+  shortId: string;
+  name: string;
+  status: string;
+  allocatedCores: number;
+}
+
+export interface NamespaceCreateParams {
+  name: string;
+  allocatedCores?: number;
+}
+
+// ─── Deployments ─────────────────────────────────────────────
+
+export interface DeploymentSpec {
+  namespaceId: string;
+  name: string;
+  image: string;
+  chartType?: ChartType;
+  port?: number;
+  env?: Record<string, string>;
+}
+
+export interface Deployment {
+  deploymentId: string;
+  name: string;
+  image: string;
+  status: string;
+  replicas?: number;
+}
+
+export interface DeploymentStatus {
+  deploymentId: string;
+  status: string;
+  replicas?: number;
+  readyReplicas?: number;
+  domain?: string;
+  [key: string]: unknown;
+}
+
+export interface PreflightResult {
+  [key: string]: unknown;
+}
+
+export interface DeploymentLogs {
+  logs: string | unknown;
+}
+
+export interface DeploymentEvent {
+  type?: string;
+  reason?: string;
+  message?: string;
+  timestamp?: string;
+  [key: string]: unknown;
+}
+
+export interface ScaleResult {
+  deploymentId: string;
+  replicas: number;
+  [key: string]: unknown;
+}
+
+export interface UpdateEnvParams {
+  deploymentId: string;
+  env: Record<string, string>;
+  merge?: boolean;
+}
+
+type Raw = Record<string, unknown>;
+
+// ─── Payload normalisation ───────────────────────────────────
+
+// Willy wraps most payloads as { success, message, data }; older operations return the payload bare
+function unwrapPayload(payload: unknown): { data: unknown; message?: string } {
+  if (payload && typeof payload === "object" && !Array.isArray(payload) && "data" in payload) {
+    const { data, message } = payload as { data: unknown; message?: unknown };
+    return { data, message: typeof message === "string" ? message : undefined };
+  }
+  return { data: payload };
+}
+
+// { success: false, error } from Willy, or a bare text artifact
+function payloadError(payload: unknown): string | undefined {
+  if (typeof payload === "string") return payload || undefined;
+  const error = (payload as { error?: unknown } | null)?.error;
+  if (error === undefined || error === null) return undefined;
+  return typeof error === "string" ? error : JSON.stringify(error);
+}
+
+function asObject(data: unknown): Raw {
+  return data && typeof data === "object" && !Array.isArray(data) ? (data as Raw) : {};
+}
+
+function asArray(data: unknown, key?: string): Raw[] {
+  if (Array.isArray(data)) return data as Raw[];
+  if (key) {
+    const nested = asObject(data)[key];
+    if (Array.isArray(nested)) return nested as Raw[];
+  }
+  return [];
+}
+
+function toNamespace(raw: Raw): Namespace {
+  return {
+    id: String(raw.id ?? raw.namespaceId ?? ""),
+    shortId: String(raw.shortId ?? ""),
+    name: String(raw.name ?? ""),
+    status: String(raw.status ?? "unknown"),
+    allocatedCores: Number(raw.allocatedCores ?? 0),
+  };
+}
+
+function toDeployment(raw: Raw): Deployment {
+  return {
+    deploymentId: String(raw.deploymentId ?? raw.id ?? ""),
+    name: String(raw.name ?? ""),
+    image: String(raw.image ?? ""),
+    status: String(raw.status ?? "unknown"),
+    replicas: raw.replicas === undefined ? undefined : Number(raw.replicas),
+  };
+}
+
+// Decoders shared by the facade and callers that fetch tasks another way (e.g. A2AClient.executeBatch)
+export function decodeCreditsBalance(d: unknown): CreditsBalance {
+  const o = asObject(d);
+  return {
+    balance: String(o.balance ?? "0"),
+    estimatedRuntime: o.estimatedRuntime === undefined ? undefined : String(o.estimatedRuntime),
+  };
+}
+
+export function decodeDeploymentStatus(d: unknown, deploymentId: string): DeploymentStatus {
+  const o = asObject(d);
+  return { ...o, deploymentId: String(o.deploymentId ?? o.id ?? deploymentId), status: String(o.status ?? "unknown") };
+}
+
+export function decodeDeploymentEvents(d: unknown): DeploymentEvent[] {
+  return asArray(d, "events") as DeploymentEvent[];
+}
+
+export function operationResult<T>(client: A2AClient, task: A2ATask, map: (data: unknown) => T): OperationResult<T> {
+  const payload = client.extractData(task);
+  const { data, message } = unwrapPayload(payload);
+  return { task, data: map(data), message, payload };
+}
+
+// ─── Facade ──────────────────────────────────────────────────
+
+export function createOperations(client: A2AClient) {
+  async function invoke<T>(
+    operation: string,
+    params: object,
+    options: ExecuteOptions | undefined,
+    map: (data: unknown) => T,
+  ): Promise<OperationResult<T>> {
+    return operationResult(client, await client.execute(operation, params as Raw, options), map);
+  }
+
+  return {
+    credits: {
+      balance: (options?: ExecuteOptions) => invoke("credits_balance", {}, options, decodeCreditsBalance),
+    },
+
+    chart: {
+      list: (options?: ExecuteOptions) =>
+        invoke("chart_list", {}, options, (d) =>
+          asArray(d, "charts").map((c): ChartInfo => ({
+            type: String(c.type) as ChartType,
+            description: c.description === undefined ? undefined : String(c.description),
+          })),
+        ),
+    },
+
+    namespace: {
+      create: (params: NamespaceCreateParams, options?: ExecuteOptions) =>
+        invoke("namespace_create", params, options, (d) => toNamespace(asObject(d))),
+      list: (options?: ExecuteOptions) =>
+        invoke("namespace_list", {}, options, (d) => asArray(d, "namespaces").map(toNamespace)),
+      get: (params: { namespaceId: string }, options?: ExecuteOptions) =>
+        invoke("namespace_get", params, options, (d) => asObject(d)),
+      delete: (params: { namespaceId: string }, options?: ExecuteOptions) =>
+        invoke("namespace_delete", params, options, (d) => asObject(d)),
+    },
+
+    deploy: {
+      preflight: (params: DeploymentSpec, options?: ExecuteOptions) =>
+        invoke("deploy_preflight", params, options, (d): PreflightResult => asObject(d)),
+      create: (params: DeploymentSpec, options?: ExecuteOptions) =>
+        invoke("deploy_create", params, options, (d) => toDeployment({ ...params, ...asObject(d) })),
+      status: (params: { deploymentId: string }, options?: ExecuteOptions) =>
+        invoke("deploy_status", params, options, (d) => decodeDeploymentStatus(d, params.deploymentId)),
+      list: (params: { namespaceId: string }, options?: ExecuteOptions) =>
+        invoke("deploy_list", params, options, (d) => asArray(d, "deployments").map(toDeployment)),
+      logs: (params: { deploymentId: string; tail?: number; since?: string }, options?: ExecuteOptions) =>
+        invoke("deploy_logs", params, options, (d): DeploymentLogs => {
+          const o = asObject(d);
+          return { logs: typeof d === "string" ? d : (o.logs ?? d) };
+        }),
+      diagnose: (params: { deploymentId: string }, options?: ExecuteOptions) =>
+        invoke("deploy_diagnose", params, options, (d) => asObject(d)),
+      scale: (params: { deploymentId: string; replicas: number }, options?: ExecuteOptions) =>
+        invoke("deploy_scale", params, options, (d): ScaleResult => {
+          const o = asObject(d);
+          return { ...o, deploymentId: params.deploymentId, replicas: Number(o.replicas ?? params.replicas) };
+        }),
+      events: (params: { deploymentId: string }, options?: ExecuteOptions) =>
+        invoke("deploy_events", params, options, decodeDeploymentEvents),
+      stop: (params: { deploymentId: string }, options?: ExecuteOptions) =>
+        invoke("deploy_stop", params, options, (d) => asObject(d)),
+      restart: (params: { deploymentId: string }, options?: ExecuteOptions) =>
+        invoke("deploy_restart", params, options, (d) => asObject(d)),
+      delete: (params: { deploymentId: string }, options?: ExecuteOptions) =>
+        invoke("deploy_delete", params, options, (d) => asObject(d)),
+      updateEnv: (params: UpdateEnvParams, options?: ExecuteOptions) =>
+        invoke("deploy_update_env", params, options, (d) => asObject(d)),
+    },
+  };
+}
+
+export type WillformOperations = ReturnType<typeof createOperations>;
+
+// Willform reports operation failures as failed tasks, not RPC errors; callers that chain operations must stop on them
+export async function completed<T>(what: string, run: Promise<OperationResult<T>>): Promise<T> {
+  const { task, data, message, payload } = await run;
+  if (task.status.state !== "completed") {
+    // The decoders drop fields they don't know, so the reason comes from the task and the undecoded payload
+    throw new TaskFailedError(task, what, taskStatusMessage(task) ?? payloadError(payload) ?? message);
+  }
+  return data;
+}
@@ -0,0 +1,95 @@
+// The spending policy is the only thing between the CLI and real USDC; every limit gets its edge case here
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { wrapFetchWithPayment, x402Client } from "@x402/fetch";
+import { ExactEvmScheme } from "@x402/evm";
+import { privateKeyToAccount } from "viem/accounts";
+import { A2AClient } from "./a2a-client.js";
+import { PaymentPolicyError, SpendingPolicy, type PaymentRequest } from "./payment-policy.js";
+import { startMockServer } from "../mock/server.js";
+
+const PAY_TO = "0x209693Bc6afc0C5328bA36FaF03C514EF312287C";
+const NETWORK = "eip155:84532" as const;
+const account = privateKeyToAccount("0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d");
+
+// Requirements in atomic units, as x402 offers them (1 USDC = 1_000_000)
+const offer = (amount: bigint, overrides: { network?: `${string}:${string}`; payTo?: string } = {}) => ({
+  amount: amount.toString(),
+  network: overrides.network ?? NETWORK,
+  payTo: overrides.payTo ?? PAY_TO,
+});
+
+// Runs `body` with a client that pays a mock Willy charging `price` per request, wired like loadConfig does
+async function withPaidClient(price: string, policy: SpendingPolicy, body: (client: A2AClient) => Promise<void>) {
+  const mock = await startMockServer({ port: 0, latencyMs: 0, quiet: true, x402: { price, payTo: PAY_TO } });
+  try {
+    const x402 = x402Client.fromConfig({ schemes: [{ network: "eip155:*", client: new ExactEvmScheme(account) }] });
+    policy.attach(x402);
+    const fetchWithPayment = policy.guard(wrapFetchWithPayment(fetch, x402));
+    await body(new A2AClient({ baseUrl: mock.url, fetchWithPayment, transport: { retries: 0 } }));
+  } finally {
+    await mock.close();
+  }
+}
+
+test("violation: a payment exactly at the per-request cap fits; one atomic unit more does not", () => {
+  const policy = new SpendingPolicy({ maxPerRequest: "0.01" });
+  assert.equal(policy.violation(offer(10_000n)), null);
+  assert.equal(policy.violation(offer(10_001n)), "0.010001 USDC exceeds the per-request cap of 0.01 USDC");
+});
+
+test("violation: session and daily budgets count what was already spent", () => {
+  const policy = new SpendingPolicy({ sessionBudget: "0.03", dailyBudget: "0.05" });
+  policy.record(10_000n);
+  policy.record(10_000n);
+  assert.equal(policy.spentThisSession, "0.02");
+  assert.equal(policy.violation(offer(10_000n)), null);
+  assert.match(policy.violation(offer(10_001n)) ?? "", /^session budget of 0.03 USDC would be exceeded \(spent 0.02\)/);
+
+  // Earlier sessions today count against the daily budget, not the session one
+  policy.carryOverToday("0.025");
+  assert.equal(policy.spentToday, "0.045");
+  assert.equal(policy.violation(offer(5_000n)), null);
+  assert.match(policy.violation(offer(5_001n)) ?? "", /^daily budget of 0.05 USDC would be exceeded \(spent 0.045 today\)/);
+});
+
+test("violation: networks and payees off the allow-lists are refused", () => {
+  const policy = new SpendingPolicy({ allowedNetworks: ["eip155:8453", "solana:*"], allowedPayees: [PAY_TO.toLowerCase()] });
+  assert.match(policy.violation(offer(1n)) ?? "", /^network eip155:84532 is not allowed/);
+  assert.equal(policy.violation(offer(1n, { network: "eip155:8453" })), null);
+  assert.equal(policy.violation(offer(1n, { network: "solana:mainnet" })), null);
+  assert.match(policy.violation(offer(1n, { network: "eip155:8453", payTo: account.address })) ?? "", /is not on the allow-list$/);
+});
+
+test("attach: paid calls stop at the session budget with a PaymentPolicyError", async () => {
+  const policy = new SpendingPolicy({ sessionBudget: "0.02" });
+  await withPaidClient("0.01", policy, async (client) => {
+    await client.execute("credits_balance");
+    await client.execute("credits_balance");
+    assert.equal(policy.spentThisSession, "0.02");
+    await assert.rejects(client.execute("credits_balance"), (err) => {
+      assert.ok(err instanceof PaymentPolicyError);
+      assert.match(err.message, /^Payment refused by policy: session budget of 0.02 USDC would be exceeded/);
+      return true;
+    });
+    assert.equal(policy.spentThisSession, "0.02");
+  });
+});
+
+test("attach: a declined approval signs nothing", async () => {
+  const asked: PaymentRequest[] = [];
+  const policy = new SpendingPolicy({}, async (request) => {
+    asked.push(request);
+    return false;
+  });
+  await withPaidClient("0.01", policy, async (client) => {
+    await assert.rejects(client.execute("credits_balance"), {
+      name: "PaymentPolicyError",
+      message: "Payment of 0.01 USDC was not approved",
+    });
+  });
+  assert.equal(asked.length, 1);
+  assert.deepEqual({ amount: asked[0].amount, network: asked[0].network, payTo: asked[0].payTo }, { amount: "0.01", network: NETWORK, payTo: PAY_TO });
+  assert.equal(policy.spentThisSession, "0");
+});
@@ -0,0 +1,202 @@
+// Spending policy for x402 payments — caps, budgets, allow-lists and an optional approval prompt
+
+import type { PaymentRequirements, x402Client } from "@x402/fetch";
+
+const USDC_DECIMALS = 6;
+
+export interface SpendingLimits {
+  // Amounts are USDC decimal strings, e.g. "0.01"
+  maxPerRequest?: string;
+  dailyBudget?: string;
+  sessionBudget?: string;
+  // CAIP-2 networks (e.g. "eip155:8453"); "eip155:*" allows a whole namespace
+  allowedNetworks?: string[];
+  allowedPayees?: string[];
+}
+
+export interface PaymentRequest {
+  amount: string;
+  network: string;
+  payTo: string;
+  asset: string;
+  resource?: string;
+}
+
+// Resolves true to sign the payment, false to refuse it
+export type ApprovalHandler = (request: PaymentRequest) => Promise<boolean>;
+
+export class PaymentPolicyError extends Error {
+  constructor(
+    message: string,
+    public readonly request: PaymentRequest,
+  ) {
+    super(message);
+    this.name = "PaymentPolicyError";
+  }
+}
+
+export function toAtomicUsdc(amount: string): bigint {
+  if (!/^\d+(\.\d+)?$/.test(amount.trim())) throw new Error(`Invalid USDC amount: ${amount}`);
+  const [whole, frac = ""] = amount.trim().split(".");
+  return BigInt(whole) * 10n ** BigInt(USDC_DECIMALS) + BigInt(frac.padEnd(USDC_DECIMALS, "0").slice(0, USDC_DECIMALS));
+}
+
+export function formatUsdc(atomic: bigint): string {
+  const whole = atomic / 10n ** BigInt(USDC_DECIMALS);
+  const frac = (atomic % 10n ** BigInt(USDC_DECIMALS)).toString().padStart(USDC_DECIMALS, "0").replace(/0+$/, "");
+  return frac ? `${whole}.${frac}` : whole.toString();
+}
+
+function networkAllowed(network: string, allowed: string[]): boolean {
+  return allowed.some((pattern) =>
+    pattern.endsWith(":*") ? network.startsWith(pattern.slice(0, -1)) : network === pattern,
+  );
+}
+
+const dayKey = (date = new Date()) => date.toISOString().slice(0, 10);
+
+export class SpendingPolicy {
+  private readonly maxPerRequest?: bigint;
+  private readonly dailyBudget?: bigint;
+  private readonly sessionBudget?: bigint;
+  private readonly allowedNetworks?: string[];
+  private readonly allowedPayees?: Set<string>;
+  private sessionSpent = 0n;
+  private readonly dailySpent = new Map<string, bigint>();
+  private denial: PaymentPolicyError | null = null;
+
+  constructor(
+    readonly limits: SpendingLimits = {},
+    private readonly approve?: ApprovalHandler,
+  ) {
+    if (limits.maxPerRequest) this.maxPerRequest = toAtomicUsdc(limits.maxPerRequest);
+    if (limits.dailyBudget) this.dailyBudget = toAtomicUsdc(limits.dailyBudget);
+    if (limits.sessionBudget) this.sessionBudget = toAtomicUsdc(limits.sessionBudget);
+    if (limits.allowedNetworks?.length) this.allowedNetworks = limits.allowedNetworks;
+    if (limits.allowedPayees?.length) this.allowedPayees = new Set(limits.allowedPayees.map((p) => p.toLowerCase()));
+  }
+
+  get spentThisSession(): string {
+    return formatUsdc(this.sessionSpent);
+  }
+
+  get spentToday(): string {
+    return formatUsdc(this.dailySpent.get(dayKey()) ?? 0n);
+  }
+
+  // One-line description of the active limits, e.g. "≤ 0.01/req · 1/session · 5/day USDC"
+  describe(): string {
+    const { maxPerRequest, sessionBudget, dailyBudget, allowedNetworks, allowedPayees } = this.limits;
+    const amounts = [
+      maxPerRequest && `≤ ${maxPerRequest}/req`,
+      sessionBudget && `${sessionBudget}/session`,
+      dailyBudget && `${dailyBudget}/day`,
+    ].filter(Boolean);
+    const parts = amounts.length ? [`${amounts.join(" · ")} USDC`] : [];
+    if (allowedNetworks?.length) parts.push(`networks ${allowedNetworks.join(",")}`);
+    if (allowedPayees?.length) parts.push(`${allowedPayees.length} payee(s)`);
+    return parts.length ? parts.join(" · ") : "unlimited";
+  }
+
+  // Returns why a payment breaks the limits, or null when it fits
+  violation(requirements: Pick<PaymentRequirements, "amount" | "network" | "payTo">): string | null {
+    const amount = BigInt(requirements.amount);
+    if (this.allowedNetworks && !networkAllowed(requirements.network, this.allowedNetworks)) {
+      return `network ${requirements.network} is not allowed (allowed: ${this.allowedNetworks.join(", ")})`;
+    }
+    if (this.allowedPayees && !this.allowedPayees.has(requirements.payTo.toLowerCase())) {
+      return `payee ${requirements.payTo} is not on the allow-list`;
+    }
+    if (this.maxPerRequest !== undefined && amount > this.maxPerRequest) {
+      return `${formatUsdc(amount)} USDC exceeds the per-request cap of ${formatUsdc(this.maxPerRequest)} USDC`;
+    }
+    if (this.sessionBudget !== undefined && this.sessionSpent + amount > this.sessionBudget) {
+      return `session budget of ${formatUsdc(this.sessionBudget)} USDC would be exceeded (spent ${formatUsdc(this.sessionSpent)})`;
+    }
+    const today = this.dailySpent.get(dayKey()) ?? 0n;
+    if (this.dailyBudget !== undefined && today + amount > this.dailyBudget) {
+      return `daily budget of ${formatUsdc(this.dailyBudget)} USDC would be exceeded (spent ${formatUsdc(today)} today)`;
+    }
+    return null;
+  }
+
+  // Count spend made by earlier sessions today (read from the ledger) against the daily budget
+  carryOverToday(amount: string) {
+    const key = dayKey();
+    this.dailySpent.set(key, (this.dailySpent.get(key) ?? 0n) + toAtomicUsdc(amount));
+  }
+
+  record(amount: bigint) {
+    this.sessionSpent += amount;
+    const key = dayKey();
+    this.dailySpent.set(key, (this.dailySpent.get(key) ?? 0n) + amount);
+  }
+
+  // Hands out (and clears) the refusal behind the last aborted payment
+  takeDenial(): PaymentPolicyError | null {
+    const denial = this.denial;
+    this.denial = null;
+    return denial;
+  }
+
+  // Registers the policy on an x402 client: filter offers, then check and approve before signing
+  attach(client: x402Client): x402Client {
+    // Prefer offers that fit; if none do, keep them all so the hook below can name the reason
+    client.registerPolicy((_version, requirements) => {
+      const fitting = requirements.filter((r) => this.violation(r) === null);
+      return fitting.length ? fitting : requirements;
+    });
+
+    client.onBeforePaymentCreation(async ({ paymentRequired, selectedRequirements }) => {
+      const request: PaymentRequest = {
+        amount: formatUsdc(BigInt(selectedRequirements.amount)),
+        network: selectedRequirements.network,
+        payTo: selectedRequirements.payTo,
+        asset: selectedRequirements.asset,
+        resource: paymentRequired.resource?.url,
+      };
+      const reason = this.violation(selectedRequirements);
+      if (reason) {
+        this.denial = new PaymentPolicyError(`Payment refused by policy: ${reason}`, request);
+        return { abort: true, reason };
+      }
+      if (this.approve && !(await this.approve(request))) {
+        this.denial = new PaymentPolicyError(`Payment of ${request.amount} USDC was not approved`, request);
+        return { abort: true, reason: "declined by user" };
+      }
+    });
+
+    client.onAfterPaymentCreation(async ({ selectedRequirements }) => {
+      this.record(BigInt(selectedRequirements.amount));
+    });
+
+    return client;
+  }
+
+  // Wraps a payment-enabled fetch so policy refusals surface as PaymentPolicyError instead of a generic x402 error
+  guard(fetchWithPayment: typeof fetch): typeof fetch {
+    return async (input, init) => {
+      try {
+        return await fetchWithPayment(input, init);
+      } catch (e) {
+        throw this.takeDenial() ?? e;
+      }
+    };
+  }
+}
+
+function listEnv(value: string | undefined): string[] | undefined {
+  const items = value?.split(",").map((s) => s.trim()).filter(Boolean);
+  return items?.length ? items : undefined;
+}
+
+// X402_MAX_PER_REQUEST, X402_DAILY_BUDGET, X402_SESSION_BUDGET, X402_ALLOWED_NETWORKS, X402_ALLOWED_PAYEES
+export function spendingLimitsFromEnv(env: NodeJS.ProcessEnv = process.env): SpendingLimits {
+  return {
+    maxPerRequest: env.X402_MAX_PER_REQUEST || undefined,
+    dailyBudget: env.X402_DAILY_BUDGET || undefined,
+    sessionBudget: env.X402_SESSION_BUDGET || undefined,
+    allowedNetworks: listEnv(env.X402_ALLOWED_NETWORKS),
+    allowedPayees: listEnv(env.X402_ALLOWED_PAYEES),
+  };
+}
@@ -0,0 +1,55 @@
+// The push receiver must answer or drop bad notifications, never crash `a2a listen`
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync } from "fs";
+import { connect } from "net";
+import { homedir, tmpdir } from "os";
+import { join } from "path";
+import { PUSH_TOKEN_HEADER, startPushReceiver, taskDirFromEnv, TaskCache } from "./push.js";
+
+const TOKEN = "push-test-token";
+
+test("push receiver: a sender that hangs up mid-body is dropped and the receiver keeps serving", async () => {
+  const dir = mkdtempSync(join(tmpdir(), "willform-tasks-"));
+  const rejected: Array<{ reason: string; status: number }> = [];
+  const receiver = await startPushReceiver({
+    port: 0,
+    token: TOKEN,
+    cache: new TaskCache(dir),
+    onRejected: (reason, status) => rejected.push({ reason, status }),
+  });
+  try {
+    const { port } = new URL(receiver.url);
+    // Promise a 1000-byte body, send 10 bytes of it and reset the connection
+    await new Promise<void>((resolve, reject) => {
+      const socket = connect(Number(port), "127.0.0.1", () => {
+        socket.write(
+          `POST / HTTP/1.1\r\nHost: 127.0.0.1\r\n${PUSH_TOKEN_HEADER}: ${TOKEN}\r\nContent-Type: application/json\r\nContent-Length: 1000\r\n\r\n{"id":"t-1`,
+          () => setTimeout(() => socket.resetAndDestroy(), 50),
+        );
+      });
+      socket.on("close", () => resolve());
+      socket.on("error", reject);
+    });
+    await new Promise((r) => setTimeout(r, 50));
+    assert.equal(rejected.length, 1);
+    assert.equal(rejected[0].status, 400);
+
+    const res = await fetch(receiver.url, {
+      method: "POST",
+      headers: { [PUSH_TOKEN_HEADER]: TOKEN, "Content-Type": "application/json" },
+      body: JSON.stringify({ id: "t-1", contextId: "c-1", status: { state: "working", timestamp: "2026-01-01T00:00:00Z" } }),
+    });
+    assert.equal(res.status, 200);
+    assert.equal(new TaskCache(dir).get("t-1")?.status.state, "working");
+  } finally {
+    await receiver.close();
+    rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+test("taskDirFromEnv: ~/ is the home directory", () => {
+  assert.equal(taskDirFromEnv({ WILLFORM_TASK_DIR: "~/.willform/tasks" }), join(homedir(), ".willform", "tasks"));
+  assert.equal(taskDirFromEnv({ WILLFORM_TASK_DIR: "/var/lib/willform" }), "/var/lib/willform");
+});
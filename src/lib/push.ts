@@ -0,0 +1,210 @@
+// Push notifications: a local receiver for the task updates Willy POSTs, and the cache of task states it keeps
+
+import * as http from "http";
+import { randomBytes, timingSafeEqual } from "crypto";
+import { existsSync, mkdirSync, readdirSync, readFileSync, writeFileSync } from "fs";
+import { homedir } from "os";
+import { join } from "path";
+import { applyStreamEvent, type A2AStreamEvent, type A2ATask, type PushNotificationConfig } from "./a2a-client.js";
+import { expandHome } from "./util.js";
+
+// A2A servers echo the config's token in this header on every notification
+export const PUSH_TOKEN_HEADER = "x-a2a-notification-token";
+
+export const DEFAULT_TASK_DIR = join(homedir(), ".willform", "tasks");
+
+// WILLFORM_TASK_DIR overrides where `a2a listen` keeps the last known state of each task
+export function taskDirFromEnv(env: NodeJS.ProcessEnv = process.env): string {
+  return env.WILLFORM_TASK_DIR ? expandHome(env.WILLFORM_TASK_DIR) : DEFAULT_TASK_DIR;
+}
+
+// WILLFORM_PUSH_URL and WILLFORM_PUSH_TOKEN register a receiver with every message the CLI sends
+export function pushConfigFromEnv(env: NodeJS.ProcessEnv = process.env): PushNotificationConfig | undefined {
+  if (!env.WILLFORM_PUSH_URL) return undefined;
+  return { url: env.WILLFORM_PUSH_URL, token: env.WILLFORM_PUSH_TOKEN || undefined };
+}
+
+export function generatePushToken(): string {
+  return randomBytes(18).toString("base64url");
+}
+
+const TASK_ID = /^[A-Za-z0-9][A-Za-z0-9._-]{0,127}$/;
+
+export class TaskCache {
+  constructor(readonly dir: string = DEFAULT_TASK_DIR) {}
+
+  private file(taskId: string): string {
+    if (!TASK_ID.test(taskId)) throw new Error(`Invalid task id "${taskId}"`);
+    return join(this.dir, `${taskId}.json`);
+  }
+
+  get(taskId: string): A2ATask | null {
+    const file = this.file(taskId);
+    if (!existsSync(file)) return null;
+    return JSON.parse(readFileSync(file, "utf8")) as A2ATask;
+  }
+
+  // Notifications can arrive late or twice; a status older than the cached one is not stored. Returns whether it was.
+  put(task: A2ATask): boolean {
+    const cached = this.get(task.id);
+    if (cached && cached.status.timestamp > task.status.timestamp) return false;
+    mkdirSync(this.dir, { recursive: true });
+    writeFileSync(this.file(task.id), JSON.stringify(task, null, 2) + "\n");
+    return true;
+  }
+
+  list(): A2ATask[] {
+    if (!existsSync(this.dir)) return [];
+    return readdirSync(this.dir)
+      .filter((f) => f.endsWith(".json"))
+      .flatMap((f) => {
+        try {
+          return [JSON.parse(readFileSync(join(this.dir, f), "utf8")) as A2ATask];
+        } catch {
+          return [];
+        }
+      })
+      .sort((a, b) => b.status.timestamp.localeCompare(a.status.timestamp));
+  }
+}
+
+export interface TaskUpdate {
+  task: A2ATask;
+  // Cached state before this notification; undefined the first time a task is seen
+  previous?: string;
+  // False for repeats and for notifications older than what the cache already had
+  changed: boolean;
+}
+
+export interface PushReceiverOptions {
+  port?: number;
+  host?: string;
+  // Notifications without this token in X-A2A-Notification-Token are refused
+  token: string;
+  cache?: TaskCache;
+  // Changed tasks are re-POSTed here as JSON (e.g. a chat webhook or another service)
+  forward?: string;
+  onUpdate?: (update: TaskUpdate) => void;
+  onRejected?: (reason: string, status: number) => void;
+  onForwardError?: (err: Error) => void;
+}
+
+export interface RunningPushReceiver {
+  url: string;
+  server: http.Server;
+  close(): Promise<void>;
+}
+
+const MAX_BODY_BYTES = 1_000_000;
+
+function tokenMatches(expected: string, received: string | string[] | undefined): boolean {
+  const value = Array.isArray(received) ? received[0] : received;
+  if (!value) return false;
+  const a = Buffer.from(expected);
+  const b = Buffer.from(value);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+// Servers push either the whole Task or a single stream event; both become an event to fold into the cached task
+function eventFromPayload(payload: unknown): A2AStreamEvent {
+  const body = (payload ?? {}) as Partial<A2ATask> & { kind?: string; taskId?: string };
+  let event: A2AStreamEvent;
+  if (body.kind === "status-update" || body.kind === "artifact-update") {
+    if (typeof body.taskId !== "string") throw new Error(`${body.kind} without a taskId`);
+    event = body as A2AStreamEvent;
+  } else {
+    if (typeof body.id !== "string" || typeof body.status?.state !== "string") throw new Error("Not an A2A task or task event");
+    event = { ...(body as A2ATask), kind: "task" };
+  }
+  const taskId = event.kind === "task" ? event.id : event.taskId;
+  if (!TASK_ID.test(taskId)) throw new Error(`Invalid task id "${taskId}"`);
+  return event;
+}
+
+export function createPushReceiver(options: PushReceiverOptions): http.Server {
+  const cache = options.cache ?? new TaskCache();
+
+  const reply = (res: http.ServerResponse, status: number, body: unknown) => {
+    res.writeHead(status, { "Content-Type": "application/json" });
+    res.end(JSON.stringify(body));
+  };
+  const reject = (res: http.ServerResponse, status: number, reason: string) => {
+    options.onRejected?.(reason, status);
+    reply(res, status, { error: reason });
+  };
+
+  const forward = (task: A2ATask) =>
+    fetch(options.forward!, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(task),
+      signal: AbortSignal.timeout(10_000),
+    })
+      .then((res) => {
+        if (!res.ok) throw new Error(`Forward to ${options.forward} failed: HTTP ${res.status}`);
+      })
+      .catch((err) => options.onForwardError?.(err instanceof Error ? err : new Error(String(err))));
+
+  return http.createServer(async (req, res) => {
+    if (req.method !== "POST") return reject(res, 405, `${req.method} not allowed; notifications are POSTed`);
+    if (!tokenMatches(options.token, req.headers[PUSH_TOKEN_HEADER])) {
+      req.resume();
+      return reject(res, 401, "Missing or wrong notification token");
+    }
+
+    const chunks: Buffer[] = [];
+    let size = 0;
+    try {
+      for await (const chunk of req) {
+        size += (chunk as Buffer).length;
+        if (size > MAX_BODY_BYTES) return reject(res, 413, "Notification body too large");
+        chunks.push(chunk as Buffer);
+      }
+    } catch (err) {
+      // The sender hung up mid-body; there is nobody left to answer
+      options.onRejected?.(`Notification body not received: ${err instanceof Error ? err.message : String(err)}`, 400);
+      req.destroy();
+      return;
+    }
+
+    let event: A2AStreamEvent;
+    try {
+      event = eventFromPayload(JSON.parse(Buffer.concat(chunks).toString("utf8")));
+    } catch (err) {
+      return reject(res, 400, err instanceof Error ? err.message : String(err));
+    }
+
+    // A corrupt cache file or a full disk is our problem, not the sender's, and must not take the receiver down
+    let task: A2ATask;
+    let previous: A2ATask | null;
+    let stored: boolean;
+    try {
+      previous = cache.get(event.kind === "task" ? event.id : event.taskId);
+      task = applyStreamEvent(previous, event);
+      stored = cache.put(task);
+    } catch (err) {
+      return reject(res, 500, `Could not update the task cache: ${err instanceof Error ? err.message : String(err)}`);
+    }
+    const changed = stored && (previous?.status.state !== task.status.state || previous?.status.timestamp !== task.status.timestamp);
+    // Answer first; the server should not wait on whatever we do with the update
+    reply(res, 200, { ok: true });
+    options.onUpdate?.({ task, previous: previous?.status.state, changed });
+    if (changed && options.forward) void forward(task);
+  });
+}
+
+export async function startPushReceiver(options: PushReceiverOptions): Promise<RunningPushReceiver> {
+  const server = createPushReceiver(options);
+  const host = options.host ?? "127.0.0.1";
+  await new Promise<void>((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(options.port ?? 8787, host, resolve);
+  });
+  const address = server.address();
+  const port = typeof address === "object" && address ? address.port : options.port;
+  return {
+    url: `http://${host === "0.0.0.0" ? "localhost" : host}:${port}`,
+    server,
+    close: () => new Promise<void>((resolve) => server.close(() => resolve())),
+  };
+}
@@ -0,0 +1,232 @@
+// Converges live namespaces and deployments onto a manifest with the fewest Willform calls
+
+import type { A2AClient, ExecuteOptions } from "./a2a-client.js";
+import type { DeploymentManifest, Manifest, NamespaceManifest } from "./manifest.js";
+import { completed, type Deployment, type DeploymentStatus, type Namespace } from "./operations.js";
+
+export interface EnvChange {
+  key: string;
+  from?: string;
+  to?: string;
+}
+
+export type PlanAction =
+  | { kind: "namespace_create"; namespace: string; allocatedCores?: number }
+  | { kind: "deploy_create"; namespace: string; deployment: DeploymentManifest; reason?: string }
+  | { kind: "deploy_scale"; namespace: string; name: string; deploymentId: string; from: number; to: number }
+  | { kind: "deploy_update_env"; namespace: string; name: string; deploymentId: string; env: Record<string, string>; merge: boolean; changes: EnvChange[] }
+  | { kind: "deploy_delete"; namespace: string; name: string; deploymentId: string; reason: string };
+
+export interface Plan {
+  actions: PlanAction[];
+  // Drift the available operations cannot fix (e.g. allocatedCores on an existing namespace)
+  warnings: string[];
+  // Deployments already matching the manifest, for the diff summary
+  unchanged: string[];
+}
+
+export interface PlanOptions {
+  // Delete live deployments the manifest does not list (default true: the manifest owns its namespaces)
+  prune?: boolean;
+  // Forwarded to every read call
+  execute?: ExecuteOptions;
+}
+
+interface LiveDeployment {
+  deployment: Deployment;
+  status: DeploymentStatus;
+}
+
+// Deployment fields that can only change by recreating the deployment
+const IMMUTABLE_FIELDS = ["image", "chartType", "port"] as const;
+
+function envOf(status: DeploymentStatus): Record<string, string> | null {
+  const env = status.env;
+  if (!env || typeof env !== "object" || Array.isArray(env)) return null;
+  return Object.fromEntries(Object.entries(env).map(([k, v]) => [k, String(v)]));
+}
+
+function envChanges(live: Record<string, string> | null, desired: Record<string, string>): EnvChange[] {
+  const changes: EnvChange[] = [];
+  for (const [key, to] of Object.entries(desired)) {
+    if (live?.[key] !== to) changes.push({ key, from: live?.[key], to });
+  }
+  for (const [key, from] of Object.entries(live ?? {})) {
+    if (!(key in desired)) changes.push({ key, from });
+  }
+  return changes;
+}
+
+function planDeployment(ns: string, desired: DeploymentManifest, live: LiveDeployment | undefined, plan: Plan) {
+  if (!live) {
+    plan.actions.push({ kind: "deploy_create", namespace: ns, deployment: desired });
+    return;
+  }
+
+  const { deployment, status } = live;
+  const current = { ...deployment, ...status } as Record<string, unknown>;
+  const drifted = IMMUTABLE_FIELDS.filter((f) => desired[f] !== undefined && current[f] !== undefined && current[f] !== desired[f]);
+  if (drifted.length) {
+    const reason = drifted.map((f) => `${f} ${String(current[f])} → ${String(desired[f])}`).join(", ");
+    plan.actions.push({ kind: "deploy_delete", namespace: ns, name: desired.name, deploymentId: deployment.deploymentId, reason: `replace: ${reason}` });
+    plan.actions.push({ kind: "deploy_create", namespace: ns, deployment: desired, reason: `replace: ${reason}` });
+    return;
+  }
+
+  let changed = false;
+  const replicas = Number(status.replicas ?? deployment.replicas ?? 1);
+  if (desired.replicas !== undefined && replicas !== desired.replicas) {
+    plan.actions.push({ kind: "deploy_scale", namespace: ns, name: desired.name, deploymentId: deployment.deploymentId, from: replicas, to: desired.replicas });
+    changed = true;
+  }
+
+  if (desired.env) {
+    // When the server does not report env we cannot diff it, so the declared set is pushed as-is
+    const liveEnv = envOf(status);
+    const changes = envChanges(liveEnv, desired.env);
+    if (changes.length) {
+      const removes = changes.some((c) => c.to === undefined);
+      plan.actions.push({
+        kind: "deploy_update_env",
+        namespace: ns,
+        name: desired.name,
+        deploymentId: deployment.deploymentId,
+        env: removes ? desired.env : Object.fromEntries(changes.map((c) => [c.key, c.to as string])),
+        merge: !removes,
+        changes,
+      });
+      changed = true;
+    }
+  }
+
+  if (!changed) plan.unchanged.push(`${ns}/${desired.name}`);
+}
+
+export async function planManifest(client: A2AClient, manifest: Manifest, options: PlanOptions = {}): Promise<Plan> {
+  const { prune = true, execute } = options;
+  const plan: Plan = { actions: [], warnings: [], unchanged: [] };
+
+  const namespaces = await completed("namespace_list", client.namespace.list(execute));
+  const byName = new Map<string, Namespace>(namespaces.map((ns) => [ns.name, ns]));
+
+  for (const nsManifest of manifest.namespaces) {
+    const live = byName.get(nsManifest.name);
+    if (!live) {
+      plan.actions.push({ kind: "namespace_create", namespace: nsManifest.name, allocatedCores: nsManifest.allocatedCores });
+      for (const d of nsManifest.deployments) plan.actions.push({ kind: "deploy_create", namespace: nsManifest.name, deployment: d });
+      continue;
+    }
+    if (nsManifest.allocatedCores !== undefined && live.allocatedCores !== nsManifest.allocatedCores) {
+      plan.warnings.push(
+        `${nsManifest.name}: allocatedCores is ${live.allocatedCores}, manifest wants ${nsManifest.allocatedCores} — no operation resizes a namespace in place`,
+      );
+    }
+    await planNamespace(client, nsManifest, live, plan, prune, execute);
+  }
+
+  return plan;
+}
+
+async function planNamespace(
+  client: A2AClient,
+  nsManifest: NamespaceManifest,
+  live: Namespace,
+  plan: Plan,
+  prune: boolean,
+  execute?: ExecuteOptions,
+) {
+  const deployments = await completed(`deploy_list ${live.name}`, client.deploy.list({ namespaceId: live.id }, execute));
+  const byName = new Map(deployments.map((d) => [d.name, d]));
+
+  for (const desired of nsManifest.deployments) {
+    const deployment = byName.get(desired.name);
+    const status = deployment
+      ? await completed(`deploy_status ${desired.name}`, client.deploy.status({ deploymentId: deployment.deploymentId }, execute))
+      : undefined;
+    planDeployment(nsManifest.name, desired, deployment && status ? { deployment, status } : undefined, plan);
+  }
+
+  if (!prune) return;
+  const wanted = new Set(nsManifest.deployments.map((d) => d.name));
+  for (const d of deployments) {
+    if (!wanted.has(d.name)) {
+      plan.actions.push({ kind: "deploy_delete", namespace: nsManifest.name, name: d.name, deploymentId: d.deploymentId, reason: "not in manifest" });
+    }
+  }
+}
+
+export function describeAction(action: PlanAction): string {
+  switch (action.kind) {
+    case "namespace_create":
+      return `+ namespace ${action.namespace}${action.allocatedCores !== undefined ? ` (${action.allocatedCores} cores)` : ""}`;
+    case "deploy_create": {
+      const d = action.deployment;
+      const spec = [d.image, d.chartType, d.port && `:${d.port}`, d.replicas !== undefined && `×${d.replicas}`].filter(Boolean).join(" ");
+      return `+ deployment ${action.namespace}/${d.name} ${spec}${action.reason ? ` (${action.reason})` : ""}`;
+    }
+    case "deploy_scale":
+      return `~ deployment ${action.namespace}/${action.name} replicas ${action.from} → ${action.to}`;
+    case "deploy_update_env": {
+      const changes = action.changes.map((c) => (c.to === undefined ? `-${c.key}` : c.from === undefined ? `+${c.key}=${c.to}` : `${c.key}: ${c.from} → ${c.to}`));
+      return `~ deployment ${action.namespace}/${action.name} env ${changes.join(", ")}`;
+    }
+    case "deploy_delete":
+      return `- deployment ${action.namespace}/${action.name} (${action.reason})`;
+  }
+}
+
+// Runs the plan in order; namespaces created here are resolved by name for the deployments that follow
+export async function applyPlan(
+  client: A2AClient,
+  plan: Plan,
+  options: { execute?: ExecuteOptions; onAction?: (action: PlanAction) => void } = {},
+): Promise<void> {
+  const { execute, onAction } = options;
+  const namespaceIds = new Map<string, string>();
+  const namespaceId = async (name: string) => {
+    if (!namespaceIds.has(name)) {
+      for (const ns of await completed("namespace_list", client.namespace.list(execute))) namespaceIds.set(ns.name, ns.id);
+    }
+    const id = namespaceIds.get(name);
+    if (!id) throw new Error(`Namespace ${name} not found while applying`);
+    return id;
+  };
+
+  for (const action of plan.actions) {
+    onAction?.(action);
+    switch (action.kind) {
+      case "namespace_create": {
+        const ns = await completed(
+          `namespace_create ${action.namespace}`,
+          client.namespace.create({ name: action.namespace, allocatedCores: action.allocatedCores }, execute),
+        );
+        namespaceIds.set(action.namespace, ns.id);
+        break;
+      }
+      case "deploy_create": {
+        const { replicas, ...spec } = action.deployment;
+        const created = await completed(
+          `deploy_create ${spec.name}`,
+          client.deploy.create({ ...spec, namespaceId: await namespaceId(action.namespace) }, execute),
+        );
+        // deploy_create starts at one replica; scale afterwards when the manifest asks for more (or zero)
+        if (replicas !== undefined && replicas !== (created.replicas ?? 1)) {
+          await completed(`deploy_scale ${spec.name}`, client.deploy.scale({ deploymentId: created.deploymentId, replicas }, execute));
+        }
+        break;
+      }
+      case "deploy_scale":
+        await completed(`deploy_scale ${action.name}`, client.deploy.scale({ deploymentId: action.deploymentId, replicas: action.to }, execute));
+        break;
+      case "deploy_update_env":
+        await completed(
+          `deploy_update_env ${action.name}`,
+          client.deploy.updateEnv({ deploymentId: action.deploymentId, env: action.env, merge: action.merge }, execute),
+        );
+        break;
+      case "deploy_delete":
+        await completed(`deploy_delete ${action.name}`, client.deploy.delete({ deploymentId: action.deploymentId }, execute));
+        break;
+    }
+  }
+}
@@ -0,0 +1,98 @@
+// Retries must ride out 429/502/503, honour Retry-After, give up at the limit and never run an operation twice
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { A2AClient } from "./a2a-client.js";
+import { TransportError } from "./errors.js";
+import { completed } from "./operations.js";
+import { fetchWithRetry, retryAfterMs, type RetryInfo } from "./retry.js";
+import { startMockServer, type FaultOptions } from "../mock/server.js";
+
+// fetch that notes the Idempotency-Key of every request it sends
+function recordingFetch(keys: Array<string | null>): typeof fetch {
+  return (input, init) => {
+    keys.push(new Headers(init?.headers).get("idempotency-key"));
+    return fetch(input, init);
+  };
+}
+
+async function withFaultyMock(faults: FaultOptions, body: (url: string) => Promise<void>) {
+  const mock = await startMockServer({ port: 0, latencyMs: 0, quiet: true, faults });
+  try {
+    await body(mock.url);
+  } finally {
+    await mock.close();
+  }
+}
+
+test("retryAfterMs: delay-seconds, an HTTP date, or nothing usable", () => {
+  const now = Date.parse("2026-01-01T00:00:00Z");
+  assert.equal(retryAfterMs("2", now), 2_000);
+  assert.equal(retryAfterMs("0", now), 0);
+  assert.equal(retryAfterMs("Thu, 01 Jan 2026 00:00:05 GMT", now), 5_000);
+  assert.equal(retryAfterMs("Wed, 31 Dec 2025 23:59:00 GMT", now), 0);
+  assert.equal(retryAfterMs("soon", now), null);
+  assert.equal(retryAfterMs(null, now), null);
+});
+
+test("fetchWithRetry: a Retry-After beyond maxRetryAfterMs is returned, not waited out", async () => {
+  let attempts = 0;
+  const res = await fetchWithRetry(
+    async () => {
+      attempts++;
+      return new Response(null, { status: 429, headers: { "Retry-After": "120" } });
+    },
+    { maxRetryAfterMs: 60_000 },
+  );
+  assert.equal(res.status, 429);
+  assert.equal(attempts, 1);
+});
+
+test("retry: a 503 after the server ran the call is retried with the same key and not run twice", async () => {
+  await withFaultyMock({ rate: 1, statuses: [503], stage: "after" }, async (url) => {
+    const keys: Array<string | null> = [];
+    const retries: RetryInfo[] = [];
+    const client = new A2AClient({ baseUrl: url, fetchWithPayment: recordingFetch(keys), transport: { retries: 2, onRetry: (r) => retries.push(r) } });
+
+    const task = await client.send("namespace_create", { name: "retried" }, undefined, { idempotencyKey: "create-retried" });
+    assert.deepEqual(keys, ["create-retried", "create-retried"]);
+    assert.deepEqual(retries, [{ attempt: 1, delayMs: 1_000, reason: "HTTP 503" }]);
+
+    // The replayed answer names the task the first attempt created; there is still only one namespace
+    const done = await client.waitForTask(task.id, { intervalMs: 50 });
+    assert.equal(done.status.state, "completed");
+    assert.deepEqual((await completed("namespace_list", client.namespace.list())).map((n) => n.name), ["retried"]);
+  });
+});
+
+test("retry: a 429 waits for Retry-After, then succeeds", async () => {
+  await withFaultyMock({ rate: 1, statuses: [429], stage: "after" }, async (url) => {
+    const retries: RetryInfo[] = [];
+    const client = new A2AClient({ baseUrl: url, fetchWithPayment: fetch, transport: { retries: 1, onRetry: (r) => retries.push(r) } });
+    const started = Date.now();
+    await client.send("namespace_create", { name: "limited" });
+    assert.equal(retries.length, 1);
+    assert.ok(Date.now() - started >= 1_000, "the retry came before Retry-After: 1 had passed");
+    assert.deepEqual((await completed("namespace_list", client.namespace.list())).map((n) => n.name), ["limited"]);
+  });
+});
+
+test("retry: gives up after the retry limit with the last status", async () => {
+  await withFaultyMock({ rate: 1, statuses: [502], stage: "before" }, async (url) => {
+    const keys: Array<string | null> = [];
+    const retries: RetryInfo[] = [];
+    const client = new A2AClient({
+      baseUrl: url,
+      fetchWithPayment: recordingFetch(keys),
+      transport: { retries: 2, baseDelayMs: 1, maxDelayMs: 5, onRetry: (r) => retries.push(r) },
+    });
+    await assert.rejects(client.send("namespace_list"), (err) => {
+      assert.ok(err instanceof TransportError);
+      assert.equal(err.status, 502);
+      return true;
+    });
+    assert.equal(keys.length, 3);
+    assert.equal(new Set(keys).size, 1);
+    assert.deepEqual(retries.map((r) => r.attempt), [1, 2]);
+  });
+});
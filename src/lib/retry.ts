@@ -0,0 +1,90 @@
+// Retry policy for the A2A transport: jittered exponential backoff that honours Retry-After
+
+export interface TransportOptions {
+  // Per-request timeout for message/send, tasks/get and tasks/cancel (default 60s)
+  timeoutMs?: number;
+  // message/stream stays open for the whole operation (default 5 min)
+  streamTimeoutMs?: number;
+  // Extra attempts after the first (default 3; 0 disables retries)
+  retries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  // A Retry-After longer than this is not waited out; the error is returned instead
+  maxRetryAfterMs?: number;
+  onRetry?: (info: RetryInfo) => void;
+}
+
+export interface RetryInfo {
+  attempt: number;
+  delayMs: number;
+  reason: string;
+}
+
+// Rate limiting and gateway/overload failures; repeating a message is safe because it keeps its idempotency key
+export const RETRYABLE_STATUS: ReadonlySet<number> = new Set([429, 502, 503]);
+
+const DEFAULTS = { timeoutMs: 60_000, streamTimeoutMs: 300_000, retries: 3, baseDelayMs: 500, maxDelayMs: 8_000, maxRetryAfterMs: 60_000 };
+
+type ResolvedTransport = Required<Omit<TransportOptions, "onRetry">> & Pick<TransportOptions, "onRetry">;
+
+export function transportDefaults(options: TransportOptions = {}): ResolvedTransport {
+  return { ...DEFAULTS, ...Object.fromEntries(Object.entries(options).filter(([, v]) => v !== undefined)) };
+}
+
+// WILLFORM_A2A_TIMEOUT_MS and WILLFORM_A2A_RETRIES tune the transport without code changes
+export function transportFromEnv(env: NodeJS.ProcessEnv = process.env): TransportOptions {
+  const number = (name: string) => {
+    const raw = env[name];
+    if (raw === undefined || raw === "") return undefined;
+    const n = Number(raw);
+    if (!Number.isFinite(n) || n < 0) throw new Error(`${name} must be a non-negative number, got "${raw}"`);
+    return n;
+  };
+  return { timeoutMs: number("WILLFORM_A2A_TIMEOUT_MS"), retries: number("WILLFORM_A2A_RETRIES") };
+}
+
+// Retry-After is either delay-seconds or an HTTP date
+export function retryAfterMs(value: string | null, now = Date.now()): number | null {
+  if (!value) return null;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const at = Date.parse(value);
+  return Number.isNaN(at) ? null : Math.max(0, at - now);
+}
+
+// "Full jitter": uniform in [0, min(max, base·2^attempt)] so clients that failed together do not retry together
+export function backoffDelay(attempt: number, baseDelayMs: number, maxDelayMs: number, random = Math.random): number {
+  return Math.round(random() * Math.min(maxDelayMs, baseDelayMs * 2 ** attempt));
+}
+
+// fetch() rejects with a TypeError when the connection fails or drops before a response arrives
+function isNetworkError(err: unknown): boolean {
+  return err instanceof TypeError;
+}
+
+// Runs `attempt` until it yields a response that is not retryable; the final response is returned as-is for the caller to judge
+export async function fetchWithRetry(attempt: () => Promise<Response>, options: TransportOptions = {}): Promise<Response> {
+  const { retries, baseDelayMs, maxDelayMs, maxRetryAfterMs, onRetry } = transportDefaults(options);
+
+  for (let n = 0; ; n++) {
+    let res: Response;
+    try {
+      res = await attempt();
+    } catch (err) {
+      if (n >= retries || !isNetworkError(err)) throw err;
+      const delayMs = backoffDelay(n, baseDelayMs, maxDelayMs);
+      onRetry?.({ attempt: n + 1, delayMs, reason: err instanceof Error ? err.message : String(err) });
+      await new Promise((r) => setTimeout(r, delayMs));
+      continue;
+    }
+
+    if (!RETRYABLE_STATUS.has(res.status) || n >= retries) return res;
+    const hinted = retryAfterMs(res.headers.get("retry-after"));
+    if (hinted !== null && hinted > maxRetryAfterMs) return res;
+    const delayMs = hinted ?? backoffDelay(n, baseDelayMs, maxDelayMs);
+    // Free the connection before waiting
+    await res.body?.cancel().catch(() => {});
+    onRetry?.({ attempt: n + 1, delayMs, reason: `HTTP ${res.status}` });
+    await new Promise((r) => setTimeout(r, delayMs));
+  }
+}
@@ -0,0 +1,120 @@
+// Waits for a deployment to reach its desired ready replicas after create, scale or restart
+
+import type { A2AClient, ExecuteOptions } from "./a2a-client.js";
+import { completed, type DeploymentEvent, type DeploymentStatus } from "./operations.js";
+
+export interface RolloutOptions {
+  timeoutMs?: number;
+  intervalMs?: number;
+  // Events older than this (epoch ms) belong to an earlier rollout and are not streamed
+  since?: number;
+  onStatus?: (status: DeploymentStatus) => void;
+  onEvent?: (event: DeploymentEvent) => void;
+  execute?: ExecuteOptions;
+}
+
+export interface RolloutResult {
+  status: DeploymentStatus;
+  elapsedMs: number;
+}
+
+export interface RolloutReport {
+  deploymentId: string;
+  reason: "timeout" | "crashloop";
+  status: DeploymentStatus;
+  elapsedMs: number;
+  events: DeploymentEvent[];
+  // Collected after the failure; null when the follow-up call itself failed
+  diagnosis: Record<string, unknown> | null;
+  logs: string | null;
+}
+
+export class RolloutError extends Error {
+  constructor(readonly report: RolloutReport) {
+    super(
+      report.reason === "timeout"
+        ? `Rollout of ${report.deploymentId} timed out after ${Math.round(report.elapsedMs / 1000)}s (${report.status.status})`
+        : `Rollout of ${report.deploymentId} failed: ${report.status.status}`,
+    );
+    this.name = "RolloutError";
+  }
+}
+
+// Statuses that will not recover by waiting longer
+const CRASHED = /crash|backoff|imagepull|errimage|failed|error/i;
+
+// Skew between this machine and the cluster when filtering events by --since
+const EVENT_SKEW_MS = 5_000;
+
+export function replicaCounts(status: DeploymentStatus): { ready: number; desired: number } {
+  const desired = Number(status.replicas ?? 0);
+  const ready = Number(status.readyReplicas ?? (status.status === "running" ? desired : 0));
+  return { ready, desired };
+}
+
+function isRolledOut(status: DeploymentStatus): boolean {
+  const { ready, desired } = replicaCounts(status);
+  return ready >= desired && (status.status === "running" || status.status === "stopped" || desired === 0);
+}
+
+async function failureReport(
+  client: A2AClient,
+  deploymentId: string,
+  base: Omit<RolloutReport, "diagnosis" | "logs">,
+  execute?: ExecuteOptions,
+): Promise<RolloutReport> {
+  // Best effort: the report is still useful without either of these
+  const diagnosis = await completed("deploy_diagnose", client.deploy.diagnose({ deploymentId }, execute)).catch(() => null);
+  const logs = await completed("deploy_logs", client.deploy.logs({ deploymentId, tail: 30 }, execute))
+    .then((d) => (typeof d.logs === "string" ? d.logs : JSON.stringify(d.logs, null, 2)))
+    .catch(() => null);
+  return { ...base, diagnosis, logs };
+}
+
+export async function waitForRollout(client: A2AClient, deploymentId: string, options: RolloutOptions = {}): Promise<RolloutResult> {
+  const { timeoutMs = 180_000, intervalMs = 2_000, onStatus, onEvent, execute } = options;
+  const started = Date.now();
+  const since = (options.since ?? started) - EVENT_SKEW_MS;
+  const seen = new Set<string>();
+  const events: DeploymentEvent[] = [];
+
+  for (;;) {
+    const status = await completed("deploy_status", client.deploy.status({ deploymentId }, execute));
+    onStatus?.(status);
+
+    for (const event of await completed("deploy_events", client.deploy.events({ deploymentId }, execute))) {
+      const key = `${event.timestamp}|${event.reason}|${event.message}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+      if (event.timestamp && Date.parse(event.timestamp) < since) continue;
+      events.push(event);
+      onEvent?.(event);
+    }
+
+    const elapsedMs = Date.now() - started;
+    if (isRolledOut(status)) return { status, elapsedMs };
+    const crashed = CRASHED.test(status.status);
+    if (crashed || elapsedMs >= timeoutMs) {
+      const report = await failureReport(client, deploymentId, { deploymentId, reason: crashed ? "crashloop" : "timeout", status, elapsedMs, events }, execute);
+      throw new RolloutError(report);
+    }
+    await new Promise((r) => setTimeout(r, Math.min(intervalMs, Math.max(timeoutMs - elapsedMs, 0))));
+  }
+}
+
+export function formatRolloutReport(report: RolloutReport): string {
+  const { ready, desired } = replicaCounts(report.status);
+  const lines = [
+    `Rollout ${report.reason === "timeout" ? "timed out" : "failed"} for ${report.deploymentId}`,
+    `  status:   ${report.status.status} (${ready}/${desired} ready after ${Math.round(report.elapsedMs / 1000)}s)`,
+  ];
+  const issues = report.diagnosis?.issues;
+  const suggestions = report.diagnosis?.suggestions;
+  if (Array.isArray(issues) && issues.length) lines.push("  issues:", ...issues.map((i) => `    - ${String(i)}`));
+  if (Array.isArray(suggestions) && suggestions.length) lines.push("  try:", ...suggestions.map((s) => `    - ${String(s)}`));
+  if (report.events.length) {
+    lines.push("  events:", ...report.events.slice(-10).map((e) => `    ${e.type ?? ""} ${e.reason ?? ""}: ${e.message ?? ""}`.trimEnd()));
+  }
+  if (report.logs) lines.push("  logs:", ...report.logs.split("\n").slice(-15).map((l) => `    ${l}`));
+  return lines.join("\n");
+}
@@ -0,0 +1,339 @@
+// Test Agent scenarios (YAML or JSON) — a prompt, optional setup, and what the agent is expected to do
+
+import { readdirSync, readFileSync, statSync } from "fs";
+import { extname, join } from "path";
+import { parse as parseYaml } from "yaml";
+import type { A2AClient } from "./a2a-client.js";
+import { ManifestError, validateManifest, type Manifest } from "./manifest.js";
+import { completed, operationResult, type Deployment, type Namespace } from "./operations.js";
+import { applyPlan, describeAction, planManifest } from "./reconcile.js";
+
+// Run before the prompt, outside the agent: either a stack to apply or a single operation
+export type SetupStep =
+  | { kind: "apply"; stack: Manifest }
+  | { kind: "operation"; operation: string; params: Record<string, unknown>; as?: string };
+
+export interface DeploymentExpectation {
+  // Strings may use * wildcards (image: "nginx*"); omitted fields match anything
+  name?: string;
+  image?: string;
+  status?: string;
+  replicas?: number;
+}
+
+export interface NamespaceExpectation {
+  name?: string;
+  allocatedCores?: number;
+  deployments: DeploymentExpectation[];
+}
+
+export interface ScenarioExpectations {
+  // Called in this order, other calls allowed in between
+  operations: string[];
+  // Never called
+  forbidden: string[];
+  // Live state once the agent is done; polled for up to settleSeconds so rollouts can finish
+  state: NamespaceExpectation[];
+  settleSeconds: number;
+}
+
+export interface Scenario {
+  title: string;
+  prompt: string;
+  source: string;
+  // Start with an empty conversation instead of continuing the previous scenario's
+  newConversation: boolean;
+  setup: SetupStep[];
+  expect: ScenarioExpectations;
+}
+
+export interface CallRecord {
+  operation: string;
+  params: Record<string, unknown>;
+  ok: boolean;
+}
+
+export interface ExpectationResult {
+  label: string;
+  ok: boolean;
+  detail?: string;
+}
+
+export class ScenarioError extends Error {
+  constructor(
+    message: string,
+    readonly issues: string[] = [],
+  ) {
+    super(issues.length ? `${message}:\n${issues.map((i) => `  - ${i}`).join("\n")}` : message);
+    this.name = "ScenarioError";
+  }
+}
+
+const isObject = (v: unknown): v is Record<string, unknown> => !!v && typeof v === "object" && !Array.isArray(v);
+const SCENARIO_EXTENSIONS = [".yaml", ".yml", ".json"];
+
+function stringList(v: unknown, path: string, issues: string[]): string[] {
+  if (v === undefined) return [];
+  if (!Array.isArray(v) || v.some((s) => typeof s !== "string")) {
+    issues.push(`${path}: expected a list of operation names`);
+    return [];
+  }
+  return v as string[];
+}
+
+function validateSetup(raw: unknown, path: string, issues: string[]): SetupStep[] {
+  if (raw === undefined) return [];
+  if (!Array.isArray(raw)) {
+    issues.push(`${path}: expected a list of steps`);
+    return [];
+  }
+  return raw.flatMap((step: unknown, i): SetupStep[] => {
+    const p = `${path}[${i}]`;
+    if (!isObject(step)) return (issues.push(`${p}: expected object`), []);
+    if (step.apply !== undefined) {
+      try {
+        return [{ kind: "apply", stack: validateManifest(step.apply) }];
+      } catch (e) {
+        if (!(e instanceof ManifestError)) throw e;
+        issues.push(...(e.issues.length ? e.issues.map((m) => `${p}.apply.${m}`) : [`${p}.apply: ${e.message}`]));
+        return [];
+      }
+    }
+    if (typeof step.operation !== "string") return (issues.push(`${p}: expected "operation" or "apply"`), []);
+    if (step.params !== undefined && !isObject(step.params)) issues.push(`${p}.params: expected object`);
+    if (step.as !== undefined && typeof step.as !== "string") issues.push(`${p}.as: expected a name`);
+    return [{ kind: "operation", operation: step.operation, params: isObject(step.params) ? step.params : {}, as: step.as as string | undefined }];
+  });
+}
+
+function validateState(raw: unknown, path: string, issues: string[]): NamespaceExpectation[] {
+  if (raw === undefined) return [];
+  const list = isObject(raw) && Array.isArray(raw.namespaces) ? raw.namespaces : raw;
+  if (!Array.isArray(list)) {
+    issues.push(`${path}: expected { namespaces: [...] }`);
+    return [];
+  }
+  const optional = (v: unknown, type: "string" | "number", p: string) => {
+    if (v !== undefined && typeof v !== type) issues.push(`${p}: expected ${type}`);
+    return v as never;
+  };
+  return list.flatMap((ns: unknown, i): NamespaceExpectation[] => {
+    const p = `${path}.namespaces[${i}]`;
+    if (!isObject(ns)) return (issues.push(`${p}: expected object`), []);
+    if (ns.deployments !== undefined && !Array.isArray(ns.deployments)) issues.push(`${p}.deployments: expected a list`);
+    const deployments = (Array.isArray(ns.deployments) ? ns.deployments : []).flatMap((d: unknown, j): DeploymentExpectation[] => {
+      const dp = `${p}.deployments[${j}]`;
+      if (!isObject(d)) return (issues.push(`${dp}: expected object`), []);
+      return [
+        {
+          name: optional(d.name, "string", `${dp}.name`),
+          image: optional(d.image, "string", `${dp}.image`),
+          status: optional(d.status, "string", `${dp}.status`),
+          replicas: optional(d.replicas, "number", `${dp}.replicas`),
+        },
+      ];
+    });
+    return [{ name: optional(ns.name, "string", `${p}.name`), allocatedCores: optional(ns.allocatedCores, "number", `${p}.allocatedCores`), deployments }];
+  });
+}
+
+export function validateScenario(raw: unknown, source: string): Scenario {
+  if (!isObject(raw)) throw new ScenarioError(`${source}: scenario is not an object`);
+  const issues: string[] = [];
+  if (typeof raw.title !== "string" || !raw.title) issues.push("title: expected non-empty string");
+  if (typeof raw.prompt !== "string" || !raw.prompt.trim()) issues.push("prompt: expected non-empty string");
+  if (raw.newConversation !== undefined && typeof raw.newConversation !== "boolean") issues.push("newConversation: expected true or false");
+
+  const expect = raw.expect ?? {};
+  if (!isObject(expect)) issues.push("expect: expected object");
+  const e = isObject(expect) ? expect : {};
+  if (e.settleSeconds !== undefined && !(typeof e.settleSeconds === "number" && e.settleSeconds >= 0)) {
+    issues.push("expect.settleSeconds: expected a non-negative number");
+  }
+
+  const scenario: Scenario = {
+    title: raw.title as string,
+    prompt: raw.prompt as string,
+    source,
+    newConversation: raw.newConversation === true,
+    setup: validateSetup(raw.setup, "setup", issues),
+    expect: {
+      operations: stringList(e.operations, "expect.operations", issues),
+      forbidden: stringList(e.forbidden, "expect.forbidden", issues),
+      state: validateState(e.state, "expect.state", issues),
+      settleSeconds: (e.settleSeconds as number | undefined) ?? 30,
+    },
+  };
+  if (issues.length) throw new ScenarioError(`Invalid scenario in ${source}`, issues);
+  return scenario;
+}
+
+// A file holds one scenario, a list of them, or { scenarios: [...] }
+export function parseScenarios(text: string, source = "scenario"): Scenario[] {
+  let raw: unknown;
+  try {
+    raw = parseYaml(text);
+  } catch (e) {
+    throw new ScenarioError(`Cannot parse ${source}: ${e instanceof Error ? e.message : e}`);
+  }
+  const list = isObject(raw) && Array.isArray(raw.scenarios) ? raw.scenarios : Array.isArray(raw) ? raw : [raw];
+  return list.map((s, i) => validateScenario(s, list.length > 1 ? `${source}#${i + 1}` : source));
+}
+
+export function loadScenarioFile(path: string): Scenario[] {
+  const ext = extname(path).toLowerCase();
+  if (!SCENARIO_EXTENSIONS.includes(ext)) throw new ScenarioError(`Unsupported scenario extension "${ext}" (use .yaml, .yml or .json)`);
+  let text: string;
+  try {
+    text = readFileSync(path, "utf8");
+  } catch (e) {
+    throw new ScenarioError(`Cannot read ${path}: ${e instanceof Error ? e.message : e}`);
+  }
+  return parseScenarios(text, path);
+}
+
+// Files run in name order, so a 01-, 02- prefix sets the sequence
+export function loadScenarioDir(dir: string): Scenario[] {
+  let files: string[];
+  try {
+    if (!statSync(dir).isDirectory()) throw new Error("not a directory");
+    files = readdirSync(dir).filter((f) => SCENARIO_EXTENSIONS.includes(extname(f).toLowerCase()));
+  } catch (e) {
+    throw new ScenarioError(`Cannot read scenario directory ${dir}: ${e instanceof Error ? e.message : e}`);
+  }
+  if (files.length === 0) throw new ScenarioError(`No .yaml, .yml or .json scenarios in ${dir}`);
+  return files.sort().flatMap((f) => loadScenarioFile(join(dir, f)));
+}
+
+// ─── Setup ───────────────────────────────────────────────────
+
+// "{{ns.id}}" is replaced by the `id` of the setup step saved `as: ns`; a whole-string reference keeps its type
+function resolveTemplates(value: unknown, saved: Map<string, unknown>): unknown {
+  if (typeof value === "string") {
+    const lookup = (ref: string) => {
+      const [name, ...path] = ref.trim().split(".");
+      if (!saved.has(name)) throw new ScenarioError(`Setup reference {{${ref}}}: no earlier step saved as "${name}"`);
+      const found = path.reduce<unknown>((v, key) => (isObject(v) || Array.isArray(v) ? (v as Record<string, unknown>)[key] : undefined), saved.get(name));
+      if (found === undefined) throw new ScenarioError(`Setup reference {{${ref}}} is undefined`);
+      return found;
+    };
+    const whole = value.match(/^\{\{([^}]+)\}\}$/);
+    if (whole) return lookup(whole[1]);
+    return value.replace(/\{\{([^}]+)\}\}/g, (_, ref: string) => String(lookup(ref)));
+  }
+  if (Array.isArray(value)) return value.map((v) => resolveTemplates(v, saved));
+  if (isObject(value)) return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, resolveTemplates(v, saved)]));
+  return value;
+}
+
+export async function runSetup(client: A2AClient, steps: SetupStep[], onStep?: (description: string) => void): Promise<void> {
+  const saved = new Map<string, unknown>();
+  for (const step of steps) {
+    if (step.kind === "apply") {
+      // Setup only adds what the scenario needs; it never prunes what earlier scenarios left behind
+      const plan = await planManifest(client, step.stack, { prune: false });
+      if (plan.actions.length === 0) onStep?.(`stack ${step.stack.namespaces.map((ns) => ns.name).join(", ")} already in place`);
+      await applyPlan(client, plan, { onAction: (a) => onStep?.(describeAction(a)) });
+      continue;
+    }
+    const params = resolveTemplates(step.params, saved) as Record<string, unknown>;
+    onStep?.(`${step.operation} ${JSON.stringify(params)}`);
+    const task = await client.execute(step.operation, params);
+    const data = await completed(`setup ${step.operation}`, Promise.resolve(operationResult(client, task, (d) => d)));
+    if (step.as) saved.set(step.as, data);
+  }
+}
+
+// ─── Expectations ────────────────────────────────────────────
+
+// Expected strings may use * as a wildcard; everything else compares exactly
+function matches(expected: string | number | undefined, actual: unknown): boolean {
+  if (expected === undefined) return true;
+  if (typeof expected === "number") return Number(actual) === expected;
+  if (!expected.includes("*")) return String(actual) === expected;
+  const pattern = expected.split("*").map((s) => s.replace(/[.+?^${}()|[\]\\]/g, "\\$&")).join(".*");
+  return new RegExp(`^${pattern}$`).test(String(actual));
+}
+
+function describeExpectation(fields: Record<string, unknown>): string {
+  const set = Object.entries(fields).filter(([, v]) => v !== undefined);
+  return set.length ? set.map(([k, v]) => `${k}=${v}`).join(" ") : "any";
+}
+
+export function checkOperations(expect: ScenarioExpectations, calls: CallRecord[]): ExpectationResult[] {
+  const results: ExpectationResult[] = [];
+  const called = calls.map((c) => c.operation);
+
+  if (expect.operations.length) {
+    let from = 0;
+    let missing: string | undefined;
+    for (const op of expect.operations) {
+      const at = called.indexOf(op, from);
+      if (at === -1) {
+        missing = op;
+        break;
+      }
+      from = at + 1;
+    }
+    results.push({
+      label: `calls ${expect.operations.join(" → ")}`,
+      ok: !missing,
+      detail: missing ? `${missing} not called${from > 0 ? ` after ${called[from - 1]}` : ""} (called: ${called.join(", ") || "nothing"})` : undefined,
+    });
+  }
+  for (const op of expect.forbidden) {
+    const count = called.filter((c) => c === op).length;
+    results.push({ label: `never calls ${op}`, ok: count === 0, detail: count ? `called ${count}×` : undefined });
+  }
+  return results;
+}
+
+async function checkStateOnce(client: A2AClient, state: NamespaceExpectation[]): Promise<ExpectationResult[]> {
+  const namespaces = await completed("namespace_list", client.namespace.list());
+  const deploymentsOf = new Map<string, Deployment[]>();
+  const listDeployments = async (ns: Namespace) => {
+    if (!deploymentsOf.has(ns.id)) deploymentsOf.set(ns.id, await completed("deploy_list", client.deploy.list({ namespaceId: ns.id })));
+    return deploymentsOf.get(ns.id)!;
+  };
+
+  const results: ExpectationResult[] = [];
+  for (const expected of state) {
+    const label = `namespace ${describeExpectation({ name: expected.name, allocatedCores: expected.allocatedCores })}${expected.deployments.length ? ` with ${expected.deployments.map((d) => `{${describeExpectation({ ...d })}}`).join(", ")}` : ""}`;
+    const candidates = namespaces.filter((ns) => matches(expected.name, ns.name) && matches(expected.allocatedCores, ns.allocatedCores));
+    if (candidates.length === 0) {
+      results.push({ label, ok: false, detail: `no such namespace (have: ${namespaces.map((n) => n.name).join(", ") || "none"})` });
+      continue;
+    }
+    let detail = "";
+    let ok = false;
+    for (const ns of candidates) {
+      const deployments = await listDeployments(ns);
+      const unmet = expected.deployments.filter(
+        (d) => !deployments.some((live) => matches(d.name, live.name) && matches(d.image, live.image) && matches(d.status, live.status) && matches(d.replicas, live.replicas)),
+      );
+      if (unmet.length === 0) {
+        ok = true;
+        break;
+      }
+      const live = deployments.map((d) => `${d.name} ${d.image} ${d.status} ×${d.replicas ?? "?"}`).join("; ") || "no deployments";
+      detail = `${ns.name}: ${live}`;
+    }
+    results.push({ label, ok, detail: ok ? undefined : detail });
+  }
+  return results;
+}
+
+// Rollouts keep going after the agent's last call, so a failing state check is retried until settleSeconds pass
+export async function checkState(client: A2AClient, expect: ScenarioExpectations, intervalMs = 2_000): Promise<ExpectationResult[]> {
+  if (expect.state.length === 0) return [];
+  const deadline = Date.now() + expect.settleSeconds * 1000;
+  for (;;) {
+    const results = await checkStateOnce(client, expect.state);
+    if (results.every((r) => r.ok) || Date.now() + intervalMs > deadline) return results;
+    await new Promise((r) => setTimeout(r, intervalMs));
+  }
+}
+
+export async function evaluateScenario(client: A2AClient, scenario: Scenario, calls: CallRecord[]): Promise<ExpectationResult[]> {
+  return [...checkOperations(scenario.expect, calls), ...(await checkState(client, scenario.expect))];
+}
@@ -0,0 +1,41 @@
+// `a2a session clear --all` must empty the session directory whatever the files contain
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, readdirSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { SessionStore, type SessionRecord } from "./session.js";
+
+const record = (name: string): SessionRecord => ({
+  name,
+  contextId: `ctx-${name}`,
+  baseUrl: "http://127.0.0.1:3999",
+  createdAt: "2026-01-01T00:00:00Z",
+  updatedAt: "2026-01-01T00:00:00Z",
+  turns: 1,
+});
+
+test("SessionStore.clearAll: removes every session file, including ones whose record does not match its name", () => {
+  const dir = mkdtempSync(join(tmpdir(), "willform-sessions-"));
+  try {
+    const store = new SessionStore(dir);
+    store.save(record("alpha"));
+    store.save(record("beta"));
+    // Hand-edited name, a record without one, and a file that is not JSON at all
+    writeFileSync(join(dir, "gamma.json"), JSON.stringify(record("renamed")));
+    writeFileSync(join(dir, "delta.json"), JSON.stringify({ ...record("delta"), name: undefined }));
+    writeFileSync(join(dir, "broken.json"), "{");
+    writeFileSync(join(dir, "notes.txt"), "not a session");
+
+    assert.equal(store.clearAll(), 5);
+    assert.deepEqual(readdirSync(dir), ["notes.txt"]);
+    assert.deepEqual(store.list(), []);
+  } finally {
+    rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+test("SessionStore.clearAll: a missing directory has nothing to clear", () => {
+  assert.equal(new SessionStore(join(tmpdir(), "willform-sessions-missing")).clearAll(), 0);
+});
@@ -0,0 +1,152 @@
+// Multi-turn A2A conversations: the contextId Willy assigns on the first task is reused for every later message
+
+import { existsSync, mkdirSync, readdirSync, readFileSync, rmSync, writeFileSync } from "fs";
+import { homedir } from "os";
+import { join } from "path";
+import type { A2AClient, A2ATask, ExecuteOptions } from "./a2a-client.js";
+
+export interface SessionRecord {
+  name: string;
+  contextId: string;
+  // A contextId is only meaningful to the agent that issued it
+  baseUrl: string;
+  createdAt: string;
+  updatedAt: string;
+  turns: number;
+  lastOperation?: string;
+}
+
+export const DEFAULT_SESSION_DIR = join(homedir(), ".willform", "sessions");
+
+// WILLFORM_SESSION_DIR overrides where named sessions are kept
+export function sessionDirFromEnv(env: NodeJS.ProcessEnv = process.env): string {
+  return env.WILLFORM_SESSION_DIR || DEFAULT_SESSION_DIR;
+}
+
+const SESSION_NAME = /^[A-Za-z0-9][A-Za-z0-9._-]{0,63}$/;
+
+export class SessionStore {
+  constructor(readonly dir: string = DEFAULT_SESSION_DIR) {}
+
+  private file(name: string): string {
+    if (!SESSION_NAME.test(name)) throw new Error(`Invalid session name "${name}" (letters, digits, . _ -)`);
+    return join(this.dir, `${name}.json`);
+  }
+
+  load(name: string): SessionRecord | null {
+    const file = this.file(name);
+    if (!existsSync(file)) return null;
+    return JSON.parse(readFileSync(file, "utf8")) as SessionRecord;
+  }
+
+  save(record: SessionRecord): void {
+    mkdirSync(this.dir, { recursive: true });
+    writeFileSync(this.file(record.name), JSON.stringify(record, null, 2) + "\n");
+  }
+
+  list(): SessionRecord[] {
+    if (!existsSync(this.dir)) return [];
+    return readdirSync(this.dir)
+      .filter((f) => f.endsWith(".json"))
+      .flatMap((f) => {
+        try {
+          return [JSON.parse(readFileSync(join(this.dir, f), "utf8")) as SessionRecord];
+        } catch {
+          return [];
+        }
+      })
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  }
+
+  // Returns whether a session was removed
+  clear(name: string): boolean {
+    const file = this.file(name);
+    if (!existsSync(file)) return false;
+    rmSync(file);
+    return true;
+  }
+
+  // Goes by the files on disk, so records that are corrupt or whose name was edited are removed too
+  clearAll(): number {
+    if (!existsSync(this.dir)) return 0;
+    const files = readdirSync(this.dir).filter((f) => f.endsWith(".json"));
+    for (const f of files) rmSync(join(this.dir, f));
+    return files.length;
+  }
+}
+
+export interface SessionOptions {
+  // Named sessions are persisted; unnamed ones live for this process only
+  name?: string;
+  store?: SessionStore;
+  // Continue a known conversation instead of letting Willy start one
+  contextId?: string;
+}
+
+export class Session {
+  readonly name?: string;
+  private store?: SessionStore;
+  private record: SessionRecord | null = null;
+  private _contextId?: string;
+
+  constructor(
+    private client: A2AClient,
+    options: SessionOptions = {},
+  ) {
+    this.name = options.name;
+    this.store = options.name ? (options.store ?? new SessionStore()) : undefined;
+    if (this.name && this.store) {
+      const saved = this.store.load(this.name);
+      // A contextId from another server would silently start a new conversation there; drop it instead
+      if (saved && saved.baseUrl === client.endpoint) this.record = saved;
+    }
+    this._contextId = options.contextId ?? this.record?.contextId;
+  }
+
+  get contextId(): string | undefined {
+    return this._contextId;
+  }
+
+  get turns(): number {
+    return this.record?.turns ?? 0;
+  }
+
+  async sendText(text: string): Promise<A2ATask> {
+    return this.capture(await this.client.sendText(text, this._contextId));
+  }
+
+  async send(operation: string, params: Record<string, unknown> = {}): Promise<A2ATask> {
+    return this.capture(await this.client.send(operation, params, this._contextId), operation);
+  }
+
+  async execute(operation: string, params: Record<string, unknown> = {}, options: ExecuteOptions = {}): Promise<A2ATask> {
+    const task = await this.client.execute(operation, params, { ...options, contextId: this._contextId });
+    return this.capture(task, operation);
+  }
+
+  // Forget the conversation; the next message starts a new one
+  reset(): void {
+    this._contextId = undefined;
+    this.record = null;
+    if (this.name) this.store?.clear(this.name);
+  }
+
+  private capture(task: A2ATask, operation?: string): A2ATask {
+    if (task.contextId) this._contextId = task.contextId;
+    if (!this.name || !this.store || !this._contextId) return task;
+
+    const now = new Date().toISOString();
+    const fresh = !this.record || this.record.contextId !== this._contextId;
+    this.record = {
+      name: this.name,
+      contextId: this._contextId,
+      baseUrl: this.client.endpoint,
+      createdAt: fresh ? now : this.record!.createdAt,
+      updatedAt: now,
+      turns: (fresh ? 0 : this.record!.turns) + 1,
+      lastOperation: operation ?? this.record?.lastOperation,
+    };
+    this.store.save(this.record);
+    return task;
+  }
+}
@@ -0,0 +1,47 @@
+// Wallet paths from .env may start with ~/, which nothing but a shell would expand
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { privateKeyToAccount } from "viem/accounts";
+import { encryptKeystore, loadSigner } from "./signer.js";
+
+const PRIVATE_KEY = "0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d";
+// The standard test mnemonic; its first account is 0xf39F…2266
+const MNEMONIC = "test test test test test test test test test test test junk";
+
+// os.homedir() follows $HOME, so each test gets a throwaway home
+function withHome(run: (home: string) => Promise<void>): () => Promise<void> {
+  return async () => {
+    const home = mkdtempSync(join(tmpdir(), "willform-home-"));
+    const saved = process.env.HOME;
+    process.env.HOME = home;
+    try {
+      await run(home);
+    } finally {
+      process.env.HOME = saved;
+      rmSync(home, { recursive: true, force: true });
+    }
+  };
+}
+
+test(
+  "loadSigner: WALLET_KEYSTORE under ~/ is read from the home directory",
+  withHome(async (home) => {
+    writeFileSync(join(home, "wallet.json"), encryptKeystore(PRIVATE_KEY, "correct horse"));
+    const signer = await loadSigner({ WALLET_KEYSTORE: "~/wallet.json", WALLET_KEYSTORE_PASSPHRASE: "correct horse" });
+    assert.equal(signer.kind, "keystore");
+    assert.equal(signer.account.address, privateKeyToAccount(PRIVATE_KEY).address);
+  }),
+);
+
+test(
+  "loadSigner: WALLET_MNEMONIC_FILE under ~/ is read from the home directory",
+  withHome(async (home) => {
+    writeFileSync(join(home, "mnemonic"), `${MNEMONIC}\n`);
+    const signer = await loadSigner({ WALLET_MNEMONIC_FILE: "~/mnemonic" });
+    assert.equal(signer.account.address, "0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266");
+  }),
+);
@@ -0,0 +1,283 @@
+// Wallet signers for x402 — raw key, encrypted keystore, mnemonic or a remote JSON-RPC signer
+
+import { createCipheriv, createDecipheriv, pbkdf2Sync, randomBytes, randomUUID, scryptSync, timingSafeEqual } from "crypto";
+import { readFileSync } from "fs";
+import http from "http";
+import https from "https";
+import { getAddress, keccak256, toHex } from "viem";
+import { mnemonicToAccount, privateKeyToAccount } from "viem/accounts";
+import type { ClientEvmSigner } from "@x402/evm";
+import { expandHome } from "./util.js";
+
+export type SignerKind = "env" | "keystore" | "mnemonic" | "remote";
+
+export interface WalletSigner {
+  kind: SignerKind;
+  // Human-readable origin, e.g. "keystore ~/.willform/wallet.json"
+  source: string;
+  account: ClientEvmSigner;
+}
+
+export const DEFAULT_DERIVATION_PATH = "m/44'/60'/0'/0/0";
+
+// ─── Passphrase prompt ───────────────────────────────────────
+
+// Reads a line from the terminal without echoing it
+export function promptHidden(question: string): Promise<string> {
+  const { stdin, stderr } = process;
+  if (!stdin.isTTY) {
+    return Promise.reject(new Error(`${question.trim()} needs an interactive terminal`));
+  }
+  return new Promise((resolve) => {
+    let value = "";
+    stderr.write(question);
+    stdin.setRawMode(true);
+    stdin.resume();
+    stdin.setEncoding("utf8");
+    const onData = (chunk: string) => {
+      for (const ch of chunk) {
+        if (ch === "\r" || ch === "\n") {
+          stdin.off("data", onData);
+          stdin.setRawMode(false);
+          stdin.pause();
+          stderr.write("\n");
+          resolve(value);
+          return;
+        }
+        if (ch === "\u0003") {
+          stderr.write("\n");
+          process.exit(130);
+        }
+        if (ch === "\u007f" || ch === "\b") value = value.slice(0, -1);
+        else value += ch;
+      }
+    };
+    stdin.on("data", onData);
+  });
+}
+
+// ─── Keystore (Web3 Secret Storage v3) ───────────────────────
+
+interface KeystoreV3 {
+  version: 3;
+  id: string;
+  address: string;
+  crypto: {
+    cipher: "aes-128-ctr";
+    ciphertext: string;
+    cipherparams: { iv: string };
+    kdf: "scrypt" | "pbkdf2";
+    kdfparams: {
+      dklen: number;
+      salt: string;
+      n?: number;
+      r?: number;
+      p?: number;
+      c?: number;
+      prf?: string;
+    };
+    mac: string;
+  };
+}
+
+function deriveKey(kdf: KeystoreV3["crypto"]["kdf"], params: KeystoreV3["crypto"]["kdfparams"], passphrase: string): Buffer {
+  const salt = Buffer.from(params.salt, "hex");
+  if (kdf === "scrypt") {
+    const { n = 262144, r = 8, p = 1 } = params;
+    return scryptSync(passphrase, salt, params.dklen, { N: n, r, p, maxmem: 256 * n * r * p });
+  }
+  if (kdf === "pbkdf2") {
+    if (params.prf && params.prf !== "hmac-sha256") throw new Error(`Unsupported keystore PRF: ${params.prf}`);
+    return pbkdf2Sync(passphrase, salt, params.c ?? 262144, params.dklen, "sha256");
+  }
+  throw new Error(`Unsupported keystore KDF: ${kdf}`);
+}
+
+function keystoreMac(derivedKey: Buffer, ciphertext: Buffer): Buffer {
+  return Buffer.from(keccak256(Buffer.concat([derivedKey.subarray(16, 32), ciphertext])).slice(2), "hex");
+}
+
+export function decryptKeystore(json: string, passphrase: string): `0x${string}` {
+  const keystore = JSON.parse(json) as KeystoreV3;
+  const c = keystore.crypto ?? (keystore as unknown as { Crypto: KeystoreV3["crypto"] }).Crypto;
+  if (keystore.version !== 3 || !c) throw new Error("Unsupported keystore format (expected version 3)");
+  if (c.cipher !== "aes-128-ctr") throw new Error(`Unsupported keystore cipher: ${c.cipher}`);
+
+  const derivedKey = deriveKey(c.kdf, c.kdfparams, passphrase);
+  const ciphertext = Buffer.from(c.ciphertext, "hex");
+  const expected = keystoreMac(derivedKey, ciphertext);
+  const mac = Buffer.from(c.mac ?? "", "hex");
+  // timingSafeEqual throws on a length mismatch, which only a damaged file can cause
+  if (mac.length !== expected.length) throw new Error("Corrupt keystore: mac is not a 32-byte hex string");
+  if (!timingSafeEqual(expected, mac)) {
+    throw new Error("Wrong keystore passphrase");
+  }
+  const decipher = createDecipheriv("aes-128-ctr", derivedKey.subarray(0, 16), Buffer.from(c.cipherparams.iv, "hex"));
+  const privateKey = toHex(Buffer.concat([decipher.update(ciphertext), decipher.final()]));
+
+  // The mac only covers the ciphertext; a mismatched address means the file was edited or pieced together
+  if (keystore.address) {
+    const derived = privateKeyToAccount(privateKey).address.toLowerCase();
+    const stated = `0x${keystore.address.replace(/^0x/i, "").toLowerCase()}`;
+    if (derived !== stated) throw new Error(`Corrupt keystore: key decrypts to ${derived}, not the stated address ${stated}`);
+  }
+  return privateKey;
+}
+
+export function encryptKeystore(privateKey: `0x${string}`, passphrase: string): string {
+  const address = privateKeyToAccount(privateKey).address;
+  const kdfparams = { dklen: 32, salt: randomBytes(32).toString("hex"), n: 262144, r: 8, p: 1 };
+  const derivedKey = deriveKey("scrypt", kdfparams, passphrase);
+  const iv = randomBytes(16);
+  const cipher = createCipheriv("aes-128-ctr", derivedKey.subarray(0, 16), iv);
+  const ciphertext = Buffer.concat([cipher.update(Buffer.from(privateKey.slice(2), "hex")), cipher.final()]);
+  const keystore: KeystoreV3 = {
+    version: 3,
+    id: randomUUID(),
+    address: address.slice(2).toLowerCase(),
+    crypto: {
+      cipher: "aes-128-ctr",
+      ciphertext: ciphertext.toString("hex"),
+      cipherparams: { iv: iv.toString("hex") },
+      kdf: "scrypt",
+      kdfparams,
+      mac: keystoreMac(derivedKey, ciphertext).toString("hex"),
+    },
+  };
+  return JSON.stringify(keystore, null, 2);
+}
+
+// ─── Remote signer ───────────────────────────────────────────
+
+// POST one JSON-RPC call to http(s)://host:port or a unix socket given as unix:/path/to.sock
+function remoteCall<T>(endpoint: string, method: string, params: unknown[]): Promise<T> {
+  const body = JSON.stringify({ jsonrpc: "2.0", id: 1, method, params });
+  const target = endpoint.startsWith("unix:")
+    ? { socketPath: endpoint.slice(5), path: "/" }
+    : (() => {
+        const url = new URL(endpoint);
+        return { hostname: url.hostname, port: url.port, path: url.pathname + url.search, protocol: url.protocol };
+      })();
+  const transport = "protocol" in target && target.protocol === "https:" ? https : http;
+
+  return new Promise((resolve, reject) => {
+    const req = transport.request(
+      {
+        ...target,
+        method: "POST",
+        headers: { "Content-Type": "application/json", "Content-Length": Buffer.byteLength(body) },
+        timeout: 30_000,
+      },
+      (res) => {
+        let raw = "";
+        res.setEncoding("utf8");
+        res.on("data", (chunk) => (raw += chunk));
+        res.on("end", () => {
+          try {
+            const json = JSON.parse(raw) as { result?: T; error?: { code: number; message: string } };
+            if (json.error) reject(new Error(`Remote signer error [${json.error.code}]: ${json.error.message}`));
+            else resolve(json.result as T);
+          } catch {
+            reject(new Error(`Remote signer returned HTTP ${res.statusCode}: ${raw.slice(0, 200)}`));
+          }
+        });
+      },
+    );
+    req.on("timeout", () => req.destroy(new Error(`Remote signer ${endpoint} timed out`)));
+    req.on("error", reject);
+    req.end(body);
+  });
+}
+
+// eth_signTypedData_v4 wants EIP712Domain spelled out in types
+const DOMAIN_FIELDS: Array<[string, string]> = [
+  ["name", "string"],
+  ["version", "string"],
+  ["chainId", "uint256"],
+  ["verifyingContract", "address"],
+  ["salt", "bytes32"],
+];
+
+async function remoteAccount(endpoint: string, configured?: string): Promise<ClientEvmSigner> {
+  let address = configured;
+  if (!address) {
+    const accounts = await remoteCall<string[]>(endpoint, "eth_accounts", []);
+    if (!accounts?.length) throw new Error(`Remote signer ${endpoint} exposes no accounts`);
+    address = accounts[0];
+  }
+  const from = getAddress(address);
+
+  return {
+    address: from,
+    async signTypedData({ domain, types, primaryType, message }) {
+      const typedData = {
+        domain,
+        primaryType,
+        types: {
+          EIP712Domain: DOMAIN_FIELDS.filter(([name]) => domain[name] !== undefined).map(([name, type]) => ({ name, type })),
+          ...types,
+        },
+        message,
+      };
+      const json = JSON.stringify(typedData, (_k, v) => (typeof v === "bigint" ? v.toString() : v));
+      return remoteCall<`0x${string}`>(endpoint, "eth_signTypedData_v4", [from, json]);
+    },
+  };
+}
+
+// ─── Selection ───────────────────────────────────────────────
+
+function inferKind(env: NodeJS.ProcessEnv): SignerKind {
+  const explicit = env.WALLET_SIGNER?.trim();
+  if (explicit) {
+    if (!["env", "keystore", "mnemonic", "remote"].includes(explicit)) {
+      throw new Error(`Unknown WALLET_SIGNER "${explicit}" (use env, keystore, mnemonic or remote)`);
+    }
+    return explicit as SignerKind;
+  }
+  if (env.WALLET_KEYSTORE) return "keystore";
+  if (env.WALLET_MNEMONIC || env.WALLET_MNEMONIC_FILE) return "mnemonic";
+  if (env.WALLET_SIGNER_URL) return "remote";
+  return "env";
+}
+
+// WALLET_SIGNER picks the mode explicitly; otherwise the first configured source wins:
+//   keystore  WALLET_KEYSTORE=path [WALLET_KEYSTORE_PASSPHRASE, else prompted]
+//   mnemonic  WALLET_MNEMONIC or WALLET_MNEMONIC_FILE, WALLET_DERIVATION_PATH
+//   remote    WALLET_SIGNER_URL=http://127.0.0.1:8545 | unix:/path.sock, WALLET_ADDRESS (else eth_accounts[0])
+//   env       WALLET_PRIVATE_KEY
+export async function loadSigner(env: NodeJS.ProcessEnv = process.env): Promise<WalletSigner> {
+  const kind = inferKind(env);
+
+  switch (kind) {
+    case "keystore": {
+      const path = env.WALLET_KEYSTORE && expandHome(env.WALLET_KEYSTORE);
+      if (!path) throw new Error("WALLET_KEYSTORE must point at an encrypted JSON keystore file");
+      const json = readFileSync(path, "utf8");
+      const passphrase = env.WALLET_KEYSTORE_PASSPHRASE ?? (await promptHidden(`Passphrase for ${path}: `));
+      return { kind, source: `keystore ${path}`, account: privateKeyToAccount(decryptKeystore(json, passphrase)) };
+    }
+    case "mnemonic": {
+      const phrase = (env.WALLET_MNEMONIC ?? (env.WALLET_MNEMONIC_FILE ? readFileSync(expandHome(env.WALLET_MNEMONIC_FILE), "utf8") : ""))
+        .trim()
+        .replace(/\s+/g, " ");
+      if (!phrase) throw new Error("WALLET_MNEMONIC or WALLET_MNEMONIC_FILE is required for the mnemonic signer");
+      const path = (env.WALLET_DERIVATION_PATH ?? DEFAULT_DERIVATION_PATH) as `m/44'/60'/${string}`;
+      return { kind, source: `mnemonic ${path}`, account: mnemonicToAccount(phrase, { path }) };
+    }
+    case "remote": {
+      const endpoint = env.WALLET_SIGNER_URL;
+      if (!endpoint) throw new Error("WALLET_SIGNER_URL is required for the remote signer");
+      return { kind, source: `remote ${endpoint}`, account: await remoteAccount(endpoint, env.WALLET_ADDRESS) };
+    }
+    case "env": {
+      const privateKey = env.WALLET_PRIVATE_KEY;
+      if (!privateKey) {
+        throw new Error(
+          "No wallet configured. Set WALLET_PRIVATE_KEY, WALLET_KEYSTORE, WALLET_MNEMONIC or WALLET_SIGNER_URL in .env or environment.",
+        );
+      }
+      return { kind, source: "WALLET_PRIVATE_KEY", account: privateKeyToAccount(privateKey as `0x${string}`) };
+    }
+  }
+}
@@ -0,0 +1,58 @@
+// parseSSE must give the same events however the body is chunked, and release the body when the reader stops early
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { parseSSE, type SSEMessage } from "./sse.js";
+
+// A body that delivers exactly these chunks, noting whether it was cancelled
+function chunkedBody(chunks: string[]): { body: ReadableStream<Uint8Array>; cancelled: () => boolean } {
+  const encoder = new TextEncoder();
+  let cancelled = false;
+  let i = 0;
+  const body = new ReadableStream<Uint8Array>({
+    pull(controller) {
+      if (i < chunks.length) controller.enqueue(encoder.encode(chunks[i++]));
+      else controller.close();
+    },
+    cancel() {
+      cancelled = true;
+    },
+  });
+  return { body, cancelled: () => cancelled };
+}
+
+async function collect(chunks: string[]): Promise<SSEMessage[]> {
+  const messages: SSEMessage[] = [];
+  for await (const message of parseSSE(chunkedBody(chunks).body)) messages.push(message);
+  return messages;
+}
+
+test("parseSSE: \\r\\n split across chunks is one line break", async () => {
+  const expected = ["a", "b", "c"];
+  assert.deepEqual((await collect(["data: a\r", "\n\r", "\ndata: b\r\n\r\n", "data: c\r", "\n\r\n"])).map((m) => m.data), expected);
+  // Every possible split point of the same stream
+  const stream = "data: a\r\n\r\ndata: b\r\n\r\ndata: c\r\n\r\n";
+  for (let at = 1; at < stream.length; at++) {
+    assert.deepEqual((await collect([stream.slice(0, at), stream.slice(at)])).map((m) => m.data), expected, `split at ${at}`);
+  }
+});
+
+test("parseSSE: a lone \\r still ends a line, including at the end of the stream", async () => {
+  assert.deepEqual((await collect(["data: a\r\rdata: b\r"])).map((m) => m.data), ["a", "b"]);
+});
+
+test("parseSSE: multi-line data fields are joined with \\n", async () => {
+  const messages = await collect(["event: update\nid: 7\ndata: {\"a\":\ndata:  1}\n", ": keep-alive\n", "\n"]);
+  assert.deepEqual(messages, [{ event: "update", data: "{\"a\":\n 1}", id: "7" }]);
+  // A \r\n split between two data lines must not end the event early
+  assert.deepEqual(await collect(["data: x\r", "\ndata: y\r\n\r\n"]), [{ event: "message", data: "x\ny", id: undefined }]);
+});
+
+test("parseSSE: a consumer that stops early cancels the body", async () => {
+  const { body, cancelled } = chunkedBody(["data: first\n\n", "data: second\n\n", "data: third\n\n"]);
+  for await (const message of parseSSE(body)) {
+    assert.equal(message.data, "first");
+    break;
+  }
+  assert.ok(cancelled(), "the body was left open");
+});
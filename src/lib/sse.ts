@@ -0,0 +1,71 @@
+// Minimal Server-Sent Events parser for fetch response bodies
+
+export interface SSEMessage {
+  event: string;
+  data: string;
+  id?: string;
+}
+
+export async function* parseSSE(body: ReadableStream<Uint8Array>): AsyncGenerator<SSEMessage> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let event = "message";
+  let data: string[] = [];
+  let id: string | undefined;
+
+  const flush = (): SSEMessage | null => {
+    if (data.length === 0) {
+      event = "message";
+      return null;
+    }
+    const msg: SSEMessage = { event, data: data.join("\n"), id };
+    event = "message";
+    data = [];
+    return msg;
+  };
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      let newline: number;
+      while ((newline = buffer.search(/\r\n|\r|\n/)) !== -1) {
+        // A trailing \r may be the first half of a \r\n split across chunks; wait for the next one to tell
+        if (newline === buffer.length - 1 && buffer[newline] === "\r") break;
+        const line = buffer.slice(0, newline);
+        const sepLen = buffer.startsWith("\r\n", newline) ? 2 : 1;
+        buffer = buffer.slice(newline + sepLen);
+
+        // Blank line dispatches the accumulated event
+        if (line === "") {
+          const msg = flush();
+          if (msg) yield msg;
+          continue;
+        }
+        if (line.startsWith(":")) continue;
+
+        const colon = line.indexOf(":");
+        const field = colon === -1 ? line : line.slice(0, colon);
+        let value = colon === -1 ? "" : line.slice(colon + 1);
+        if (value.startsWith(" ")) value = value.slice(1);
+
+        if (field === "data") data.push(value);
+        else if (field === "event") event = value;
+        else if (field === "id") id = value;
+      }
+    }
+
+    buffer += decoder.decode();
+    buffer = buffer.replace(/\r$/, "");
+    if (buffer.startsWith("data:")) data.push(buffer.slice(5).trimStart());
+    const msg = flush();
+    if (msg) yield msg;
+  } finally {
+    // A consumer that stops early (e.g. on a final status-update) must not leave the response body open
+    await reader.cancel().catch(() => {});
+    reader.releaseLock();
+  }
+}
@@ -0,0 +1,154 @@
+// Namespace dashboard for `a2a top`: one poll gathers deployments, their status and events, and the credit balance.
+// Everything after deploy_list goes out as a single JSON-RPC batch, so a poll costs two round trips however many deployments there are.
+
+import chalk from "chalk";
+import type { A2AClient, ExecuteOptions } from "./a2a-client.js";
+import { padW, strWidth } from "./animation.js";
+import { replicaCounts } from "./rollout.js";
+import {
+  completed,
+  decodeCreditsBalance,
+  decodeDeploymentEvents,
+  decodeDeploymentStatus,
+  operationResult,
+  type Deployment,
+  type DeploymentEvent,
+  type DeploymentStatus,
+  type Namespace,
+} from "./operations.js";
+
+export interface DeploymentRow {
+  deployment: Deployment;
+  status: DeploymentStatus;
+}
+
+export interface TopSnapshot {
+  at: number;
+  namespace: Namespace;
+  rows: DeploymentRow[];
+  // Newest first, across all deployments in the namespace
+  events: Array<DeploymentEvent & { deployment: string }>;
+  balance: number;
+  estimatedRuntime?: string;
+}
+
+// Accept a namespace name as well as its id; names are what people remember
+export async function resolveNamespace(client: A2AClient, ref: string, execute?: ExecuteOptions): Promise<Namespace> {
+  const namespaces = await completed("namespace_list", client.namespace.list(execute));
+  const ns = namespaces.find((n) => n.id === ref || n.name === ref || n.shortId === ref);
+  if (!ns) throw new Error(`Namespace ${ref} not found (have: ${namespaces.map((n) => n.name).join(", ") || "none"})`);
+  return ns;
+}
+
+export async function pollNamespace(client: A2AClient, namespace: Namespace, execute?: ExecuteOptions): Promise<TopSnapshot> {
+  const deployments = await completed("deploy_list", client.deploy.list({ namespaceId: namespace.id }, execute));
+  const results = await client.executeBatch(
+    [
+      ...deployments.flatMap(({ deploymentId }) => [
+        { operation: "deploy_status", params: { deploymentId } },
+        { operation: "deploy_events", params: { deploymentId } },
+      ]),
+      { operation: "credits_balance" },
+    ],
+    execute,
+  );
+  const take = <T>(i: number, what: string, map: (data: unknown) => T): Promise<T> => {
+    const result = results[i];
+    if (!result.ok) throw result.error;
+    return completed(what, Promise.resolve(operationResult(client, result.task, map)));
+  };
+
+  const rows: DeploymentRow[] = [];
+  const events: TopSnapshot["events"] = [];
+  for (const [i, deployment] of deployments.entries()) {
+    const status = await take(2 * i, `deploy_status ${deployment.name}`, (d) => decodeDeploymentStatus(d, deployment.deploymentId));
+    rows.push({ deployment, status });
+    for (const e of await take(2 * i + 1, `deploy_events ${deployment.name}`, decodeDeploymentEvents)) {
+      events.push({ ...e, deployment: deployment.name });
+    }
+  }
+  events.sort((a, b) => String(b.timestamp ?? "").localeCompare(String(a.timestamp ?? "")));
+  const credits = await take(2 * deployments.length, "credits_balance", decodeCreditsBalance);
+  return { at: Date.now(), namespace, rows, events, balance: Number(credits.balance), estimatedRuntime: credits.estimatedRuntime };
+}
+
+// USDC per hour between the first and latest snapshot; null until the balance has had time to move
+export function burnRate(first: TopSnapshot, latest: TopSnapshot): number | null {
+  const hours = (latest.at - first.at) / 3_600_000;
+  if (hours <= 0 || latest === first) return null;
+  return Math.max(0, first.balance - latest.balance) / hours;
+}
+
+function statusColor(status: string): (s: string) => string {
+  if (status === "running") return chalk.green;
+  if (status === "stopped") return chalk.gray;
+  if (/fail|crash|error|backoff/i.test(status)) return chalk.red;
+  return chalk.yellow;
+}
+
+// Pads the plain text first so ANSI codes never count towards column width
+function row(cells: Array<[string, number, ((s: string) => string)?]>): string {
+  return cells.map(([text, width, color]) => (color ? color(padW(text, width)) : padW(text, width))).join("  ").trimEnd();
+}
+
+export interface RenderOptions {
+  width: number;
+  height: number;
+  intervalMs: number;
+  burn: number | null;
+  spent?: string;
+  error?: string;
+}
+
+export function renderTop(snapshot: TopSnapshot, options: RenderOptions): string {
+  const { width, height, intervalMs, burn, spent, error } = options;
+  const { namespace, rows, events } = snapshot;
+  const lines: string[] = [];
+
+  const clock = new Date(snapshot.at).toTimeString().slice(0, 8);
+  lines.push(
+    chalk.bold(`a2a top — ${namespace.name}`) +
+      chalk.gray(`  ${namespace.id}  ${namespace.allocatedCores} cores  ${clock}  every ${intervalMs / 1000}s  (q to quit)`),
+  );
+  const credit = [
+    `Credits ${chalk.bold(`$${snapshot.balance.toFixed(4)}`)}`,
+    `burn ${burn === null ? chalk.gray("measuring…") : `$${burn.toFixed(4)}/h`}`,
+    snapshot.estimatedRuntime && chalk.gray(snapshot.estimatedRuntime),
+    spent && `x402 this session ${spent} USDC`,
+  ];
+  lines.push(credit.filter(Boolean).join("   "));
+  lines.push(error ? chalk.red(`⚠ ${error} — showing the last good poll`) : "");
+
+  const names = rows.map((r) => r.deployment.name);
+  const images = rows.map((r) => r.deployment.image);
+  const nameW = Math.max(4, ...names.map(strWidth));
+  const statusW = Math.max(6, ...rows.map((r) => strWidth(r.status.status)));
+  const imageW = Math.min(Math.max(5, ...images.map(strWidth)), 32);
+  const domainW = Math.max(6, width - nameW - statusW - imageW - 7 - 4 * 2);
+
+  lines.push(chalk.gray(row([["NAME", nameW], ["STATUS", statusW], ["READY", 7], ["IMAGE", imageW], ["DOMAIN", domainW]])));
+  if (rows.length === 0) lines.push(chalk.gray("(no deployments)"));
+  for (const { deployment, status } of rows) {
+    const { ready, desired } = replicaCounts({ ...status, replicas: status.replicas ?? deployment.replicas });
+    lines.push(
+      row([
+        [deployment.name, nameW],
+        [status.status, statusW, statusColor(status.status)],
+        [`${ready}/${desired}`, 7, ready < desired ? chalk.yellow : undefined],
+        [deployment.image, imageW],
+        [status.domain ?? "", domainW, chalk.gray],
+      ]),
+    );
+  }
+
+  lines.push("", chalk.bold("Recent events"));
+  const room = Math.max(height - lines.length - 1, 3);
+  if (events.length === 0) lines.push(chalk.gray("(none)"));
+  for (const e of events.slice(0, room)) {
+    const time = e.timestamp ? new Date(e.timestamp).toTimeString().slice(0, 8) : "--:--:--";
+    const color = e.type === "Warning" ? chalk.red : chalk.gray;
+    const text = `${time}  ${padW(e.deployment, nameW)}  ${padW(e.reason ?? "", 18)}  ${e.message ?? ""}`;
+    lines.push(color(padW(text, width).trimEnd()));
+  }
+  return lines.join("\n");
+}
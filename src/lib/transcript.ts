@@ -0,0 +1,145 @@
+// Agent run transcripts: what the model, Willy and the terminal saw during a run, and a player that re-renders it
+
+import { mkdirSync, readFileSync, writeFileSync } from "fs";
+import { dirname, join } from "path";
+import type Anthropic from "@anthropic-ai/sdk";
+import type { OperationRisk } from "./approval.js";
+
+export const DEFAULT_TRANSCRIPT_DIR = "transcripts";
+
+// WILLFORM_TRANSCRIPT_DIR overrides where agent runs are recorded
+export function transcriptDirFromEnv(env: NodeJS.ProcessEnv = process.env): string {
+  return env.WILLFORM_TRANSCRIPT_DIR || DEFAULT_TRANSCRIPT_DIR;
+}
+
+export function transcriptPath(dir: string, now = new Date()): string {
+  return join(dir, `agent-${now.toISOString().replace(/[:.]/g, "-")}.json`);
+}
+
+// `t` is ms since the run started, not counting time spent waiting at a pause
+export type TranscriptEvent = { t: number } & (
+  | { type: "output"; stream: "stdout" | "stderr"; data: string }
+  // The presenter pressed Enter to continue
+  | { type: "pause"; label: string }
+  // Only the messages added since the previous request; system and tools are in the header
+  | { type: "model-request"; model: string; messageCount: number; added: Anthropic.MessageParam[] }
+  | { type: "model-response"; ms: number; response: Anthropic.Message }
+  // `auto` when --auto-approve covered the risk and nobody was asked
+  | { type: "approval"; operation: string; risk: OperationRisk; approved: boolean; auto: boolean; reason?: string }
+  | { type: "tool-call"; operation: string; params: Record<string, unknown>; ms: number; result: string; isError: boolean }
+  // One HTTP exchange with Willy; `paid` marks the retry that carried PAYMENT-SIGNATURE
+  | { type: "a2a"; method: string; url: string; paid: boolean; request?: unknown; status: number; response: string; ms: number }
+  | { type: "x402"; step: string }
+  | { type: "agent-card"; card: unknown }
+);
+
+export interface Transcript {
+  version: 1;
+  startedAt: string;
+  endedAt?: string;
+  argv: string[];
+  model: string;
+  server: string;
+  wallet: string;
+  system?: string;
+  tools?: Anthropic.Tool[];
+  events: TranscriptEvent[];
+}
+
+type Header = Omit<Transcript, "version" | "startedAt" | "endedAt" | "events">;
+
+// Distributes Omit over the event union so callers pass one event without its timestamp
+type NewEvent = TranscriptEvent extends infer E ? (E extends TranscriptEvent ? Omit<E, "t"> : never) : never;
+
+export class TranscriptRecorder {
+  private readonly transcript: Transcript;
+  private readonly started = Date.now();
+  private pausedMs = 0;
+  private pauseStart: number | null = null;
+  private sentMessages = 0;
+
+  constructor(header: Header) {
+    this.transcript = { version: 1, startedAt: new Date(this.started).toISOString(), ...header, events: [] };
+  }
+
+  now(): number {
+    return Date.now() - this.started - this.pausedMs;
+  }
+
+  // `t` defaults to now; pass the start time for events recorded once they complete
+  record(event: NewEvent, t = this.now()): void {
+    this.transcript.events.push({ t, ...event } as TranscriptEvent);
+  }
+
+  setPrompt(system: string, tools: Anthropic.Tool[]): void {
+    this.transcript.system = system;
+    this.transcript.tools = tools;
+  }
+
+  modelRequest(model: string, messages: Anthropic.MessageParam[]): void {
+    // A reset conversation starts over from the first message
+    if (messages.length < this.sentMessages) this.sentMessages = 0;
+    this.record({ type: "model-request", model, messageCount: messages.length, added: structuredClone(messages.slice(this.sentMessages)) });
+    this.sentMessages = messages.length;
+  }
+
+  // Waiting for the presenter is not part of the run's timing; replay waits for them instead
+  pause(label: string): void {
+    this.record({ type: "pause", label });
+    this.pauseStart = Date.now();
+  }
+
+  resume(): void {
+    if (this.pauseStart === null) return;
+    this.pausedMs += Date.now() - this.pauseStart;
+    this.pauseStart = null;
+  }
+
+  // Tees everything written to the stream into the transcript; returns the function that stops it
+  capture(stream: NodeJS.WriteStream, name: "stdout" | "stderr"): () => void {
+    const write = stream.write;
+    stream.write = ((chunk: string | Uint8Array, ...rest: unknown[]) => {
+      this.record({ type: "output", stream: name, data: typeof chunk === "string" ? chunk : Buffer.from(chunk).toString("utf8") });
+      return (write as (...args: unknown[]) => boolean).call(stream, chunk, ...rest);
+    }) as typeof stream.write;
+    return () => {
+      stream.write = write;
+    };
+  }
+
+  save(path: string): void {
+    mkdirSync(dirname(path), { recursive: true });
+    // Header first so the file reads top-down
+    const { events, ...header } = this.transcript;
+    writeFileSync(path, JSON.stringify({ ...header, endedAt: new Date().toISOString(), events }, null, 2) + "\n");
+  }
+}
+
+export function loadTranscript(path: string): Transcript {
+  const transcript = JSON.parse(readFileSync(path, "utf8")) as Transcript;
+  if (transcript.version !== 1 || !Array.isArray(transcript.events)) throw new Error(`${path} is not an agent transcript`);
+  return transcript;
+}
+
+export interface ReplayOptions {
+  // Called at each pause; resolves when the presenter wants to go on. Without it pauses are skipped.
+  waitForEnter?: () => Promise<void>;
+  // Idle gaps longer than this (someone typing a chat message, reading an approval) are shortened to it
+  maxGapMs?: number;
+  // false writes everything at once, e.g. when output is piped
+  realtime?: boolean;
+}
+
+// Writes the recorded terminal output with its original pacing; nothing is sent to the model or Willy
+export async function replayTranscript(transcript: Transcript, options: ReplayOptions = {}): Promise<void> {
+  const { maxGapMs = 2_000, realtime = true } = options;
+  let last = 0;
+  for (const event of transcript.events) {
+    if (event.type !== "output" && event.type !== "pause") continue;
+    const gap = Math.min(event.t - last, maxGapMs);
+    if (realtime && gap > 0) await new Promise((r) => setTimeout(r, gap));
+    last = Math.max(last, event.t);
+    if (event.type === "pause") await options.waitForEnter?.();
+    else (event.stream === "stderr" ? process.stderr : process.stdout).write(event.data);
+  }
+}
@@ -1,5 +1,8 @@
 // Shared utilities
 
+import { homedir } from "os";
+import { join } from "path";
+
 export function resolvePath(obj: unknown, path: string): unknown {
   let current = obj;
   for (const key of path.split(".")) {
@@ -8,3 +11,9 @@ export function resolvePath(obj: unknown, path: string): unknown {
   }
   return current;
 }
+
+// Paths from .env are not shell-expanded, so "~/.willform/wallet.json" would otherwise name a folder called "~"
+export function expandHome(path: string): string {
+  if (path === "~") return homedir();
+  return path.startsWith("~/") ? join(homedir(), path.slice(2)) : path;
+}
@@ -0,0 +1,75 @@
+#!/usr/bin/env tsx
+// Mock Willy server — run the demos offline against in-memory namespaces and deployments
+//
+// Usage:
+//   npm run mock-server
+//   MOCK_PORT=4000 MOCK_LATENCY_MS=2000 npm run mock-server
+//
+// Then point the demos at it with WILLFORM_A2A_URL=http://localhost:3000 (the .env.example default).
+// x402 is off unless MOCK_X402_PRICE is set, so any well-formed WALLET_PRIVATE_KEY works.
+//
+// Simulated x402 (402 challenge → EIP-712 signature → verify → debit):
+//   MOCK_X402_PRICE=0.001                 USDC per POST /a2a (enables payment)
+//   MOCK_X402_PAYEE=0x...                 payTo address
+//   MOCK_X402_MODE=accept|reject|underpay|timeout
+//   MOCK_X402_BALANCE=10                  simulated USDC per payer
+//   MOCK_X402_NETWORK=eip155:84532
+//
+// Simulated transport faults (exercise client retries and idempotency keys):
+//   MOCK_FAULT_RATE=0.3                   share of POST /a2a requests that fail
+//   MOCK_FAULT_STATUS=503,429,502         statuses to pick from (default 503)
+//   MOCK_FAULT_STAGE=before|after         reject outright, or process and then lose the response
+//
+// MOCK_BATCH=off rejects JSON-RPC batch arrays, like a server without batch support
+// MOCK_PUSH=off answers push notification configs with -32003, like a server without push support
+
+import chalk from "chalk";
+import { startMockServer, type FaultOptions } from "./mock/server.js";
+import type { X402Mode, X402MockOptions } from "./mock/x402.js";
+
+const port = Number(process.env.MOCK_PORT ?? 3000);
+const latencyMs = Number(process.env.MOCK_LATENCY_MS ?? 800);
+
+const x402: X402MockOptions | undefined = process.env.MOCK_X402_PRICE
+  ? {
+      price: process.env.MOCK_X402_PRICE,
+      payTo: (process.env.MOCK_X402_PAYEE ?? "0x209693Bc6afc0C5328bA36FaF03C514EF312287C") as `0x${string}`,
+      mode: (process.env.MOCK_X402_MODE ?? "accept") as X402Mode,
+      initialBalance: process.env.MOCK_X402_BALANCE,
+      network: process.env.MOCK_X402_NETWORK as `${string}:${string}` | undefined,
+    }
+  : undefined;
+
+const faults: FaultOptions | undefined = process.env.MOCK_FAULT_RATE
+  ? {
+      rate: Number(process.env.MOCK_FAULT_RATE),
+      statuses: process.env.MOCK_FAULT_STATUS?.split(",").map(Number),
+      stage: process.env.MOCK_FAULT_STAGE === "after" ? "after" : "before",
+    }
+  : undefined;
+
+const mock = await startMockServer({
+  port,
+  latencyMs,
+  x402,
+  faults,
+  batch: process.env.MOCK_BATCH !== "off",
+  push: process.env.MOCK_PUSH !== "off",
+});
+
+console.log(chalk.cyan.bold(`\n  Mock Willy listening on ${mock.url}`));
+console.log(chalk.gray(`  GET  ${mock.url}/.well-known/agent.json`));
+console.log(chalk.gray(`  POST ${mock.url}/a2a  (message/send, message/stream, tasks/get, tasks/cancel, tasks/pushNotificationConfig/*)`));
+if (mock.facilitator) {
+  const f = mock.facilitator;
+  console.log(chalk.yellow(`  x402 ${f.mode}: ${process.env.MOCK_X402_PRICE} USDC → ${f.payTo} on ${f.network}`));
+}
+if (faults) {
+  console.log(chalk.red(`  Faults: ${faults.rate * 100}% of requests → ${faults.statuses?.join("/") ?? 503} (${faults.stage})`));
+}
+console.log(chalk.gray(`  Balance $${mock.willy.balance.toFixed(2)} · latency ${latencyMs}ms · Ctrl-C to stop\n`));
+
+process.on("SIGINT", async () => {
+  await mock.close();
+  process.exit(0);
+});
@@ -0,0 +1,599 @@
+// Mock Willy HTTP server — agent card, JSON-RPC message/send, message/stream (SSE), tasks/* and push notifications
+
+import * as http from "http";
+import { randomUUID } from "crypto";
+import chalk from "chalk";
+import type { A2AArtifact, A2AStreamEvent, A2ATask, PushNotificationConfig } from "../lib/a2a-client.js";
+import type { AgentCard } from "../lib/agent-card.js";
+import { JSON_RPC } from "../lib/errors.js";
+import { MockWilly, OPERATION_SPECS, OperationError, operationsTableReply } from "./willy.js";
+import { MockFacilitator, type X402MockOptions } from "./x402.js";
+
+export interface MockServerOptions {
+  port?: number;
+  host?: string;
+  // Simulated processing time for slow operations (deploy_create, restarts, ...)
+  latencyMs?: number;
+  willy?: MockWilly;
+  // Require x402 payment on POST /a2a when set
+  x402?: X402MockOptions;
+  // Fail a share of POST /a2a requests to exercise client retries
+  faults?: FaultOptions;
+  // Accept JSON-RPC batch arrays (default true); off answers them with Invalid Request, like servers without batch support
+  batch?: boolean;
+  // Accept push notification configs and POST task updates to them (default true)
+  push?: boolean;
+  quiet?: boolean;
+}
+
+export interface FaultOptions {
+  // Probability (0-1) that a request fails
+  rate: number;
+  // Statuses to pick from (default 503); 429 and 503 carry Retry-After: 1
+  statuses?: number[];
+  // "before": reject without doing anything; "after": run the request, then lose the response
+  stage?: "before" | "after";
+}
+
+export interface RunningMockServer {
+  url: string;
+  willy: MockWilly;
+  facilitator: MockFacilitator | null;
+  server: http.Server;
+  close(): Promise<void>;
+}
+
+interface JsonRpcRequest {
+  jsonrpc: string;
+  method: string;
+  params?: Record<string, unknown>;
+  id: string | number | null;
+}
+
+const {
+  PARSE_ERROR,
+  INVALID_REQUEST,
+  METHOD_NOT_FOUND,
+  INVALID_PARAMS,
+  INTERNAL_ERROR,
+  TASK_NOT_FOUND,
+  TASK_NOT_CANCELABLE,
+  PUSH_NOTIFICATION_NOT_SUPPORTED,
+} = JSON_RPC;
+
+class RpcError extends Error {
+  constructor(
+    readonly code: number,
+    message: string,
+  ) {
+    super(message);
+  }
+}
+
+const isTerminal = (task: A2ATask) => ["completed", "failed", "canceled", "rejected"].includes(task.status.state);
+const sleep = (ms: number) => new Promise<void>((r) => setTimeout(r, ms));
+const now = () => new Date().toISOString();
+
+export function buildAgentCard(baseUrl: string, facilitator: MockFacilitator | null = null, push = true): AgentCard {
+  return {
+    name: "Willy (mock)",
+    description: "Local stand-in for the Willform Deploy Agent",
+    url: `${baseUrl}/a2a`,
+    version: "0.1.0-mock",
+    protocolVersion: "0.3.0",
+    provider: { organization: "Willform", url: "https://willform.ai" },
+    capabilities: { streaming: true, pushNotifications: push, stateTransitionHistory: true },
+    defaultInputModes: ["application/json", "text/plain"],
+    defaultOutputModes: ["application/json"],
+    ...(facilitator
+      ? {
+          securitySchemes: {
+            x402: {
+              type: "http",
+              scheme: "x402",
+              description: `Pay ${facilitator.requirements().amount} atomic USDC per request on ${facilitator.network}`,
+            },
+          },
+          security: [{ x402: [] }],
+        }
+      : {}),
+    skills: OPERATION_SPECS.map((spec) => ({
+      id: spec.id,
+      name: spec.name,
+      description: spec.description,
+      tags: spec.tags,
+      examples: spec.examples,
+      inputSchema: spec.inputSchema,
+    })),
+  };
+}
+
+export function createMockServer(options: MockServerOptions = {}): {
+  server: http.Server;
+  willy: MockWilly;
+  facilitator: MockFacilitator | null;
+} {
+  const willy = options.willy ?? new MockWilly();
+  const facilitator = options.x402 ? new MockFacilitator(options.x402) : null;
+  const latencyMs = options.latencyMs ?? 800;
+  const tasks = new Map<string, A2ATask>();
+  // Idempotency-Key → task it created (or a batch's replies); a repeat gets that back without running or charging again
+  const idempotent = new Map<string, string | unknown[]>();
+  const pushConfigs = new Map<string, PushNotificationConfig>();
+  // Notifications for one task go out one after another so the receiver sees states in order
+  const pushQueues = new Map<string, Promise<void>>();
+
+  const log = (line: string) => {
+    if (!options.quiet) console.log(chalk.gray(`  ${new Date().toISOString().slice(11, 19)} `) + line);
+  };
+
+  // ─── Task lifecycle ──────────────────────────────────────
+
+  function createTask(contextId: string): A2ATask {
+    const task: A2ATask = {
+      id: randomUUID(),
+      contextId,
+      status: { state: "submitted", timestamp: now() },
+      artifacts: [],
+      history: [{ state: "submitted", timestamp: now() }],
+    };
+    tasks.set(task.id, task);
+    return task;
+  }
+
+  function setState(task: A2ATask, state: string, message?: string) {
+    // A2A carries the reason for a state as an agent Message on the status
+    task.status = message
+      ? { state, timestamp: now(), message: { role: "agent", messageId: randomUUID(), parts: [{ kind: "text", text: message }] } }
+      : { state, timestamp: now() };
+    task.history.push(message ? { state, timestamp: task.status.timestamp, message } : { state, timestamp: task.status.timestamp });
+    notify(task);
+  }
+
+  // ─── Push notifications ──────────────────────────────────
+
+  function notify(task: A2ATask) {
+    const config = pushConfigs.get(task.id);
+    if (!config) return;
+    const snapshot = structuredClone(task);
+    const send = async () => {
+      try {
+        const res = await fetch(config.url, {
+          method: "POST",
+          headers: { "Content-Type": "application/json", ...(config.token ? { "X-A2A-Notification-Token": config.token } : {}) },
+          body: JSON.stringify(snapshot),
+          signal: AbortSignal.timeout(5_000),
+        });
+        log(`${chalk.blue("push".padEnd(14))} ${snapshot.status.state} → ${config.url} ${res.ok ? chalk.gray(String(res.status)) : chalk.red(String(res.status))}`);
+      } catch (e) {
+        log(chalk.red(`push           ${snapshot.status.state} → ${config.url} failed: ${e instanceof Error ? e.message : e}`));
+      }
+    };
+    const queued = (pushQueues.get(task.id) ?? Promise.resolve()).then(send);
+    pushQueues.set(task.id, queued);
+    if (isTerminal(task)) void queued.then(() => pushQueues.delete(task.id));
+  }
+
+  function pushConfigOf(raw: unknown): PushNotificationConfig {
+    if (options.push === false) throw new RpcError(PUSH_NOTIFICATION_NOT_SUPPORTED, "Push notifications are not supported");
+    const config = (raw ?? {}) as Partial<PushNotificationConfig>;
+    if (typeof config.url !== "string" || !/^https?:\/\//.test(config.url)) {
+      throw new RpcError(INVALID_PARAMS, "pushNotificationConfig.url must be an http(s) URL");
+    }
+    return { id: config.id ?? randomUUID(), url: config.url, token: config.token, authentication: config.authentication };
+  }
+
+  // message/send and message/stream may carry a config in params.configuration
+  function messagePushConfig(params: Record<string, unknown>): PushNotificationConfig | undefined {
+    const configuration = params.configuration as { pushNotificationConfig?: unknown } | undefined;
+    return configuration?.pushNotificationConfig ? pushConfigOf(configuration.pushNotificationConfig) : undefined;
+  }
+
+  function setPushConfig(params: Record<string, unknown>) {
+    const task = tasks.get(String(params.taskId));
+    if (!task) throw new RpcError(TASK_NOT_FOUND, `Task not found: ${params.taskId}`);
+    const config = pushConfigOf(params.pushNotificationConfig);
+    pushConfigs.set(task.id, config);
+    log(`${chalk.blue("push".padEnd(14))} task ${task.id.slice(0, 8)}… → ${config.url}`);
+    return { taskId: task.id, pushNotificationConfig: config };
+  }
+
+  function getPushConfig(params: Record<string, unknown>) {
+    if (options.push === false) throw new RpcError(PUSH_NOTIFICATION_NOT_SUPPORTED, "Push notifications are not supported");
+    const task = tasks.get(String(params.id));
+    if (!task) throw new RpcError(TASK_NOT_FOUND, `Task not found: ${params.id}`);
+    const config = pushConfigs.get(task.id);
+    if (!config) throw new RpcError(INVALID_PARAMS, `No push notification config for task ${task.id}`);
+    return { taskId: task.id, pushNotificationConfig: config };
+  }
+
+  // Executes the message against the store and returns the artifact to attach
+  function execute(text: string): { ok: boolean; artifact: A2AArtifact; operation: string; error?: string } {
+    let operation = "ask_willy";
+    let payload: Record<string, unknown>;
+    let ok = true;
+    let error: string | undefined;
+
+    let request: { operation?: unknown; params?: unknown } | null = null;
+    try {
+      const parsed = JSON.parse(text);
+      if (parsed && typeof parsed === "object" && typeof parsed.operation === "string") request = parsed;
+    } catch {
+      /* natural language */
+    }
+
+    if (request) {
+      operation = String(request.operation);
+      const params = (request.params && typeof request.params === "object" ? request.params : {}) as Record<string, unknown>;
+      try {
+        const outcome = willy.run(operation, params);
+        payload = { success: true, message: outcome.message, data: outcome.data };
+      } catch (e) {
+        if (!(e instanceof OperationError)) throw e;
+        ok = false;
+        error = e.message;
+        payload = { success: false, error: e.message, message: e.message };
+      }
+    } else if (/operation|available|help|사용|목록/i.test(text)) {
+      payload = { success: true, data: { reply: operationsTableReply() } };
+    } else {
+      payload = {
+        success: true,
+        data: { reply: 'I only understand structured requests here. Send {"operation": "...", "params": {...}} or ask which operations are available.' },
+      };
+    }
+
+    return {
+      ok,
+      operation,
+      error,
+      artifact: { artifactId: randomUUID(), name: "result", parts: [{ kind: "text", text: JSON.stringify(payload) }] },
+    };
+  }
+
+  function finish(task: A2ATask, result: ReturnType<typeof execute>) {
+    if (task.status.state === "canceled") return;
+    task.artifacts = [result.artifact];
+    const warning = willy.lowBalanceWarning;
+    if (warning) task.metadata = { lowBalanceWarning: warning };
+    setState(task, result.ok ? "completed" : "failed", result.error);
+  }
+
+  function messageText(params: Record<string, unknown>): { text: string; contextId: string } {
+    const message = params.message as { parts?: Array<{ kind?: string; text?: string }>; contextId?: string } | undefined;
+    const text = message?.parts?.find((p) => p.kind === "text")?.text;
+    if (typeof text !== "string") throw new RpcError(INVALID_PARAMS, "params.message must contain a text part");
+    const contextId = String(params.contextId ?? message?.contextId ?? randomUUID());
+    return { text, contextId };
+  }
+
+  function operationOf(text: string): string {
+    try {
+      return String(JSON.parse(text).operation ?? "ask_willy");
+    } catch {
+      return "ask_willy";
+    }
+  }
+
+  // ─── JSON-RPC methods ────────────────────────────────────
+
+  async function messageSend(params: Record<string, unknown>, key?: string): Promise<A2ATask> {
+    const { text, contextId } = messageText(params);
+    const push = messagePushConfig(params);
+    const task = createTask(contextId);
+    if (push) pushConfigs.set(task.id, push);
+    if (key) idempotent.set(key, task.id);
+    const operation = operationOf(text);
+    setState(task, "working");
+
+    // Slow operations return while still working; clients poll tasks/get for the result
+    if (willy.isSlow(operation)) {
+      void sleep(latencyMs).then(() => finish(task, execute(text)));
+      log(`${chalk.cyan("message/send")}   ${operation} ${chalk.yellow("→ working")}`);
+      return structuredClone(task);
+    }
+
+    const result = execute(text);
+    finish(task, result);
+    log(`${chalk.cyan("message/send")}   ${result.operation} → ${result.ok ? chalk.green(task.status.state) : chalk.red(task.status.state)}`);
+    return structuredClone(task);
+  }
+
+  async function messageStream(
+    params: Record<string, unknown>,
+    id: JsonRpcRequest["id"],
+    res: http.ServerResponse,
+    key?: string,
+  ): Promise<void> {
+    const { text, contextId } = messageText(params);
+    const push = messagePushConfig(params);
+    const task = createTask(contextId);
+    if (push) pushConfigs.set(task.id, push);
+    if (key) idempotent.set(key, task.id);
+    const operation = operationOf(text);
+
+    res.writeHead(200, { "Content-Type": "text/event-stream", "Cache-Control": "no-cache", Connection: "keep-alive" });
+    const emit = (result: A2AStreamEvent) => res.write(`data: ${JSON.stringify({ jsonrpc: "2.0", id, result })}\n\n`);
+    const status = (final: boolean) =>
+      emit({ kind: "status-update", taskId: task.id, contextId, status: { ...task.status }, final });
+
+    emit({ ...structuredClone(task), kind: "task" });
+    await sleep(Math.min(150, latencyMs));
+    setState(task, "working");
+    status(false);
+    await sleep(willy.isSlow(operation) ? latencyMs : Math.min(200, latencyMs));
+
+    const result = execute(text);
+    finish(task, result);
+    emit({ kind: "artifact-update", taskId: task.id, contextId, artifact: result.artifact, lastChunk: true });
+    status(true);
+    res.end();
+    log(`${chalk.magenta("message/stream")} ${result.operation} → ${result.ok ? chalk.green(task.status.state) : chalk.red(task.status.state)}`);
+  }
+
+  function getTask(params: Record<string, unknown>): A2ATask {
+    const task = tasks.get(String(params.id));
+    if (!task) throw new RpcError(TASK_NOT_FOUND, `Task not found: ${params.id}`);
+    return structuredClone(task);
+  }
+
+  function cancelTask(params: Record<string, unknown>): A2ATask {
+    const task = tasks.get(String(params.id));
+    if (!task) throw new RpcError(TASK_NOT_FOUND, `Task not found: ${params.id}`);
+    if (isTerminal(task)) {
+      throw new RpcError(TASK_NOT_CANCELABLE, `Task ${task.id} is already ${task.status.state}`);
+    }
+    setState(task, "canceled");
+    return structuredClone(task);
+  }
+
+  // ─── HTTP ────────────────────────────────────────────────
+
+  async function readBody(req: http.IncomingMessage): Promise<string> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) chunks.push(chunk as Buffer);
+    return Buffer.concat(chunks).toString("utf8");
+  }
+
+  function sendJson(res: http.ServerResponse, status: number, body: unknown) {
+    res.writeHead(status, { "Content-Type": "application/json" });
+    res.end(JSON.stringify(body));
+  }
+
+  // x402 gate: returns true when the request may proceed to JSON-RPC handling
+  async function chargeRequest(req: http.IncomingMessage, res: http.ServerResponse, resourceUrl: string): Promise<boolean> {
+    if (!facilitator) return true;
+
+    const header = req.headers["payment-signature"];
+    const outcome = await facilitator.handle(resourceUrl, Array.isArray(header) ? header[0] : header);
+
+    if (outcome.kind === "challenge") {
+      const error = (outcome.body as { error?: string }).error;
+      log(`${chalk.yellow("402")}            ${error ? chalk.red(error) : chalk.gray("payment required")}`);
+      res.writeHead(402, { "Content-Type": "application/json", ...outcome.headers });
+      res.end(JSON.stringify(outcome.body));
+      return false;
+    }
+    if (outcome.kind === "timeout") {
+      log(`${chalk.yellow("x402")}           ${chalk.red(`settlement stalled for ${outcome.delayMs}ms`)}`);
+      await sleep(outcome.delayMs);
+      if (!res.destroyed) sendJson(res, 504, { error: "Payment settlement timed out" });
+      return false;
+    }
+
+    log(`${chalk.green("x402")}           paid ${outcome.amount} USDC from ${outcome.payer.slice(0, 8)}… (left ${facilitator.balanceOf(outcome.payer)})`);
+    for (const [key, value] of Object.entries(outcome.headers)) res.setHeader(key, value);
+    return true;
+  }
+
+  // A repeated message/stream replays the task as it stands; the client polls tasks/get if it is still running
+  function replayStream(task: A2ATask, id: JsonRpcRequest["id"], res: http.ServerResponse) {
+    res.writeHead(200, { "Content-Type": "text/event-stream", "Cache-Control": "no-cache", Connection: "keep-alive" });
+    res.end(`data: ${JSON.stringify({ jsonrpc: "2.0", id, result: { ...structuredClone(task), kind: "task" } })}\n\n`);
+  }
+
+  function pickFault(): number | null {
+    const faults = options.faults;
+    if (!faults || Math.random() >= faults.rate) return null;
+    const statuses = faults.statuses?.length ? faults.statuses : [503];
+    return statuses[Math.floor(Math.random() * statuses.length)];
+  }
+
+  function sendFault(res: http.ServerResponse, status: number) {
+    const retryAfter = status === 429 || status === 503 ? { "Retry-After": "1" } : {};
+    res.writeHead(status, { "Content-Type": "application/json", ...retryAfter });
+    res.end(JSON.stringify({ error: `Simulated ${status}` }));
+  }
+
+  const rpcError = (e: unknown) =>
+    e instanceof RpcError ? { code: e.code, message: e.message } : { code: INTERNAL_ERROR, message: String(e) };
+
+  // Batch entries answer in one array; message/stream needs its own connection so it cannot be batched
+  async function handleBatch(
+    entries: unknown[],
+    res: http.ServerResponse,
+    context: { key?: string; replay?: string | unknown[]; lose?: number },
+  ) {
+    if (options.batch === false || entries.length === 0) {
+      const message = entries.length ? "Batch requests are not supported" : "Empty batch";
+      log(chalk.red(`batch          rejected: ${message}`));
+      sendJson(res, 200, { jsonrpc: "2.0", id: null, error: { code: INVALID_REQUEST, message } });
+      return;
+    }
+    if (Array.isArray(context.replay)) {
+      log(`${chalk.cyan("batch".padEnd(14))} ${chalk.gray(`replay ${context.key!.slice(0, 8)}… (${context.replay.length} replies, not charged)`)}`);
+      sendJson(res, 200, context.replay);
+      return;
+    }
+
+    const replies: unknown[] = [];
+    for (const entry of entries) {
+      const rpc = (entry ?? {}) as JsonRpcRequest;
+      // Entries without an id are notifications: run them, answer nothing
+      const notify = !("id" in rpc);
+      try {
+        if (rpc.jsonrpc !== "2.0" || typeof rpc.method !== "string") throw new RpcError(INVALID_REQUEST, "Invalid JSON-RPC 2.0 request");
+        const params = rpc.params ?? {};
+        let result: A2ATask;
+        switch (rpc.method) {
+          case "message/send":
+            result = await messageSend(params);
+            break;
+          case "tasks/get":
+            result = getTask(params);
+            break;
+          case "tasks/cancel":
+            result = cancelTask(params);
+            break;
+          case "message/stream":
+            throw new RpcError(INVALID_REQUEST, "message/stream cannot be batched");
+          default:
+            throw new RpcError(METHOD_NOT_FOUND, `Method not found: ${rpc.method}`);
+        }
+        if (!notify) replies.push({ jsonrpc: "2.0", id: rpc.id, result });
+      } catch (e) {
+        const error = rpcError(e);
+        log(chalk.red(`batch ${rpc.method} error [${error.code}] ${error.message}`));
+        if (!notify) replies.push({ jsonrpc: "2.0", id: rpc.id ?? null, error });
+      }
+    }
+    log(`${chalk.cyan("batch".padEnd(14))} ${entries.length} call(s) in one request`);
+    if (context.key) idempotent.set(context.key, replies);
+    if (context.lose) {
+      log(chalk.red(`batch processed, response lost (simulated ${context.lose})`));
+      sendFault(res, context.lose);
+      return;
+    }
+    // A batch of notifications gets no body at all
+    if (replies.length === 0) {
+      res.writeHead(204).end();
+      return;
+    }
+    sendJson(res, 200, replies);
+  }
+
+  async function handleRpc(
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+    context: { key?: string; replay?: string | unknown[]; lose?: number } = {},
+  ) {
+    let body: unknown;
+    try {
+      body = JSON.parse(await readBody(req));
+    } catch {
+      sendJson(res, 200, { jsonrpc: "2.0", id: null, error: { code: PARSE_ERROR, message: "Parse error" } });
+      return;
+    }
+    if (Array.isArray(body)) {
+      await handleBatch(body, res, context);
+      return;
+    }
+
+    const rpc = (body ?? {}) as JsonRpcRequest;
+    const { id } = rpc;
+    try {
+      if (rpc.jsonrpc !== "2.0" || typeof rpc.method !== "string") {
+        throw new RpcError(INVALID_REQUEST, "Invalid JSON-RPC 2.0 request");
+      }
+      const params = rpc.params ?? {};
+      const replayed = typeof context.replay === "string" ? tasks.get(context.replay) : undefined;
+      if (replayed && (rpc.method === "message/send" || rpc.method === "message/stream")) {
+        log(`${chalk.cyan(rpc.method.padEnd(14))} ${chalk.gray(`replay ${context.key!.slice(0, 8)}… → task ${replayed.id.slice(0, 8)}… (${replayed.status.state}, not charged)`)}`);
+        if (rpc.method === "message/send") sendJson(res, 200, { jsonrpc: "2.0", id, result: structuredClone(replayed) });
+        else replayStream(replayed, id, res);
+        return;
+      }
+      if (context.lose && (rpc.method === "message/send" || rpc.method === "message/stream")) {
+        // The work happens, the reply does not arrive: only an idempotent retry avoids doing it twice
+        await messageSend(params, context.key);
+        log(chalk.red(`${rpc.method} processed, response lost (simulated ${context.lose})`));
+        sendFault(res, context.lose);
+        return;
+      }
+      switch (rpc.method) {
+        case "message/send":
+          sendJson(res, 200, { jsonrpc: "2.0", id, result: await messageSend(params, context.key) });
+          return;
+        case "message/stream":
+          await messageStream(params, id, res, context.key);
+          return;
+        case "tasks/get":
+          sendJson(res, 200, { jsonrpc: "2.0", id, result: getTask(params) });
+          return;
+        case "tasks/cancel":
+          sendJson(res, 200, { jsonrpc: "2.0", id, result: cancelTask(params) });
+          return;
+        case "tasks/pushNotificationConfig/set":
+          sendJson(res, 200, { jsonrpc: "2.0", id, result: setPushConfig(params) });
+          return;
+        case "tasks/pushNotificationConfig/get":
+          sendJson(res, 200, { jsonrpc: "2.0", id, result: getPushConfig(params) });
+          return;
+        default:
+          throw new RpcError(METHOD_NOT_FOUND, `Method not found: ${rpc.method}`);
+      }
+    } catch (e) {
+      const error = rpcError(e);
+      log(chalk.red(`${rpc.method} error [${error.code}] ${error.message}`));
+      if (res.headersSent) {
+        res.end(`data: ${JSON.stringify({ jsonrpc: "2.0", id, error })}\n\n`);
+      } else {
+        sendJson(res, 200, { jsonrpc: "2.0", id, error });
+      }
+    }
+  }
+
+  const server = http.createServer((req, res) => {
+    const baseUrl = `http://${req.headers.host ?? "localhost"}`;
+    const path = new URL(req.url ?? "/", baseUrl).pathname;
+
+    if (req.method === "GET" && path === "/.well-known/agent.json") {
+      sendJson(res, 200, buildAgentCard(baseUrl, facilitator, options.push !== false));
+      return;
+    }
+    if (req.method === "POST" && path === "/a2a") {
+      const header = req.headers["idempotency-key"];
+      const key = Array.isArray(header) ? header[0] : header;
+      const replay = key ? idempotent.get(key) : undefined;
+      const fault = replay ? null : pickFault();
+      if (fault && options.faults?.stage !== "after") {
+        log(chalk.red(`POST /a2a       simulated ${fault}`));
+        req.resume();
+        sendFault(res, fault);
+        return;
+      }
+      // A replay was paid for the first time round
+      (replay ? Promise.resolve(true) : chargeRequest(req, res, `${baseUrl}/a2a`))
+        .then(async (paid) => {
+          if (paid) await handleRpc(req, res, { key, replay, lose: fault ?? undefined });
+          else req.resume();
+        })
+        .catch((e) => {
+          if (!res.headersSent) sendJson(res, 500, { error: String(e) });
+          else res.end();
+        });
+      return;
+    }
+    sendJson(res, 404, { error: `No route for ${req.method} ${path}` });
+  });
+
+  return { server, willy, facilitator };
+}
+
+export async function startMockServer(options: MockServerOptions = {}): Promise<RunningMockServer> {
+  const { server, willy, facilitator } = createMockServer(options);
+  const host = options.host ?? "127.0.0.1";
+  await new Promise<void>((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(options.port ?? 3000, host, resolve);
+  });
+  const address = server.address();
+  const port = typeof address === "object" && address ? address.port : options.port;
+  return {
+    url: `http://${host === "0.0.0.0" ? "localhost" : host}:${port}`,
+    willy,
+    facilitator,
+    server,
+    close: () => new Promise<void>((resolve) => server.close(() => resolve())),
+  };
+}
@@ -0,0 +1,561 @@
+// In-memory Willy backend — namespaces, deployments and credits for the mock server
+
+import { randomUUID } from "crypto";
+import type { JsonSchema } from "../lib/agent-card.js";
+
+export interface MockNamespace {
+  id: string;
+  shortId: string;
+  name: string;
+  allocatedCores: number;
+  status: string;
+  createdAt: string;
+}
+
+export interface MockEvent {
+  type: "Normal" | "Warning";
+  reason: string;
+  message: string;
+  timestamp: string;
+}
+
+export interface MockDeployment {
+  id: string;
+  namespaceId: string;
+  name: string;
+  image: string;
+  chartType: string;
+  port: number;
+  env: Record<string, string>;
+  replicas: number;
+  // Replicas ramp up one every REPLICA_READY_MS from rolloutStartedAt
+  rolloutStartedAt: number;
+  readyAtStart: number;
+  createdAt: string;
+  stopped: boolean;
+  events: MockEvent[];
+}
+
+export class OperationError extends Error {}
+
+export interface OperationOutcome {
+  message: string;
+  data: unknown;
+}
+
+const CHARTS = [
+  { type: "web", description: "HTTP service with ingress and TLS" },
+  { type: "database", description: "Stateful database with persistent volume" },
+  { type: "queue", description: "Message broker (RabbitMQ, NATS)" },
+  { type: "cache", description: "In-memory cache (Redis, Memcached)" },
+  { type: "storage", description: "S3-compatible object storage" },
+  { type: "worker", description: "Background worker without ingress" },
+  { type: "cronjob", description: "Scheduled job on a cron expression" },
+  { type: "job", description: "One-off job that runs to completion" },
+  { type: "static-site", description: "Static files served from a CDN edge" },
+];
+
+const CORES_PER_REPLICA = 0.25;
+const COST_PER_CALL = 0.001;
+const REPLICA_READY_MS = 1_500;
+const LOW_BALANCE_THRESHOLD = 1;
+
+// ─── Operation catalogue (also rendered into the agent card) ─
+
+const str = (description: string): JsonSchema => ({ type: "string", description });
+const int = (description: string): JsonSchema => ({ type: "integer", description });
+const deploymentIdOnly: JsonSchema = {
+  type: "object",
+  properties: { deploymentId: str("Deployment UUID") },
+  required: ["deploymentId"],
+};
+const deploySpec: JsonSchema = {
+  type: "object",
+  properties: {
+    namespaceId: str("Namespace UUID"),
+    name: str("Deployment name (DNS label)"),
+    image: str("Container image reference"),
+    chartType: { type: "string", enum: CHARTS.map((c) => c.type), description: "Workload chart type" },
+    port: int("Container port"),
+    env: { type: "object", description: "Environment variables" },
+  },
+  required: ["namespaceId", "name", "image"],
+};
+
+export interface OperationSpec {
+  id: string;
+  name: string;
+  description: string;
+  tags: string[];
+  inputSchema: JsonSchema;
+  examples?: string[];
+}
+
+export const OPERATION_SPECS: OperationSpec[] = [
+  { id: "credits_balance", name: "Credits balance", description: "Check remaining credits", tags: ["billing"], inputSchema: { type: "object", properties: {} } },
+  { id: "chart_list", name: "Chart list", description: "List supported workload chart types", tags: ["catalog"], inputSchema: { type: "object", properties: {} } },
+  {
+    id: "namespace_create",
+    name: "Create namespace",
+    description: "Create an isolated namespace with quota and network policy",
+    tags: ["namespace"],
+    inputSchema: {
+      type: "object",
+      properties: { name: str("Namespace name"), allocatedCores: int("CPU cores to allocate (default 2)") },
+      required: ["name"],
+    },
+    examples: ['{"operation":"namespace_create","params":{"name":"a2a-demo","allocatedCores":2}}'],
+  },
+  { id: "namespace_list", name: "List namespaces", description: "List your namespaces", tags: ["namespace"], inputSchema: { type: "object", properties: {} } },
+  {
+    id: "namespace_get",
+    name: "Get namespace",
+    description: "Namespace detail with quota usage",
+    tags: ["namespace"],
+    inputSchema: { type: "object", properties: { namespaceId: str("Namespace UUID") }, required: ["namespaceId"] },
+  },
+  {
+    id: "namespace_delete",
+    name: "Delete namespace",
+    description: "Delete a namespace and everything in it",
+    tags: ["namespace"],
+    inputSchema: { type: "object", properties: { namespaceId: str("Namespace UUID") }, required: ["namespaceId"] },
+  },
+  { id: "deploy_preflight", name: "Preflight", description: "Validate image, quota and cost before deploying", tags: ["deploy"], inputSchema: deploySpec },
+  {
+    id: "deploy_create",
+    name: "Create deployment",
+    description: "Deploy a container image",
+    tags: ["deploy"],
+    inputSchema: deploySpec,
+    examples: ['{"operation":"deploy_create","params":{"namespaceId":"<uuid>","name":"demo-web","image":"nginx:alpine","chartType":"web","port":80}}'],
+  },
+  { id: "deploy_status", name: "Deployment status", description: "Status, replicas and domain", tags: ["deploy"], inputSchema: deploymentIdOnly },
+  {
+    id: "deploy_list",
+    name: "List deployments",
+    description: "List deployments in a namespace",
+    tags: ["deploy"],
+    inputSchema: { type: "object", properties: { namespaceId: str("Namespace UUID") }, required: ["namespaceId"] },
+  },
+  {
+    id: "deploy_logs",
+    name: "Deployment logs",
+    description: "Recent container logs",
+    tags: ["deploy", "observability"],
+    inputSchema: {
+      type: "object",
+      properties: { deploymentId: str("Deployment UUID"), tail: int("Number of lines"), since: str("ISO timestamp") },
+      required: ["deploymentId"],
+    },
+  },
+  { id: "deploy_diagnose", name: "Diagnose", description: "Diagnose deployment problems", tags: ["deploy", "observability"], inputSchema: deploymentIdOnly },
+  {
+    id: "deploy_scale",
+    name: "Scale",
+    description: "Change replica count",
+    tags: ["deploy"],
+    inputSchema: {
+      type: "object",
+      properties: { deploymentId: str("Deployment UUID"), replicas: int("Target replicas") },
+      required: ["deploymentId", "replicas"],
+    },
+  },
+  { id: "deploy_events", name: "Events", description: "Kubernetes events for a deployment", tags: ["deploy", "observability"], inputSchema: deploymentIdOnly },
+  { id: "deploy_stop", name: "Stop", description: "Scale to zero, keeping configuration", tags: ["deploy"], inputSchema: deploymentIdOnly },
+  { id: "deploy_restart", name: "Restart", description: "Restart or resume a deployment", tags: ["deploy"], inputSchema: deploymentIdOnly },
+  { id: "deploy_delete", name: "Delete deployment", description: "Delete a deployment", tags: ["deploy"], inputSchema: deploymentIdOnly },
+  {
+    id: "deploy_update_env",
+    name: "Update env",
+    description: "Set environment variables (rolls the pods)",
+    tags: ["deploy"],
+    inputSchema: {
+      type: "object",
+      properties: {
+        deploymentId: str("Deployment UUID"),
+        env: { type: "object", description: "Variables to set" },
+        merge: { type: "boolean", description: "Merge with existing (default true)" },
+      },
+      required: ["deploymentId", "env"],
+    },
+  },
+];
+
+// ─── Store ───────────────────────────────────────────────────
+
+export class MockWilly {
+  readonly namespaces = new Map<string, MockNamespace>();
+  readonly deployments = new Map<string, MockDeployment>();
+  balance: number;
+
+  constructor(options: { initialBalance?: number } = {}) {
+    this.balance = options.initialBalance ?? 25;
+  }
+
+  get lowBalanceWarning(): { balance: string; message: string } | undefined {
+    if (this.balance >= LOW_BALANCE_THRESHOLD) return undefined;
+    return {
+      balance: this.balance.toFixed(8),
+      message: `Credits are running low ($${this.balance.toFixed(2)}). Top up to avoid suspension.`,
+    };
+  }
+
+  // Operations that take long enough to be worth streaming progress for
+  isSlow(operation: string): boolean {
+    return ["deploy_create", "deploy_restart", "deploy_update_env", "namespace_create"].includes(operation);
+  }
+
+  run(operation: string, params: Record<string, unknown>): OperationOutcome {
+    const handler = this.handlers[operation];
+    if (!handler) {
+      throw new OperationError(
+        `Unknown operation "${operation}". Available: ${OPERATION_SPECS.map((s) => s.id).join(", ")}`,
+      );
+    }
+    const outcome = handler(params);
+    this.balance = Math.max(0, this.balance - COST_PER_CALL);
+    return outcome;
+  }
+
+  // ─── Helpers ─────────────────────────────────────────────
+
+  private requireString(params: Record<string, unknown>, key: string): string {
+    const value = params[key];
+    if (typeof value !== "string" || value === "") throw new OperationError(`"${key}" is required`);
+    return value;
+  }
+
+  private namespace(params: Record<string, unknown>): MockNamespace {
+    const id = this.requireString(params, "namespaceId");
+    const ns = this.namespaces.get(id);
+    if (!ns) throw new OperationError(`Namespace ${id} not found. Use namespace_list to see existing namespaces.`);
+    return ns;
+  }
+
+  private deployment(params: Record<string, unknown>): MockDeployment {
+    const id = this.requireString(params, "deploymentId");
+    const d = this.deployments.get(id);
+    if (!d) throw new OperationError(`Deployment ${id} not found. Use deploy_list to see deployments.`);
+    return d;
+  }
+
+  private usedCores(namespaceId: string, exclude?: string): number {
+    let used = 0;
+    for (const d of this.deployments.values()) {
+      if (d.namespaceId === namespaceId && d.id !== exclude && !d.stopped) used += d.replicas * CORES_PER_REPLICA;
+    }
+    return used;
+  }
+
+  private addEvent(d: MockDeployment, type: MockEvent["type"], reason: string, message: string) {
+    d.events.push({ type, reason, message, timestamp: new Date().toISOString() });
+  }
+
+  private startRollout(d: MockDeployment) {
+    d.readyAtStart = this.readyReplicas(d);
+    d.rolloutStartedAt = Date.now();
+  }
+
+  private crashes(d: MockDeployment): boolean {
+    return /crash|broken/.test(d.image);
+  }
+
+  readyReplicas(d: MockDeployment): number {
+    if (d.stopped || this.crashes(d)) return 0;
+    const ramped = Math.floor((Date.now() - d.rolloutStartedAt) / REPLICA_READY_MS);
+    if (d.replicas <= d.readyAtStart) return d.replicas;
+    return Math.min(d.replicas, d.readyAtStart + ramped);
+  }
+
+  private deploymentStatus(d: MockDeployment): string {
+    if (d.stopped) return "stopped";
+    if (this.crashes(d)) return "CrashLoopBackOff";
+    return this.readyReplicas(d) >= d.replicas ? "running" : "deploying";
+  }
+
+  private podNames(d: MockDeployment): string[] {
+    return Array.from({ length: d.replicas }, (_, i) => `${d.name}-${d.id.slice(0, 5)}-${"abcdefghij"[i % 10]}${i}`);
+  }
+
+  private describe(d: MockDeployment) {
+    const ns = this.namespaces.get(d.namespaceId);
+    return {
+      id: d.id,
+      deploymentId: d.id,
+      namespaceId: d.namespaceId,
+      name: d.name,
+      image: d.image,
+      chartType: d.chartType,
+      port: d.port,
+      status: this.deploymentStatus(d),
+      replicas: d.replicas,
+      readyReplicas: this.readyReplicas(d),
+      domain: d.chartType === "web" ? `${d.name}-${ns?.shortId ?? "unknown"}.willform.app` : undefined,
+      env: d.env,
+      createdAt: d.createdAt,
+    };
+  }
+
+  // Synthesised access logs: each ready pod emits a line every 2s since its rollout started
+  private logLines(d: MockDeployment): Array<{ timestamp: number; pod: string; message: string }> {
+    const pods = this.podNames(d);
+    const lines: Array<{ timestamp: number; pod: string; message: string }> = [];
+    const start = Date.parse(d.createdAt);
+    const paths = ["/", "/healthz", "/index.html", "/favicon.ico", "/api/status"];
+    for (let p = 0; p < pods.length; p++) {
+      if (this.crashes(d)) {
+        lines.push({ timestamp: start + 500, pod: pods[p], message: `exec /docker-entrypoint.sh: exec format error` });
+        continue;
+      }
+      lines.push({ timestamp: start + 200 + p * 37, pod: pods[p], message: "start worker processes" });
+      for (let t = start + 2_000 + p * 311; t < Date.now(); t += 2_000) {
+        const path = paths[Math.floor(t / 2_000) % paths.length];
+        lines.push({ timestamp: t, pod: pods[p], message: `10.0.${p}.${(t / 1000) % 250 | 0} - - "GET ${path} HTTP/1.1" 200 615` });
+      }
+    }
+    return lines.sort((a, b) => a.timestamp - b.timestamp);
+  }
+
+  // ─── Handlers ────────────────────────────────────────────
+
+  private handlers: Record<string, (params: Record<string, unknown>) => OperationOutcome> = {
+    credits_balance: () => ({
+      message: `Current balance is $${this.balance.toFixed(2)}`,
+      data: {
+        balance: this.balance.toFixed(8),
+        currency: "USDC",
+        estimatedRuntime: `${Math.floor(this.balance / 0.02)}h at current usage`,
+      },
+    }),
+
+    chart_list: () => ({ message: `${CHARTS.length} chart types available`, data: CHARTS }),
+
+    namespace_create: (params) => {
+      const name = this.requireString(params, "name");
+      if (!/^[a-z0-9]([-a-z0-9]*[a-z0-9])?$/.test(name)) {
+        throw new OperationError(`Invalid namespace name "${name}": use lowercase letters, digits and dashes`);
+      }
+      if ([...this.namespaces.values()].some((n) => n.name === name)) {
+        throw new OperationError(`Namespace "${name}" already exists. Use namespace_list to find its ID.`);
+      }
+      const ns: MockNamespace = {
+        id: randomUUID(),
+        shortId: randomUUID().slice(0, 8),
+        name,
+        allocatedCores: Number(params.allocatedCores ?? 2),
+        status: "active",
+        createdAt: new Date().toISOString(),
+      };
+      this.namespaces.set(ns.id, ns);
+      return { message: `Namespace ${name} created`, data: ns };
+    },
+
+    namespace_list: () => {
+      const list = [...this.namespaces.values()];
+      return { message: `${list.length} namespace(s)`, data: list };
+    },
+
+    namespace_get: (params) => {
+      const ns = this.namespace(params);
+      const deployments = [...this.deployments.values()].filter((d) => d.namespaceId === ns.id);
+      return {
+        message: `Namespace ${ns.name}`,
+        data: { ...ns, usedCores: this.usedCores(ns.id), deploymentCount: deployments.length, k8sNamespace: `${ns.shortId}-user` },
+      };
+    },
+
+    namespace_delete: (params) => {
+      const ns = this.namespace(params);
+      for (const d of [...this.deployments.values()]) {
+        if (d.namespaceId === ns.id) this.deployments.delete(d.id);
+      }
+      this.namespaces.delete(ns.id);
+      return { message: `Namespace ${ns.name} deleted`, data: { id: ns.id, deleted: true } };
+    },
+
+    deploy_preflight: (params) => {
+      const ns = this.namespace(params);
+      const name = this.requireString(params, "name");
+      const image = this.requireString(params, "image");
+      const chartType = String(params.chartType ?? "web");
+      const checks = [
+        { check: "image", ok: /^[\w./-]+(:[\w.-]+)?$/.test(image), detail: `${image} is pullable` },
+        { check: "chartType", ok: CHARTS.some((c) => c.type === chartType), detail: `chart ${chartType}` },
+        {
+          check: "quota",
+          ok: this.usedCores(ns.id) + CORES_PER_REPLICA <= ns.allocatedCores,
+          detail: `${this.usedCores(ns.id) + CORES_PER_REPLICA}/${ns.allocatedCores} cores`,
+        },
+        {
+          check: "name",
+          ok: ![...this.deployments.values()].some((d) => d.namespaceId === ns.id && d.name === name),
+          detail: `${name} is available`,
+        },
+      ];
+      const ok = checks.every((c) => c.ok);
+      return {
+        message: ok ? "Preflight passed" : `Preflight failed: ${checks.filter((c) => !c.ok).map((c) => c.check).join(", ")}`,
+        data: { ok, checks, estimatedCostPerHour: "0.02000000" },
+      };
+    },
+
+    deploy_create: (params) => {
+      const ns = this.namespace(params);
+      const name = this.requireString(params, "name");
+      const image = this.requireString(params, "image");
+      if ([...this.deployments.values()].some((d) => d.namespaceId === ns.id && d.name === name)) {
+        throw new OperationError(`Deployment "${name}" already exists in ${ns.name}`);
+      }
+      if (this.usedCores(ns.id) + CORES_PER_REPLICA > ns.allocatedCores) {
+        throw new OperationError(`Quota exceeded in ${ns.name}: ${ns.allocatedCores} cores allocated`);
+      }
+      const d: MockDeployment = {
+        id: randomUUID(),
+        namespaceId: ns.id,
+        name,
+        image,
+        chartType: String(params.chartType ?? "web"),
+        port: Number(params.port ?? 8080),
+        env: (params.env as Record<string, string>) ?? {},
+        replicas: 1,
+        rolloutStartedAt: Date.now(),
+        readyAtStart: 0,
+        createdAt: new Date().toISOString(),
+        stopped: false,
+        events: [],
+      };
+      this.deployments.set(d.id, d);
+      this.addEvent(d, "Normal", "ScalingReplicaSet", `Scaled up replica set ${d.name} to 1`);
+      this.addEvent(d, "Normal", "Pulling", `Pulling image "${image}"`);
+      if (this.crashes(d)) this.addEvent(d, "Warning", "BackOff", "Back-off restarting failed container");
+      return { message: `Deployment ${name} created`, data: this.describe(d) };
+    },
+
+    deploy_status: (params) => {
+      const d = this.deployment(params);
+      return { message: `${d.name} is ${this.deploymentStatus(d)}`, data: this.describe(d) };
+    },
+
+    deploy_list: (params) => {
+      const ns = this.namespace(params);
+      const list = [...this.deployments.values()].filter((d) => d.namespaceId === ns.id).map((d) => this.describe(d));
+      return { message: `${list.length} deployment(s) in ${ns.name}`, data: list };
+    },
+
+    deploy_logs: (params) => {
+      const d = this.deployment(params);
+      let lines = this.logLines(d);
+      if (typeof params.since === "string") {
+        const since = Date.parse(params.since);
+        if (!Number.isNaN(since)) lines = lines.filter((l) => l.timestamp > since);
+      }
+      const tail = Number(params.tail ?? 100);
+      lines = lines.slice(-tail);
+      return {
+        message: `${lines.length} log line(s)`,
+        data: {
+          deploymentId: d.id,
+          pods: this.podNames(d),
+          logs: lines.map((l) => `${new Date(l.timestamp).toISOString()} [${l.pod}] ${l.message}`).join("\n"),
+        },
+      };
+    },
+
+    deploy_diagnose: (params) => {
+      const d = this.deployment(params);
+      const status = this.deploymentStatus(d);
+      const issues: string[] = [];
+      const suggestions: string[] = [];
+      if (this.crashes(d)) {
+        issues.push("Container exits immediately (CrashLoopBackOff)");
+        suggestions.push("Check the image entrypoint and architecture (linux/amd64)");
+      }
+      if (d.stopped) suggestions.push("Deployment is stopped; use deploy_restart to resume");
+      return {
+        message: issues.length ? `${issues.length} issue(s) found` : "No issues detected",
+        data: { deploymentId: d.id, healthy: issues.length === 0 && status === "running", status, issues, suggestions },
+      };
+    },
+
+    deploy_scale: (params) => {
+      const d = this.deployment(params);
+      const replicas = Number(params.replicas);
+      if (!Number.isInteger(replicas) || replicas < 0 || replicas > 20) {
+        throw new OperationError(`"replicas" must be an integer between 0 and 20`);
+      }
+      const ns = this.namespaces.get(d.namespaceId)!;
+      if (this.usedCores(ns.id, d.id) + replicas * CORES_PER_REPLICA > ns.allocatedCores) {
+        throw new OperationError(`Quota exceeded: ${replicas} replicas need ${replicas * CORES_PER_REPLICA} cores, ${ns.allocatedCores} allocated`);
+      }
+      this.startRollout(d);
+      const previous = d.replicas;
+      d.replicas = replicas;
+      this.addEvent(d, "Normal", "ScalingReplicaSet", `Scaled replica set ${d.name} from ${previous} to ${replicas}`);
+      return { message: `Scaled ${d.name} to ${replicas}`, data: { ...this.describe(d), previousReplicas: previous } };
+    },
+
+    deploy_events: (params) => {
+      const d = this.deployment(params);
+      const events = [...d.events];
+      if (this.deploymentStatus(d) === "running" && !events.some((e) => e.reason === "Started")) {
+        events.push({ type: "Normal", reason: "Started", message: "Started container", timestamp: new Date(d.rolloutStartedAt + REPLICA_READY_MS).toISOString() });
+      }
+      return { message: `${events.length} event(s)`, data: events };
+    },
+
+    deploy_stop: (params) => {
+      const d = this.deployment(params);
+      d.stopped = true;
+      this.addEvent(d, "Normal", "ScalingReplicaSet", `Scaled down replica set ${d.name} to 0`);
+      return { message: `${d.name} stopped`, data: this.describe(d) };
+    },
+
+    deploy_restart: (params) => {
+      const d = this.deployment(params);
+      d.stopped = false;
+      d.readyAtStart = 0;
+      d.rolloutStartedAt = Date.now();
+      this.addEvent(d, "Normal", "Restarted", `Rollout restart of ${d.name}`);
+      return { message: `${d.name} restarting`, data: this.describe(d) };
+    },
+
+    deploy_delete: (params) => {
+      const d = this.deployment(params);
+      this.deployments.delete(d.id);
+      return { message: `${d.name} deleted`, data: { id: d.id, deleted: true } };
+    },
+
+    deploy_update_env: (params) => {
+      const d = this.deployment(params);
+      const env = params.env;
+      if (!env || typeof env !== "object" || Array.isArray(env)) throw new OperationError(`"env" must be an object`);
+      const values = Object.fromEntries(Object.entries(env).map(([k, v]) => [k, String(v)]));
+      d.env = params.merge === false ? values : { ...d.env, ...values };
+      d.readyAtStart = 0;
+      d.rolloutStartedAt = Date.now();
+      this.addEvent(d, "Normal", "ConfigChanged", `Environment updated (${Object.keys(values).join(", ")})`);
+      return { message: `Environment updated on ${d.name}`, data: { ...this.describe(d), env: d.env } };
+    },
+  };
+}
+
+// Reply to free-form questions with the operations table Willy itself would produce
+export function operationsTableReply(): string {
+  const rows = OPERATION_SPECS.map((spec) => {
+    const required = new Set(spec.inputSchema.required ?? []);
+    const params = Object.keys(spec.inputSchema.properties ?? {})
+      .map((k) => (required.has(k) ? k : `${k}?`))
+      .join(", ");
+    return `| \`${spec.id}\` | ${params || "-"} | ${spec.description} |`;
+  });
+  return [
+    "Here are the operations you can call through A2A:",
+    "",
+    "| Operation | Parameters | Description |",
+    "|-----------|------------|-------------|",
+    ...rows,
+    "",
+    'Send them as `{"operation": "...", "params": {...}}`.',
+  ].join("\n");
+}
@@ -0,0 +1,190 @@
+// Local x402 facilitator stand-in — issues 402 challenges and verifies ExactEvmScheme (EIP-3009) payments offline
+
+import { randomBytes } from "crypto";
+import { getAddress, isAddress, verifyTypedData } from "viem";
+import { authorizationTypes, type ExactEIP3009Payload } from "@x402/evm";
+
+// accept: verify and settle normally
+// reject: the facilitator refuses every signature
+// underpay: the challenge advertises less than the configured price, so verification fails on amount
+// timeout: settlement never answers within the client's timeout
+export type X402Mode = "accept" | "reject" | "underpay" | "timeout";
+
+export interface X402MockOptions {
+  // Price per POST /a2a in USDC (decimal string, e.g. "0.001")
+  price: string;
+  payTo: `0x${string}`;
+  network?: `${string}:${string}`;
+  asset?: `0x${string}`;
+  // Simulated USDC balance every new payer starts with
+  initialBalance?: string;
+  mode?: X402Mode;
+  timeoutMs?: number;
+}
+
+interface PaymentRequirements {
+  scheme: string;
+  network: `${string}:${string}`;
+  asset: string;
+  amount: string;
+  payTo: string;
+  maxTimeoutSeconds: number;
+  extra: Record<string, unknown>;
+}
+
+interface PaymentPayload {
+  x402Version: number;
+  resource: { url: string; description: string; mimeType: string };
+  accepted: PaymentRequirements;
+  payload: Record<string, unknown>;
+}
+
+export type X402Outcome =
+  | { kind: "challenge"; status: 402; headers: Record<string, string>; body: unknown }
+  | { kind: "paid"; headers: Record<string, string>; payer: string; amount: string }
+  | { kind: "timeout"; delayMs: number };
+
+// Base Sepolia USDC — its EIP-712 domain is { name: "USDC", version: "2" }
+const DEFAULT_NETWORK = "eip155:84532" as const;
+const DEFAULT_ASSET = "0x036CbD53842c5426634e7929541eC2318f3dCF7e" as const;
+const USDC_DECIMALS = 6;
+
+const encode = (value: unknown) => Buffer.from(JSON.stringify(value)).toString("base64");
+const decode = <T>(header: string): T => JSON.parse(Buffer.from(header, "base64").toString("utf8")) as T;
+
+export function toAtomic(amount: string): bigint {
+  const [whole, frac = ""] = amount.split(".");
+  return BigInt(whole || "0") * 10n ** BigInt(USDC_DECIMALS) + BigInt((frac + "000000").slice(0, USDC_DECIMALS));
+}
+
+export function fromAtomic(amount: bigint): string {
+  const whole = amount / 10n ** BigInt(USDC_DECIMALS);
+  const frac = (amount % 10n ** BigInt(USDC_DECIMALS)).toString().padStart(USDC_DECIMALS, "0");
+  return `${whole}.${frac}`;
+}
+
+export class MockFacilitator {
+  mode: X402Mode;
+  readonly price: bigint;
+  readonly payTo: `0x${string}`;
+  readonly network: `${string}:${string}`;
+  readonly asset: `0x${string}`;
+  private readonly initialBalance: bigint;
+  private readonly timeoutMs: number;
+  private readonly balances = new Map<string, bigint>();
+  private readonly usedNonces = new Set<string>();
+
+  constructor(options: X402MockOptions) {
+    if (!isAddress(options.payTo)) throw new Error(`Invalid x402 payee address: ${options.payTo}`);
+    this.mode = options.mode ?? "accept";
+    this.price = toAtomic(options.price);
+    this.payTo = getAddress(options.payTo);
+    this.network = options.network ?? DEFAULT_NETWORK;
+    this.asset = options.asset ?? DEFAULT_ASSET;
+    this.initialBalance = toAtomic(options.initialBalance ?? "10");
+    this.timeoutMs = options.timeoutMs ?? 65_000;
+  }
+
+  balanceOf(payer: string): string {
+    return fromAtomic(this.balances.get(getAddress(payer)) ?? this.initialBalance);
+  }
+
+  requirements(): PaymentRequirements {
+    const amount = this.mode === "underpay" ? this.price / 2n : this.price;
+    return {
+      scheme: "exact",
+      network: this.network,
+      asset: this.asset,
+      amount: amount.toString(),
+      payTo: this.payTo,
+      maxTimeoutSeconds: 60,
+      extra: { name: "USDC", version: "2" },
+    };
+  }
+
+  // Gate for one paid request: no header → challenge, valid header → settled, anything else → challenge with error
+  async handle(resourceUrl: string, paymentHeader: string | undefined): Promise<X402Outcome> {
+    if (!paymentHeader) return this.challenge(resourceUrl);
+
+    let payment: PaymentPayload;
+    try {
+      payment = decode<PaymentPayload>(paymentHeader);
+    } catch {
+      return this.challenge(resourceUrl, "invalid_payment_header");
+    }
+
+    const error = await this.verify(payment);
+    if (error) return this.challenge(resourceUrl, error);
+    if (this.mode === "timeout") return { kind: "timeout", delayMs: this.timeoutMs };
+
+    const { authorization } = payment.payload as ExactEIP3009Payload;
+    const payer = getAddress(authorization.from);
+    const amount = BigInt(authorization.value);
+    this.balances.set(payer, (this.balances.get(payer) ?? this.initialBalance) - amount);
+    this.usedNonces.add(authorization.nonce);
+
+    const settlement = {
+      success: true,
+      transaction: `0x${randomBytes(32).toString("hex")}`,
+      network: this.network,
+      payer,
+    };
+    return { kind: "paid", headers: { "PAYMENT-RESPONSE": encode(settlement) }, payer, amount: fromAtomic(amount) };
+  }
+
+  private challenge(resourceUrl: string, error?: string): X402Outcome {
+    const paymentRequired = {
+      x402Version: 2,
+      ...(error ? { error } : {}),
+      resource: { url: resourceUrl, description: "Willform A2A request", mimeType: "application/json" },
+      accepts: [this.requirements()],
+    };
+    return { kind: "challenge", status: 402, headers: { "PAYMENT-REQUIRED": encode(paymentRequired) }, body: paymentRequired };
+  }
+
+  // Returns an x402 invalidReason, or null when the payment is acceptable
+  private async verify(payment: PaymentPayload): Promise<string | null> {
+    if (this.mode === "reject") return "facilitator_rejected";
+    if (payment.x402Version !== 2) return "unsupported_x402_version";
+    if (payment.accepted?.scheme !== "exact") return "unsupported_scheme";
+    if (payment.accepted.network !== this.network) return "invalid_network";
+
+    const { authorization, signature } = payment.payload as Partial<ExactEIP3009Payload>;
+    if (!authorization || !signature) return "invalid_exact_evm_payload";
+
+    if (getAddress(authorization.to) !== this.payTo) return "invalid_exact_evm_payload_recipient_mismatch";
+    if (BigInt(authorization.value) < this.price) return "invalid_exact_evm_payload_authorization_value";
+
+    const now = BigInt(Math.floor(Date.now() / 1000));
+    if (BigInt(authorization.validAfter) > now) return "invalid_exact_evm_payload_authorization_valid_after";
+    if (BigInt(authorization.validBefore) <= now) return "invalid_exact_evm_payload_authorization_valid_before";
+    if (this.usedNonces.has(authorization.nonce)) return "invalid_exact_evm_payload_nonce_reused";
+
+    const valid = await verifyTypedData({
+      address: getAddress(authorization.from),
+      domain: {
+        name: "USDC",
+        version: "2",
+        chainId: Number(this.network.split(":")[1]),
+        verifyingContract: this.asset,
+      },
+      types: authorizationTypes,
+      primaryType: "TransferWithAuthorization",
+      message: {
+        from: getAddress(authorization.from),
+        to: getAddress(authorization.to),
+        value: BigInt(authorization.value),
+        validAfter: BigInt(authorization.validAfter),
+        validBefore: BigInt(authorization.validBefore),
+        nonce: authorization.nonce,
+      },
+      signature,
+    }).catch(() => false);
+    if (!valid) return "invalid_exact_evm_payload_signature";
+
+    const balance = this.balances.get(getAddress(authorization.from)) ?? this.initialBalance;
+    if (balance < BigInt(authorization.value)) return "insufficient_funds";
+
+    return null;
+  }
+}